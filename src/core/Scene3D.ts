@@ -1,32 +1,60 @@
 // 3D Scene Management for ICF Home Designer
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { LayerType, LayerState } from '../types/project';
+import { LAYER_TYPES, GHOST_OPACITY } from '../data/layerCatalog';
+
+// Perspective orbit view, or a flat orthographic view from above (plan), the front (+Z) or the side (+X)
+export type ViewMode = 'perspective' | 'plan' | 'front' | 'side';
+
+const ORTHO_VIEW_HEIGHT = 480;   // inches shown top to bottom at zoom 1
+const ORTHO_DISTANCE = 1500;     // camera distance from its target, within the orbit limits
+const MAX_POLAR_ANGLE = Math.PI / 2 - 0.05;
+
+// Direction from the target to the camera, and the camera's up, for each flat view
+const ORTHO_VIEWS: Record<Exclude<ViewMode, 'perspective'>, { direction: THREE.Vector3; up: THREE.Vector3 }> = {
+    plan: { direction: new THREE.Vector3(0, 1, 0), up: new THREE.Vector3(0, 0, -1) },
+    front: { direction: new THREE.Vector3(0, 0, 1), up: new THREE.Vector3(0, 1, 0) },
+    side: { direction: new THREE.Vector3(1, 0, 0), up: new THREE.Vector3(0, 1, 0) }
+};
 
 export class Scene3D {
     public scene: THREE.Scene;
-    public camera: THREE.PerspectiveCamera;
+    public camera: THREE.PerspectiveCamera | THREE.OrthographicCamera;
+    public perspectiveCamera: THREE.PerspectiveCamera;
+    public orthoCamera: THREE.OrthographicCamera;
+    public viewMode: ViewMode = 'perspective';
     public renderer: THREE.WebGLRenderer;
     public controls: OrbitControls;
     public raycaster: THREE.Raycaster;
     public mouse: THREE.Vector2;
+    public annotationGroup: THREE.Group;
+    public roomGroup: THREE.Group;
+    public planGroup: THREE.Group;
 
+    private perspectiveOffset = new THREE.Vector3(200, 200, 200); // orbit camera from its target, while in a flat view
     private gridHelper: THREE.GridHelper;
     private groundPlane: THREE.Mesh;
+    private layerGroups: Map<LayerType, THREE.Group> = new Map();
+    private fadedMaterials: THREE.Material[] = [];
 
     constructor(container: HTMLElement) {
         // Scene
         this.scene = new THREE.Scene();
         this.scene.background = new THREE.Color(0x1a1a2e);
 
-        // Camera
-        this.camera = new THREE.PerspectiveCamera(
+        // Cameras - the orthographic one sees through the whole scene, whichever side it is on
+        this.perspectiveCamera = new THREE.PerspectiveCamera(
             60,
             container.clientWidth / container.clientHeight,
             1,
             10000
         );
-        this.camera.position.set(200, 200, 200);
-        this.camera.lookAt(0, 0, 0);
+        this.perspectiveCamera.position.set(200, 200, 200);
+        this.perspectiveCamera.lookAt(0, 0, 0);
+        this.orthoCamera = new THREE.OrthographicCamera(-1, 1, 1, -1, -10000, 10000);
+        this.setOrthoFrustum(container.clientWidth / container.clientHeight);
+        this.camera = this.perspectiveCamera;
 
         // Renderer
         this.renderer = new THREE.WebGLRenderer({ antialias: true });
@@ -40,9 +68,11 @@ export class Scene3D {
         this.controls = new OrbitControls(this.camera, this.renderer.domElement);
         this.controls.enableDamping = true;
         this.controls.dampingFactor = 0.05;
-        this.controls.maxPolarAngle = Math.PI / 2 - 0.05;
+        this.controls.maxPolarAngle = MAX_POLAR_ANGLE;
         this.controls.minDistance = 50;
         this.controls.maxDistance = 2000;
+        this.controls.minZoom = 0.05;
+        this.controls.maxZoom = 40;
 
         // Raycaster for picking
         this.raycaster = new THREE.Raycaster();
@@ -55,6 +85,22 @@ export class Scene3D {
         this.gridHelper = this.createGrid();
         this.groundPlane = this.createGroundPlane();
 
+        // Pinned measurements
+        this.annotationGroup = new THREE.Group();
+        this.annotationGroup.name = 'annotations';
+        this.scene.add(this.annotationGroup);
+
+        // Detected room floors
+        this.roomGroup = new THREE.Group();
+        this.roomGroup.name = 'rooms';
+        this.scene.add(this.roomGroup);
+
+        // Wall outlines and dimension strings, shown in plan view only
+        this.planGroup = new THREE.Group();
+        this.planGroup.name = 'plan';
+        this.planGroup.visible = false;
+        this.scene.add(this.planGroup);
+
         // Handle resize
         window.addEventListener('resize', () => this.onResize(container));
 
@@ -118,11 +164,62 @@ export class Scene3D {
     }
 
     private onResize(container: HTMLElement): void {
-        this.camera.aspect = container.clientWidth / container.clientHeight;
-        this.camera.updateProjectionMatrix();
+        const aspect = container.clientWidth / container.clientHeight;
+        this.perspectiveCamera.aspect = aspect;
+        this.perspectiveCamera.updateProjectionMatrix();
+        this.setOrthoFrustum(aspect);
         this.renderer.setSize(container.clientWidth, container.clientHeight);
     }
 
+    private setOrthoFrustum(aspect: number): void {
+        const halfHeight = ORTHO_VIEW_HEIGHT / 2;
+        this.orthoCamera.left = -halfHeight * aspect;
+        this.orthoCamera.right = halfHeight * aspect;
+        this.orthoCamera.top = halfHeight;
+        this.orthoCamera.bottom = -halfHeight;
+        this.orthoCamera.updateProjectionMatrix();
+    }
+
+    /**
+     * Switch between the perspective orbit view and the flat plan and elevation views.
+     * Flat views look at the same point at about the same scale; they pan with the
+     * right mouse button (one finger on touch) and zoom with the wheel, but do not rotate.
+     * The left button stays free for the tools.
+     */
+    public setViewMode(mode: ViewMode): void {
+        if (mode === this.viewMode) return;
+        const target = this.controls.target;
+
+        if (this.viewMode === 'perspective') {
+            this.perspectiveOffset.copy(this.perspectiveCamera.position).sub(target);
+            // Show the height the perspective view shows at its target
+            const visible = 2 * this.perspectiveOffset.length() * Math.tan(THREE.MathUtils.degToRad(this.perspectiveCamera.fov) / 2);
+            this.orthoCamera.zoom = THREE.MathUtils.clamp(ORTHO_VIEW_HEIGHT / visible, this.controls.minZoom, this.controls.maxZoom);
+            this.orthoCamera.updateProjectionMatrix();
+        }
+        this.viewMode = mode;
+        this.planGroup.visible = mode === 'plan';
+
+        if (mode === 'perspective') {
+            // Back to the orbit it left, moved along with any panning done in the flat views
+            this.camera = this.perspectiveCamera;
+            this.perspectiveCamera.position.copy(target).add(this.perspectiveOffset);
+            this.controls.enableRotate = true;
+            this.controls.maxPolarAngle = MAX_POLAR_ANGLE;
+            this.controls.touches.ONE = THREE.TOUCH.ROTATE;
+        } else {
+            const view = ORTHO_VIEWS[mode];
+            this.camera = this.orthoCamera;
+            this.orthoCamera.up.copy(view.up);
+            this.orthoCamera.position.copy(target).addScaledVector(view.direction, ORTHO_DISTANCE);
+            this.controls.enableRotate = false;
+            this.controls.maxPolarAngle = Math.PI;
+            this.controls.touches.ONE = THREE.TOUCH.PAN;
+        }
+        this.controls.object = this.camera;
+        this.controls.update();
+    }
+
     private animate = (): void => {
         requestAnimationFrame(this.animate);
         this.controls.update();
@@ -144,6 +241,44 @@ export class Scene3D {
         return null;
     }
 
+    /**
+     * Get the point to place a new element at: the top face of an existing block
+     * under the cursor, otherwise a horizontal plane at the current course height
+     */
+    public getPlacementIntersection(
+        event: MouseEvent,
+        container: HTMLElement,
+        objects: THREE.Object3D[],
+        courseHeight: number = 0
+    ): { point: THREE.Vector3; blockId?: string } | null {
+        const rect = container.getBoundingClientRect();
+        this.mouse.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
+        this.mouse.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
+
+        this.raycaster.setFromCamera(this.mouse, this.camera);
+
+        // Only solid block faces pointing up count as a stacking surface
+        const hits = this.raycaster.intersectObjects(objects, true);
+        for (const hit of hits) {
+            if (!(hit.object instanceof THREE.Mesh) || !hit.face) continue;
+            const normal = hit.face.normal.clone().transformDirection(hit.object.matrixWorld);
+            if (normal.y < 0.9) break; // Hit the side of a block first
+            const point = hit.point.clone();
+            point.y = Math.round(point.y * 1000) / 1000;
+            const blockId = hit.instanceId !== undefined
+                ? hit.object.userData.instanceIds?.[hit.instanceId]
+                : hit.object.userData.blockId;
+            return { point, blockId };
+        }
+
+        const coursePlane = new THREE.Plane(new THREE.Vector3(0, 1, 0), -courseHeight);
+        const point = new THREE.Vector3();
+        if (this.raycaster.ray.intersectPlane(coursePlane, point)) {
+            return { point };
+        }
+        return null;
+    }
+
     // Snap position to grid (8" increments for X/Z, 16" for Y)
     public snapToGrid(position: THREE.Vector3): THREE.Vector3 {
         return new THREE.Vector3(
@@ -163,6 +298,177 @@ export class Scene3D {
         return this.raycaster.intersectObjects(objects, true);
     }
 
+    /**
+     * Objects whose bounding box center falls inside a screen rectangle (box selection).
+     * Instanced meshes are tested per instance and reported with its instanceId.
+     */
+    public getObjectsInRect(
+        objects: THREE.Object3D[],
+        container: HTMLElement,
+        x1: number, y1: number,
+        x2: number, y2: number
+    ): { object: THREE.Object3D; instanceId?: number }[] {
+        const rect = container.getBoundingClientRect();
+        const toNdcX = (x: number) => ((x - rect.left) / rect.width) * 2 - 1;
+        const toNdcY = (y: number) => -((y - rect.top) / rect.height) * 2 + 1;
+        const minX = Math.min(toNdcX(x1), toNdcX(x2)), maxX = Math.max(toNdcX(x1), toNdcX(x2));
+        const minY = Math.min(toNdcY(y1), toNdcY(y2)), maxY = Math.max(toNdcY(y1), toNdcY(y2));
+        const inRect = (center: THREE.Vector3): boolean => {
+            center.project(this.camera);
+            return center.z < 1 &&
+                center.x >= minX && center.x <= maxX &&
+                center.y >= minY && center.y <= maxY;
+        };
+
+        const found: { object: THREE.Object3D; instanceId?: number }[] = [];
+        const box = new THREE.Box3();
+        const center = new THREE.Vector3();
+        const matrix = new THREE.Matrix4();
+        for (const object of objects) {
+            let instanced = false;
+            object.traverse(child => {
+                if (!(child instanceof THREE.InstancedMesh)) return;
+                instanced = true;
+                if (!child.geometry.boundingBox) child.geometry.computeBoundingBox();
+                const localCenter = child.geometry.boundingBox!.getCenter(new THREE.Vector3());
+                for (let i = 0; i < child.count; i++) {
+                    child.getMatrixAt(i, matrix);
+                    center.copy(localCenter).applyMatrix4(matrix).applyMatrix4(child.matrixWorld);
+                    if (inRect(center)) found.push({ object: child, instanceId: i });
+                }
+            });
+            if (!instanced && inRect(box.setFromObject(object).getCenter(center))) {
+                found.push({ object });
+            }
+        }
+        return found;
+    }
+
+    // Scene group holding every element on a layer
+    public getLayerGroup(type: LayerType): THREE.Group {
+        let group = this.layerGroups.get(type);
+        if (!group) {
+            group = new THREE.Group();
+            group.name = `layer-${type}`;
+            this.layerGroups.set(type, group);
+            this.scene.add(group);
+        }
+        return group;
+    }
+
+    /**
+     * Show, hide and fade layer groups. Call after the groups are updated - faded
+     * copies of materials from the previous pass are swapped back and disposed here.
+     */
+    public applyLayerSettings(layers: LayerState, isolated: LayerType | null): void {
+        if (this.fadedMaterials.length > 0) {
+            this.layerGroups.forEach(group => this.restoreGroup(group));
+            this.fadedMaterials.forEach(material => material.dispose());
+            this.fadedMaterials = [];
+        }
+
+        for (const type of LAYER_TYPES) {
+            const settings = layers[type];
+            const group = this.getLayerGroup(type);
+            group.visible = isolated ? isolated === type : settings.visible;
+
+            const opacity = settings.ghosted ? Math.min(settings.opacity, GHOST_OPACITY) : settings.opacity;
+            if (group.visible && opacity < 1) {
+                this.fadeGroup(group, opacity);
+            }
+        }
+    }
+
+    // Faded objects keep their own material in userData.baseMaterial
+    private fadeGroup(group: THREE.Group, opacity: number): void {
+        const fade = (material: THREE.Material): THREE.Material => {
+            const faded = material.clone();
+            faded.transparent = true;
+            faded.opacity = material.opacity * opacity;
+            faded.depthWrite = false;
+            this.fadedMaterials.push(faded);
+            return faded;
+        };
+
+        group.traverse(child => {
+            if (child instanceof THREE.Mesh || child instanceof THREE.Line) {
+                child.userData.baseMaterial = child.material;
+                child.material = Array.isArray(child.material) ? child.material.map(fade) : fade(child.material);
+            }
+        });
+    }
+
+    private restoreGroup(group: THREE.Group): void {
+        group.traverse(child => {
+            if ((child instanceof THREE.Mesh || child instanceof THREE.Line) && child.userData.baseMaterial) {
+                child.material = child.userData.baseMaterial;
+                delete child.userData.baseMaterial;
+            }
+        });
+    }
+
+    // Look at the center of a box, keeping the view direction, close enough (or zoomed in enough) to fit it
+    public focusOn(box: THREE.Box3): void {
+        if (box.isEmpty()) return;
+        const center = box.getCenter(new THREE.Vector3());
+        const size = box.getSize(new THREE.Vector3());
+        const direction = this.camera.position.clone().sub(this.controls.target).normalize();
+
+        if (this.camera instanceof THREE.OrthographicCamera) {
+            // The box's extent across and up the screen
+            const right = new THREE.Vector3().setFromMatrixColumn(this.camera.matrixWorld, 0);
+            const up = new THREE.Vector3().setFromMatrixColumn(this.camera.matrixWorld, 1);
+            const extent = (axis: THREE.Vector3) =>
+                Math.abs(size.x * axis.x) + Math.abs(size.y * axis.y) + Math.abs(size.z * axis.z);
+            const zoom = 0.9 * Math.min(
+                (this.camera.right - this.camera.left) / Math.max(extent(right), 1),
+                (this.camera.top - this.camera.bottom) / Math.max(extent(up), 1)
+            );
+            this.camera.zoom = THREE.MathUtils.clamp(zoom, this.controls.minZoom, this.controls.maxZoom);
+            this.camera.updateProjectionMatrix();
+            this.controls.target.copy(center);
+            this.camera.position.copy(center).addScaledVector(direction, ORTHO_DISTANCE);
+            this.controls.update();
+            return;
+        }
+
+        const radius = size.length() / 2;
+        const distance = THREE.MathUtils.clamp(
+            radius / Math.sin(THREE.MathUtils.degToRad(this.camera.fov) / 2),
+            this.controls.minDistance,
+            this.controls.maxDistance
+        );
+        this.controls.target.copy(center);
+        this.camera.position.copy(center).addScaledVector(direction, distance);
+        this.controls.update();
+    }
+
+    // Render the current view and capture it as a PNG data URL
+    public captureSnapshot(): string {
+        this.renderer.render(this.scene, this.camera);
+        return this.renderer.domElement.toDataURL('image/png');
+    }
+
+    // Render the current view scaled down to fit width x height, as a JPEG data URL
+    public captureThumbnail(width = 240, height = 160): string {
+        this.renderer.render(this.scene, this.camera);
+        const source = this.renderer.domElement;
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d')!;
+
+        // Crop the view to the thumbnail's aspect ratio, centered
+        const scale = Math.min(source.width / width, source.height / height);
+        const cropWidth = width * scale, cropHeight = height * scale;
+        ctx.drawImage(
+            source,
+            (source.width - cropWidth) / 2, (source.height - cropHeight) / 2, cropWidth, cropHeight,
+            0, 0, width, height
+        );
+        return canvas.toDataURL('image/jpeg', 0.8);
+    }
+
     public dispose(): void {
         this.renderer.dispose();
         this.controls.dispose();
@@ -2,7 +2,7 @@
 // All dimensions in inches
 // Reference: https://elementicf.com/products/
 
-import { ICFBlockType, ICFCoreThickness } from '../types/project';
+import { ICFBlock, ICFBlockType, ICFCoreThickness, RebarBarSize, BuckMaterial } from '../types/project';
 
 export interface ICFBlockSpec {
     type: ICFBlockType;
@@ -62,11 +62,11 @@ export const ICF_BLOCK_CATALOG: Record<ICFBlockType, ICFBlockSpec> = {
         name: '45° Corner',
         height: 16,
         length: 32,           // Approximate - 45° corners are less common
-        longLeg: 32,
+        longLeg: 32,          // Equal legs on the outside face, meeting at 135°
         shortLeg: 32,
         getWidth: getStandardWidth,
         pricePerBlock: (core) => getStandardPrice(core) * 1.3,
-        description: '45-degree angled corner block'
+        description: '45-degree angled corner block - two 32" legs meeting at 135°'
     },
     taperTop: {
         type: 'taperTop',
@@ -101,7 +101,19 @@ export const ICF_BLOCK_CATALOG: Record<ICFBlockType, ICFBlockSpec> = {
 export const ADDITIONAL_MATERIALS = {
     concretePerCubicYard: 150, // $150 per cubic yard
     rebarPerFoot: 0.75,        // $0.75 per foot
-    concretePerSqFtWall: 10,   // $9-11 average
+    concreteTruckCapacity: 10, // cubic yards per ready-mix truck
+};
+
+// Rebar sizes - #4 is priced at the base rebar rate
+export const REBAR_BAR_SIZES: Record<RebarBarSize, { diameter: number; pricePerFoot: number }> = {
+    '#4': { diameter: 0.5, pricePerFoot: ADDITIONAL_MATERIALS.rebarPerFoot },
+    '#5': { diameter: 0.625, pricePerFoot: 1.10 }
+};
+
+// Window/door bucks - frame the rough opening through the full form width
+export const BUCK_CATALOG: Record<BuckMaterial, { name: string; thickness: number; pricePerFoot: number; color: string }> = {
+    vinyl: { name: 'Vinyl Buck', thickness: 1, pricePerFoot: 4.50, color: '#f5f5f5' },
+    lumber: { name: 'Lumber Buck (2x)', thickness: 1.5, pricePerFoot: 3.25, color: '#d4a574' }
 };
 
 // Core thickness options for UI
@@ -109,6 +121,12 @@ export const CORE_THICKNESS_OPTIONS: ICFCoreThickness[] = [4, 6, 8, 10, 12];
 
 export const getCoreThicknessLabel = (core: ICFCoreThickness): string => `${core}"`;
 
+// Helper to get the installed length of a block, accounting for site cuts
+export const getBlockLength = (block: ICFBlock): number => {
+    const spec = ICF_BLOCK_CATALOG[block.type];
+    return block.cutLength && block.cutLength < spec.length ? block.cutLength : spec.length;
+};
+
 // Helper to get wall area per block
 export const getBlockWallArea = (type: ICFBlockType): number => {
     const spec = ICF_BLOCK_CATALOG[type];
@@ -0,0 +1,94 @@
+// Layer Catalog - Display layers and which elements belong to each
+
+import {
+    LayerType, LayerSettings, LayerState, ICFProject, PlumbingSystem, EquipmentType, ElementCategory
+} from '../types/project';
+
+// Display order in the layer panel
+export const LAYER_CATALOG: Record<LayerType, { name: string; color: string }> = {
+    'icf': { name: 'ICF Walls', color: '#cccccc' },
+    'framing': { name: 'Framing', color: '#d4a574' },
+    'plumbing-cold': { name: 'Cold Water', color: '#3498db' },
+    'plumbing-hot': { name: 'Hot Water', color: '#e74c3c' },
+    'plumbing-drain': { name: 'Drain', color: '#7f8c8d' },
+    'plumbing-vent': { name: 'Vent', color: '#95a5a6' },
+    'hvac': { name: 'HVAC', color: '#8e44ad' },
+    'electrical': { name: 'Electrical', color: '#f1c40f' },
+    'lowVoltage': { name: 'Low Voltage', color: '#e67e22' },
+    'equipment': { name: 'Equipment', color: '#9b59b6' },
+    'cabinets': { name: 'Cabinets', color: '#795548' },
+    'windows': { name: 'Windows & Doors', color: '#00bcd4' }
+};
+
+export const LAYER_TYPES = Object.keys(LAYER_CATALOG) as LayerType[];
+
+export const GHOST_OPACITY = 0.15;
+
+// Colours offered for new areas, in turn
+export const AREA_COLORS = ['#e57373', '#64b5f6', '#81c784', '#ffb74d', '#ba68c8', '#4db6ac', '#f06292', '#a1887f'];
+
+export const PIPE_SYSTEM_LAYERS: Record<PlumbingSystem, LayerType> = {
+    'water-cold': 'plumbing-cold',
+    'water-hot': 'plumbing-hot',
+    'drain': 'plumbing-drain',
+    'vent': 'plumbing-vent'
+};
+
+// Equipment shown on the HVAC layer rather than the general equipment layer
+const HVAC_EQUIPMENT: EquipmentType[] = ['hvac-furnace', 'hvac-condenser', 'hvac-air-handler', 'heat-pump-mini-split'];
+
+export const getEquipmentLayer = (type: EquipmentType): LayerType =>
+    HVAC_EQUIPMENT.includes(type) ? 'hvac' : 'equipment';
+
+/**
+ * Layer new elements of a category are placed on.
+ * Plumbing depends on the pipe system being drawn.
+ */
+export function getCategoryLayer(category: ElementCategory, system: PlumbingSystem = 'water-cold'): LayerType {
+    switch (category) {
+        case 'plumbing': return PIPE_SYSTEM_LAYERS[system];
+        case 'openings': return 'windows';
+        default: return category;
+    }
+}
+
+export const createDefaultLayerSettings = (): LayerSettings => ({
+    visible: true,
+    opacity: 1,
+    ghosted: false,
+    locked: false
+});
+
+/**
+ * Full layer state with defaults for any layer missing from a saved project
+ */
+export function normalizeLayers(layers?: Partial<Record<LayerType, Partial<LayerSettings>>>): LayerState {
+    const result = {} as LayerState;
+    for (const type of LAYER_TYPES) {
+        result[type] = { ...createDefaultLayerSettings(), ...layers?.[type] };
+    }
+    return result;
+}
+
+/**
+ * Layer an element belongs to, looked up by id
+ */
+export function getElementLayer(project: ICFProject, id: string): LayerType | null {
+    const { elements } = project;
+    if (elements.icfBlocks.some(b => b.id === id)) return 'icf';
+    if (elements.framing.some(f => f.id === id)) return 'framing';
+
+    const pipe = elements.plumbing.find(p => p.id === id);
+    if (pipe) return PIPE_SYSTEM_LAYERS[pipe.system];
+
+    const { wires, outlets, switches, panels } = elements.electrical;
+    if ([...wires, ...outlets, ...switches, ...panels].some(e => e.id === id)) return 'electrical';
+    if ([...elements.lowVoltage.runs, ...elements.lowVoltage.drops].some(e => e.id === id)) return 'lowVoltage';
+
+    const equipment = elements.equipment.find(e => e.id === id);
+    if (equipment) return getEquipmentLayer(equipment.type);
+
+    if (elements.cabinets.some(c => c.id === id)) return 'cabinets';
+    if ([...elements.windows, ...elements.doors].some(e => e.id === id)) return 'windows';
+    return null;
+}
@@ -1,8 +1,11 @@
 // Block Factory - Creates 3D geometries for all ICF block types
 // Based on ElementICF specifications
 import * as THREE from 'three';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
 import { ICFBlockType, ICFCoreThickness, ICFBlock } from '../types/project';
-import { ICF_BLOCK_CATALOG } from '../data/icfCatalog';
+import { ICF_BLOCK_CATALOG, getBlockLength } from '../data/icfCatalog';
+import { BlockCut } from '../utils/OpeningCalculator';
+import { getBlockOutline } from '../utils/BlockSnapping';
 
 // Material presets
 const FOAM_MATERIAL = new THREE.MeshStandardMaterial({
@@ -18,6 +21,14 @@ const GHOST_MATERIAL = new THREE.MeshStandardMaterial({
     roughness: 0.5
 });
 
+// Ghost of a block that would overlap existing blocks
+const GHOST_COLLISION_MATERIAL = new THREE.MeshStandardMaterial({
+    color: 0xd94a4a,
+    transparent: true,
+    opacity: 0.5,
+    roughness: 0.5
+});
+
 const SELECTED_MATERIAL = new THREE.MeshStandardMaterial({
     color: 0x4a90d9,
     roughness: 0.6,
@@ -26,45 +37,231 @@ const SELECTED_MATERIAL = new THREE.MeshStandardMaterial({
     emissiveIntensity: 0.3
 });
 
+// Web lines, drawn as thin strips merged into the block geometry (second material group)
+const WEB_MATERIAL = new THREE.MeshBasicMaterial({ color: 0x999999 });
+const WEB_STRIP_WIDTH = 0.3;
+
+// Instanced blocks are white and take their colour from the instance
+const INSTANCE_MATERIAL = new THREE.MeshStandardMaterial({
+    color: 0xffffff,
+    roughness: 0.9,
+    metalness: 0.0
+});
+const FOAM_COLOR = new THREE.Color(0xe8e8e8);
+const SELECTED_COLOR = new THREE.Color(0x4a90d9);
+const HIDDEN_MATRIX = new THREE.Matrix4().makeScale(0, 0, 0);
+const INITIAL_BATCH_SIZE = 64;
+
+/**
+ * All uncut blocks of one type, core and hand, drawn as one InstancedMesh.
+ * `group` stays in the scene while the mesh inside it is replaced as the batch grows.
+ */
+interface BlockBatch {
+    group: THREE.Group;
+    mesh: THREE.InstancedMesh;
+    ids: string[];                       // block id of each instance, also mesh.userData.instanceIds
+    index: Map<string, number>;
+    hidden: Map<string, THREE.Matrix4>;  // matrices of instances hidden while dragged
+}
+
 export class BlockFactory {
     private geometryCache: Map<string, THREE.BufferGeometry> = new Map();
+    private batchGeometryCache: Map<string, THREE.BufferGeometry> = new Map();
+    private colorMaterials: Map<string, THREE.MeshStandardMaterial> = new Map();
+    private batches: Map<string, BlockBatch> = new Map();
+    private batchOf: Map<string, BlockBatch> = new Map(); // block id -> batch
 
-    // Create an ICF block mesh
-    createBlock(block: ICFBlock, isGhost = false, isSelected = false): THREE.Mesh {
+    /**
+     * Create a single ICF block mesh: the ghost preview, or a block with window/door
+     * openings cut out of it (uncut blocks are drawn by addInstance).
+     * `tint` colours blocks without a colour of their own (area tinting).
+     */
+    createBlock(block: ICFBlock, isGhost = false, isSelected = false, cuts: BlockCut[] = [], tint?: string): THREE.Mesh {
         const spec = ICF_BLOCK_CATALOG[block.type];
-        const width = spec.getWidth(block.coreThickness);
-        const geometry = this.getOrCreateGeometry(block.type, block.coreThickness);
+        const isCut = cuts.length > 0;
 
         let material: THREE.Material;
+        const color = block.color || tint;
         if (isGhost) {
             material = GHOST_MATERIAL;
         } else if (isSelected) {
             material = SELECTED_MATERIAL;
-        } else if (block.color) {
-            material = new THREE.MeshStandardMaterial({
-                color: block.color,
-                roughness: 0.9,
-                metalness: 0.0
-            });
+        } else if (color) {
+            material = this.getColorMaterial(color);
         } else {
-            material = FOAM_MATERIAL.clone();
+            material = FOAM_MATERIAL;
         }
 
-        const mesh = new THREE.Mesh(geometry, material);
+        let mesh: THREE.Mesh;
+        if (isGhost) {
+            mesh = new THREE.Mesh(this.getOrCreateGeometry(block.type, block.coreThickness), material);
+        } else {
+            const geometry = isCut
+                ? this.withWebs(this.createCutGeometry(block, cuts), this.createWebGeometry(block.type, block.coreThickness, cuts))
+                : this.getBatchGeometry(block.type, block.coreThickness, false);
+            mesh = new THREE.Mesh(geometry, [material, WEB_MATERIAL]);
+        }
         mesh.position.set(block.position.x, block.position.y + spec.height / 2, block.position.z);
         mesh.rotation.y = THREE.MathUtils.degToRad(block.rotation);
+        // Cut blocks share the full-length geometry, shortened along their length
+        // (opening geometry is already built at the installed length)
+        mesh.scale.x = isCut ? 1 : getBlockLength(block) / spec.length;
+        // A flipped-over corner is the mirror image of the same geometry
+        if (block.type === 'corner90' && block.mirrored) mesh.scale.x = -1;
         mesh.castShadow = true;
         mesh.receiveShadow = true;
-        mesh.userData = { type: 'icfBlock', blockId: block.id, blockData: block };
+        mesh.userData = { type: 'icfBlock', blockId: block.id, blockData: block, hasOpening: isCut };
+
+        return mesh;
+    }
+
+    /**
+     * Draw an uncut block as an instance in the batch for its type and core,
+     * coloured by selection, its own colour, then `tint`. Returns the batch's group,
+     * which `parent` holds for as long as the batch has instances.
+     */
+    addInstance(block: ICFBlock, parent: THREE.Object3D, isSelected = false, tint?: string): THREE.Group {
+        const mirrored = block.type === 'corner90' && !!block.mirrored;
+        const key = `${block.type}-${block.coreThickness}${mirrored ? '-mirrored' : ''}`;
+        let batch = this.batches.get(key);
+        if (!batch) {
+            batch = this.createBatch(this.getBatchGeometry(block.type, block.coreThickness, mirrored));
+            batch.group.userData = { type: 'icfBlock', instanced: true };
+            this.batches.set(key, batch);
+        }
+        if (batch.group.parent !== parent) parent.add(batch.group);
+        if (batch.mesh.count === batch.mesh.instanceMatrix.count) this.growBatch(batch);
+
+        const index = batch.mesh.count++;
+        batch.ids[index] = block.id;
+        batch.index.set(block.id, index);
+        this.batchOf.set(block.id, batch);
+
+        const color = isSelected ? SELECTED_COLOR : (block.color || tint) ? new THREE.Color(block.color || tint) : FOAM_COLOR;
+        batch.mesh.setMatrixAt(index, this.getInstanceMatrix(block));
+        batch.mesh.setColorAt(index, color);
+        this.markBatchChanged(batch);
+        return batch.group;
+    }
+
+    // Remove a block's instance; the last instance moves into its slot
+    removeInstance(id: string): boolean {
+        const batch = this.batchOf.get(id);
+        if (!batch) return false;
+
+        const index = batch.index.get(id)!;
+        const last = batch.mesh.count - 1;
+        if (index !== last) {
+            const matrix = new THREE.Matrix4();
+            const color = new THREE.Color();
+            batch.mesh.getMatrixAt(last, matrix);
+            batch.mesh.getColorAt(last, color);
+            batch.mesh.setMatrixAt(index, matrix);
+            batch.mesh.setColorAt(index, color);
+            batch.ids[index] = batch.ids[last];
+            batch.index.set(batch.ids[index], index);
+        }
+        batch.ids.length = last;
+        batch.mesh.count = last;
+        batch.index.delete(id);
+        batch.hidden.delete(id);
+        this.batchOf.delete(id);
+
+        if (last === 0) batch.group.removeFromParent();
+        this.markBatchChanged(batch);
+        return true;
+    }
+
+    // Remove every instance (the batches are kept for reuse)
+    clearInstances(): void {
+        this.batches.forEach(batch => {
+            batch.group.removeFromParent();
+            batch.mesh.count = 0;
+            batch.ids.length = 0;
+            batch.index.clear();
+            batch.hidden.clear();
+            this.markBatchChanged(batch);
+        });
+        this.batchOf.clear();
+    }
+
+    isInstanced(id: string): boolean {
+        return this.batchOf.has(id);
+    }
+
+    // Hide one instance (e.g. while its block is dragged) without touching the rest of the batch
+    setInstanceVisible(id: string, visible: boolean): void {
+        const batch = this.batchOf.get(id);
+        if (!batch || visible === !batch.hidden.has(id)) return;
 
-        // Add web lines for visual detail (except for ghost)
-        if (!isGhost) {
-            this.addWebIndicators(mesh, block.type, block.coreThickness);
+        const index = batch.index.get(id)!;
+        if (visible) {
+            batch.mesh.setMatrixAt(index, batch.hidden.get(id)!);
+            batch.hidden.delete(id);
+        } else {
+            const matrix = new THREE.Matrix4();
+            batch.mesh.getMatrixAt(index, matrix);
+            batch.hidden.set(id, matrix);
+            batch.mesh.setMatrixAt(index, HIDDEN_MATRIX);
         }
+        this.markBatchChanged(batch);
+    }
+
+    private createBatch(geometry: THREE.BufferGeometry, size = INITIAL_BATCH_SIZE): BlockBatch {
+        const ids: string[] = [];
+        const batch: BlockBatch = {
+            group: new THREE.Group(),
+            mesh: this.createBatchMesh(geometry, size, ids),
+            ids,
+            index: new Map(),
+            hidden: new Map()
+        };
+        batch.mesh.count = 0;
+        batch.group.add(batch.mesh);
+        return batch;
+    }
 
+    private createBatchMesh(geometry: THREE.BufferGeometry, size: number, ids: string[]): THREE.InstancedMesh {
+        const mesh = new THREE.InstancedMesh(geometry, [INSTANCE_MATERIAL, WEB_MATERIAL], size);
+        mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+        mesh.setColorAt(0, FOAM_COLOR); // allocates instanceColor
+        mesh.castShadow = true;
+        mesh.receiveShadow = true;
+        mesh.userData = { type: 'icfBlock', instanceIds: ids };
         return mesh;
     }
 
+    // Move a full batch into a mesh twice the size
+    private growBatch(batch: BlockBatch): void {
+        const old = batch.mesh;
+        const mesh = this.createBatchMesh(old.geometry, old.instanceMatrix.count * 2, batch.ids);
+        mesh.instanceMatrix.array.set(old.instanceMatrix.array);
+        mesh.instanceColor!.array.set(old.instanceColor!.array);
+        mesh.count = old.count;
+
+        old.removeFromParent();
+        old.dispose();
+        batch.group.add(mesh);
+        batch.mesh = mesh;
+    }
+
+    private markBatchChanged(batch: BlockBatch): void {
+        batch.mesh.instanceMatrix.needsUpdate = true;
+        if (batch.mesh.instanceColor) batch.mesh.instanceColor.needsUpdate = true;
+        // Bounds are recomputed on demand for culling and raycasting
+        batch.mesh.boundingSphere = null;
+        batch.mesh.boundingBox = null;
+    }
+
+    private getInstanceMatrix(block: ICFBlock): THREE.Matrix4 {
+        const spec = ICF_BLOCK_CATALOG[block.type];
+        return new THREE.Matrix4().compose(
+            new THREE.Vector3(block.position.x, block.position.y + spec.height / 2, block.position.z),
+            new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 1, 0), THREE.MathUtils.degToRad(block.rotation)),
+            new THREE.Vector3(getBlockLength(block) / spec.length, 1, 1)
+        );
+    }
+
     private getOrCreateGeometry(type: ICFBlockType, core: ICFCoreThickness): THREE.BufferGeometry {
         const key = `${type}-${core}`;
 
@@ -81,7 +278,7 @@ export class BlockFactory {
                 geometry = this.createCorner90Geometry(spec.height, spec.longLeg!, spec.shortLeg!, width);
                 break;
             case 'corner45':
-                geometry = this.createCorner45Geometry(spec.height, spec.longLeg!, width);
+                geometry = this.createCorner45Geometry(spec.height, core);
                 break;
             case 'taperTop':
                 geometry = this.createTaperTopGeometry(spec.height, spec.length, width);
@@ -98,6 +295,53 @@ export class BlockFactory {
         return geometry;
     }
 
+    /**
+     * Straight block with openings removed: the block is split at every cut edge
+     * and each slice keeps the heights no cut covers. Not cached - unique per block.
+     */
+    private createCutGeometry(block: ICFBlock, cuts: BlockCut[]): THREE.BufferGeometry {
+        const spec = ICF_BLOCK_CATALOG[block.type];
+        const width = spec.getWidth(block.coreThickness);
+        const half = getBlockLength(block) / 2;
+
+        const edges = new Set<number>([-half, half]);
+        cuts.forEach(cut => {
+            edges.add(Math.max(-half, cut.from));
+            edges.add(Math.min(half, cut.to));
+        });
+        const xs = Array.from(edges).sort((a, b) => a - b);
+
+        const pieces: THREE.BufferGeometry[] = [];
+        for (let i = 1; i < xs.length; i++) {
+            const x0 = xs[i - 1], x1 = xs[i];
+            if (x1 - x0 < 0.01) continue;
+
+            // Vertical spans left solid in this slice
+            const mid = (x0 + x1) / 2;
+            const covering = cuts
+                .filter(cut => cut.from <= mid && cut.to >= mid)
+                .sort((a, b) => a.bottom - b.bottom);
+            let y = 0;
+            const spans: [number, number][] = [];
+            for (const cut of covering) {
+                if (cut.bottom > y) spans.push([y, cut.bottom]);
+                y = Math.max(y, cut.top);
+            }
+            if (y < spec.height) spans.push([y, spec.height]);
+
+            for (const [y0, y1] of spans) {
+                if (y1 - y0 < 0.01) continue;
+                const piece = new THREE.BoxGeometry(x1 - x0, y1 - y0, width);
+                piece.translate(mid, (y0 + y1) / 2 - spec.height / 2, 0);
+                pieces.push(piece);
+            }
+        }
+
+        const geometry = pieces.length > 0 ? mergeGeometries(pieces) : new THREE.BufferGeometry();
+        pieces.forEach(piece => piece.dispose());
+        return geometry;
+    }
+
     /**
      * Creates accurate 90° corner block geometry
      * Based on ElementICF specs: Long leg 38.5", Short leg 22.5"
@@ -156,34 +400,17 @@ export class BlockFactory {
     }
 
     /**
-     * Creates 45° corner block geometry
+     * Creates 45° corner block geometry - two equal legs meeting at 135°,
+     * with the origin at the centerline vertex (outline shared with snapping)
      */
-    private createCorner45Geometry(
-        height: number,
-        legLength: number,
-        width: number
-    ): THREE.BufferGeometry {
-        // Simple L-shape for 45 corner for now
-        const shape = new THREE.Shape();
-        shape.moveTo(0, 0);
-        shape.lineTo(legLength, 0);
-        shape.lineTo(legLength, width);
-        shape.lineTo(width, width);
-        shape.lineTo(width, legLength);
-        shape.lineTo(0, legLength);
-        shape.closePath();
-
-        const extrudeSettings = {
-            depth: height,
-            bevelEnabled: false
-        };
+    private createCorner45Geometry(height: number, core: ICFCoreThickness): THREE.BufferGeometry {
+        const { points } = getBlockOutline('corner45', core);
 
-        const geometry = new THREE.ExtrudeGeometry(shape, extrudeSettings);
+        // Shape Y becomes -Z once the extrusion is stood upright
+        const shape = new THREE.Shape(points.map(p => new THREE.Vector2(p.x, -p.z)));
+        const geometry = new THREE.ExtrudeGeometry(shape, { depth: height, bevelEnabled: false });
         geometry.rotateX(-Math.PI / 2);
-
-        // Center vertically (Y) and horizontally (X, Z)
-        // Z translation fixed to +legLength/2 to correct coordinate rotation offset
-        geometry.translate(-legLength / 2, -height / 2, legLength / 2);
+        geometry.translate(0, -height / 2, 0);
 
         return geometry;
     }
@@ -245,48 +472,79 @@ export class BlockFactory {
         return geometry;
     }
 
+    private getColorMaterial(color: string): THREE.MeshStandardMaterial {
+        let material = this.colorMaterials.get(color);
+        if (!material) {
+            material = new THREE.MeshStandardMaterial({ color, roughness: 0.9, metalness: 0.0 });
+            this.colorMaterials.set(color, material);
+        }
+        return material;
+    }
+
     /**
-     * Add web indicator lines to show polypropylene web positions
-     * Webs are spaced 8" horizontally in ElementICF blocks
+     * Block geometry with its web strips, shared by every uncut block of a type and core.
+     * A flipped-over corner90 gets its own mirrored copy, since instances can't mirror.
      */
-    private addWebIndicators(mesh: THREE.Mesh, type: ICFBlockType, core: ICFCoreThickness): void {
+    private getBatchGeometry(type: ICFBlockType, core: ICFCoreThickness, mirrored: boolean): THREE.BufferGeometry {
+        const key = `${type}-${core}${mirrored ? '-mirrored' : ''}`;
+        let geometry = this.batchGeometryCache.get(key);
+        if (!geometry) {
+            const base = this.getOrCreateGeometry(type, core).clone();
+            geometry = this.withWebs(mirrored ? mirrorGeometry(base) : base, this.createWebGeometry(type, core, []));
+            this.batchGeometryCache.set(key, geometry);
+        }
+        return geometry;
+    }
+
+    // Block geometry as material group 0 and web strips as group 1 (consumes both)
+    private withWebs(block: THREE.BufferGeometry, webs: THREE.BufferGeometry | null): THREE.BufferGeometry {
+        if (!webs) {
+            block.clearGroups();
+            block.addGroup(0, Infinity, 0);
+            return block;
+        }
+        // Merging needs both indexed or both not
+        const indexed = !!block.index && !!webs.index;
+        const parts = [block, webs].map(part => !indexed && part.index ? part.toNonIndexed() : part);
+        parts.forEach(part => part.clearGroups());
+        const merged = mergeGeometries(parts, true);
+        new Set([block, webs, ...parts]).forEach(part => part.dispose());
+        return merged;
+    }
+
+    /**
+     * Web strips showing the polypropylene web positions on both faces.
+     * Webs are spaced 8" horizontally in ElementICF blocks.
+     */
+    private createWebGeometry(type: ICFBlockType, core: ICFCoreThickness, cuts: BlockCut[]): THREE.BufferGeometry | null {
+        // Corner blocks would need different web patterns - omitting for simplicity
+        if (type !== 'standard' && type !== 'heightAdjuster' && type !== 'taperTop') return null;
+
         const spec = ICF_BLOCK_CATALOG[type];
         const width = spec.getWidth(core);
         const height = spec.height;
-        const lineMaterial = new THREE.LineBasicMaterial({ color: 0x999999, linewidth: 1 });
-
-        if (type === 'standard' || type === 'heightAdjuster' || type === 'taperTop') {
-            const length = spec.length;
-            const webSpacing = 8;
-            const numWebs = Math.floor(length / webSpacing) + 1;
-
-            for (let i = 0; i < numWebs; i++) {
-                const x = -length / 2 + i * webSpacing;
-
-                // Front face web lines
-                const pointsFront = [
-                    new THREE.Vector3(x, -height / 2, width / 2 + 0.1),
-                    new THREE.Vector3(x, height / 2, width / 2 + 0.1)
-                ];
-                const lineFront = new THREE.Line(
-                    new THREE.BufferGeometry().setFromPoints(pointsFront),
-                    lineMaterial
-                );
-                mesh.add(lineFront);
-
-                // Back face web lines
-                const pointsBack = [
-                    new THREE.Vector3(x, -height / 2, -width / 2 - 0.1),
-                    new THREE.Vector3(x, height / 2, -width / 2 - 0.1)
-                ];
-                const lineBack = new THREE.Line(
-                    new THREE.BufferGeometry().setFromPoints(pointsBack),
-                    lineMaterial
-                );
-                mesh.add(lineBack);
-            }
+        const length = spec.length;
+        const webSpacing = 8;
+        const numWebs = Math.floor(length / webSpacing) + 1;
+
+        const strips: THREE.BufferGeometry[] = [];
+        for (let i = 0; i < numWebs; i++) {
+            const x = -length / 2 + i * webSpacing;
+            // Webs are cut away with the opening
+            if (cuts.some(cut => x > cut.from && x < cut.to)) continue;
+
+            const front = new THREE.PlaneGeometry(WEB_STRIP_WIDTH, height);
+            front.translate(x, 0, width / 2 + 0.1);
+            const back = new THREE.PlaneGeometry(WEB_STRIP_WIDTH, height);
+            back.rotateY(Math.PI);
+            back.translate(x, 0, -width / 2 - 0.1);
+            strips.push(front, back);
         }
-        // Corner blocks would need different web patterns - omitting for simplicity
+        if (strips.length === 0) return null;
+
+        const geometry = mergeGeometries(strips);
+        strips.forEach(strip => strip.dispose());
+        return geometry;
     }
 
     // Create ghost preview block at position
@@ -294,22 +552,69 @@ export class BlockFactory {
         type: ICFBlockType,
         core: ICFCoreThickness,
         position: THREE.Vector3,
-        rotation: number
+        rotation: number,
+        mirrored = false
     ): THREE.Mesh {
         const tempBlock: ICFBlock = {
             id: 'ghost',
             type,
             coreThickness: core,
             position: { x: position.x, y: position.y, z: position.z },
-            rotation
+            rotation,
+            mirrored
         };
         return this.createBlock(tempBlock, true);
     }
 
+    // Tint a ghost red while it overlaps other blocks
+    setGhostColliding(ghost: THREE.Mesh, colliding: boolean): void {
+        ghost.material = colliding ? GHOST_COLLISION_MATERIAL : GHOST_MATERIAL;
+    }
+
+    // Free the unique geometry of a block with openings being removed from the scene
+    release(mesh: THREE.Object3D): void {
+        if (mesh instanceof THREE.Mesh && mesh.userData.hasOpening) {
+            mesh.geometry.dispose();
+        }
+    }
+
     dispose(): void {
+        this.clearInstances();
+        this.batches.forEach(batch => batch.mesh.dispose());
+        this.batches.clear();
         this.geometryCache.forEach(geometry => geometry.dispose());
         this.geometryCache.clear();
+        this.batchGeometryCache.forEach(geometry => geometry.dispose());
+        this.batchGeometryCache.clear();
+        this.colorMaterials.forEach(material => material.dispose());
+        this.colorMaterials.clear();
+    }
+}
+
+/**
+ * Mirror image of a geometry across its local X = 0 plane, with the triangle
+ * winding reversed so faces still point outwards (consumes the input)
+ */
+function mirrorGeometry(geometry: THREE.BufferGeometry): THREE.BufferGeometry {
+    const mirrored = geometry.index ? geometry.toNonIndexed() : geometry;
+    if (mirrored !== geometry) geometry.dispose();
+    mirrored.scale(-1, 1, 1);
+
+    for (const attribute of Object.values(mirrored.attributes)) {
+        const size = attribute.itemSize;
+        const array = attribute.array;
+        for (let i = 0; i < attribute.count; i += 3) {
+            // Swap the 2nd and 3rd vertex of each triangle
+            for (let k = 0; k < size; k++) {
+                const a = (i + 1) * size + k, b = (i + 2) * size + k;
+                const t = array[a];
+                array[a] = array[b];
+                array[b] = t;
+            }
+        }
+        attribute.needsUpdate = true;
     }
+    return mirrored;
 }
 
 // Singleton instance
@@ -0,0 +1,290 @@
+// Element Renderer - Creates 3D meshes for all non-ICF elements
+import * as THREE from 'three';
+import {
+    Vector3, FramingWall, Pipe, WireRun, LowVoltageRun, Outlet, Switch,
+    ElectricalPanel, NetworkDrop, Equipment, Cabinet, Window, Door, BuckMaterial
+} from '../types/project';
+import { BUCK_CATALOG } from '../data/icfCatalog';
+import {
+    FRAMING_CATALOG, PLUMBING_CATALOG, ELECTRICAL_CATALOG, LOW_VOLTAGE_CATALOG,
+    CABINET_CATALOG, EQUIPMENT_CATALOG, WINDOW_CATALOG, DOOR_CATALOG
+} from '../data/materialsCatalog';
+
+export type ElementKind =
+    | 'framing' | 'pipe' | 'wire' | 'lowVoltage' | 'outlet' | 'switch'
+    | 'panel' | 'drop' | 'equipment' | 'cabinet' | 'window' | 'door';
+
+// Default colours for elements whose catalog has none
+const FRAMING_COLOR = '#d4a574';
+const CABINET_COLOR = '#795548';
+const DOOR_COLOR = '#a1887f';
+const FRAME_COLOR = '#eceff1';
+const DEVICE_COLOR = '#f5f5f5';
+const HOT_WATER_COLOR = '#e74c3c';
+
+const SELECTED_EMISSIVE = 0x1a4a7a;
+
+const GLASS_MATERIAL = new THREE.MeshStandardMaterial({
+    color: 0x00bcd4,
+    transparent: true,
+    opacity: 0.35,
+    roughness: 0.1,
+    metalness: 0.2
+});
+
+const OPENING_GHOST_MATERIAL = new THREE.MeshStandardMaterial({
+    color: 0x4a90d9,
+    transparent: true,
+    opacity: 0.4,
+    roughness: 0.5
+});
+
+export class ElementRenderer {
+    private geometryCache: Map<string, THREE.BufferGeometry> = new Map();
+    private materialCache: Map<string, THREE.MeshStandardMaterial> = new Map();
+
+    // Framing wall: a solid stud wall between start and end
+    // `tint` is the colour of the wall's area
+    createFramingWall(wall: FramingWall, isSelected = false, tint?: string): THREE.Mesh {
+        const spec = FRAMING_CATALOG[wall.type];
+        const dx = wall.end.x - wall.start.x;
+        const dz = wall.end.z - wall.start.z;
+        const length = Math.sqrt(dx * dx + dz * dz);
+
+        const mesh = new THREE.Mesh(
+            this.getBox(length, wall.height, spec.depth),
+            this.getMaterial(tint || FRAMING_COLOR, isSelected)
+        );
+        mesh.position.set(
+            (wall.start.x + wall.end.x) / 2,
+            wall.start.y + wall.height / 2,
+            (wall.start.z + wall.end.z) / 2
+        );
+        mesh.rotation.y = -Math.atan2(dz, dx);
+        return this.finish(mesh, 'framing', wall.id);
+    }
+
+    // Pipes, wires and cable runs: tubes following the path
+    createPipe(pipe: Pipe, isSelected = false): THREE.Object3D {
+        const spec = PLUMBING_CATALOG[pipe.type];
+        const color = pipe.color || (pipe.system === 'water-hot' ? HOT_WATER_COLOR : spec.color);
+        return this.finish(
+            this.createTube(pipe.path, Math.max(spec.diameter / 2, 0.5), color, isSelected),
+            'pipe',
+            pipe.id
+        );
+    }
+
+    createWireRun(wire: WireRun, isSelected = false): THREE.Object3D {
+        const spec = ELECTRICAL_CATALOG[wire.type];
+        return this.finish(this.createTube(wire.path, 0.35, spec.color, isSelected), 'wire', wire.id);
+    }
+
+    createLowVoltageRun(run: LowVoltageRun, isSelected = false): THREE.Object3D {
+        const spec = LOW_VOLTAGE_CATALOG[run.type];
+        return this.finish(this.createTube(run.path, 0.25, spec.color, isSelected), 'lowVoltage', run.id);
+    }
+
+    // Electrical and network devices: small boxes on the wall face
+    createOutlet(outlet: Outlet, isSelected = false): THREE.Mesh {
+        return this.createPlacedBox(outlet, 2.75, 4.5, 1, DEVICE_COLOR, isSelected, 'outlet');
+    }
+
+    createSwitch(sw: Switch, isSelected = false): THREE.Mesh {
+        return this.createPlacedBox(sw, 2.75, 4.5, 1, DEVICE_COLOR, isSelected, 'switch');
+    }
+
+    createPanel(panel: ElectricalPanel, isSelected = false): THREE.Mesh {
+        const spec = EQUIPMENT_CATALOG['electrical-panel'];
+        return this.createPlacedBox(panel, spec.width, spec.height, spec.depth, spec.color, isSelected, 'panel');
+    }
+
+    createNetworkDrop(drop: NetworkDrop, isSelected = false): THREE.Mesh {
+        const color = LOW_VOLTAGE_CATALOG[drop.type === 'coax' ? 'coax' : 'cat6'].color;
+        return this.createPlacedBox(drop, 2.75, 4.5, 1, color, isSelected, 'drop');
+    }
+
+    // Equipment uses its own dimensions, falling back to the catalog size
+    createEquipment(equipment: Equipment, isSelected = false): THREE.Mesh {
+        const spec = EQUIPMENT_CATALOG[equipment.type];
+        const size = equipment.dimensions || { x: spec.width, y: spec.height, z: spec.depth };
+        return this.createPlacedBox(equipment, size.x, size.y, size.z, spec.color, isSelected, 'equipment');
+    }
+
+    createCabinet(cabinet: Cabinet, isSelected = false): THREE.Mesh {
+        const spec = CABINET_CATALOG[cabinet.type];
+        return this.createPlacedBox(
+            cabinet, spec.width, spec.height, spec.depth,
+            cabinet.color || CABINET_COLOR, isSelected, 'cabinet'
+        );
+    }
+
+    // Window: frame with a glass pane, bottom at the sill (position.y).
+    // Pass the wall width to draw the buck through an ICF wall.
+    createWindow(win: Window, isSelected = false, wallWidth?: number): THREE.Object3D {
+        const spec = WINDOW_CATALOG[win.type];
+        const frameDepth = 4;
+        const frame = 2;
+
+        const group = new THREE.Group();
+        const frameMaterial = this.getMaterial(FRAME_COLOR, isSelected);
+        const w = spec.width, h = spec.height;
+
+        // Head, sill and jambs
+        const parts: [number, number, number, number][] = [
+            [w, frame, 0, h / 2 - frame / 2],
+            [w, frame, 0, -h / 2 + frame / 2],
+            [frame, h - frame * 2, -w / 2 + frame / 2, 0],
+            [frame, h - frame * 2, w / 2 - frame / 2, 0]
+        ];
+        for (const [pw, ph, px, py] of parts) {
+            const part = new THREE.Mesh(this.getBox(pw, ph, frameDepth), frameMaterial);
+            part.position.set(px, py, 0);
+            group.add(part);
+        }
+
+        const glass = new THREE.Mesh(this.getBox(w - frame * 2, h - frame * 2, 0.5), GLASS_MATERIAL);
+        group.add(glass);
+
+        if (win.buckMaterial && wallWidth) {
+            this.addBuck(group, w, h, wallWidth, win.buckMaterial, true, isSelected);
+        }
+
+        group.position.set(win.position.x, win.position.y + h / 2, win.position.z);
+        group.rotation.y = THREE.MathUtils.degToRad(win.rotation);
+        return this.finish(group, 'window', win.id);
+    }
+
+    createDoor(door: Door, isSelected = false, wallWidth?: number): THREE.Object3D {
+        const spec = DOOR_CATALOG[door.type];
+        const slab = this.createPlacedBox(door, spec.width, spec.height, 1.75, DOOR_COLOR, isSelected, 'door');
+        if (!door.buckMaterial || !wallWidth) return slab;
+
+        // Wrap the slab so the buck moves with it
+        const group = new THREE.Group();
+        group.position.copy(slab.position);
+        group.rotation.copy(slab.rotation);
+        slab.position.set(0, 0, 0);
+        slab.rotation.set(0, 0, 0);
+        group.add(slab);
+        this.addBuck(group, spec.width, spec.height, wallWidth, door.buckMaterial, false, isSelected);
+        return this.finish(group, 'door', door.id);
+    }
+
+    // Buck around a unit centered on the group origin, through the full wall width
+    private addBuck(
+        group: THREE.Group,
+        width: number,
+        height: number,
+        wallWidth: number,
+        buck: BuckMaterial,
+        withSill: boolean,
+        isSelected: boolean
+    ): void {
+        const spec = BUCK_CATALOG[buck];
+        const t = spec.thickness;
+        const material = this.getMaterial(spec.color, isSelected);
+        const jambBottom = withSill ? -height / 2 - t : -height / 2;
+        const jambHeight = height / 2 + t - jambBottom;
+
+        const parts: [number, number, number, number][] = [
+            [width + t * 2, t, 0, height / 2 + t / 2],
+            [t, jambHeight, -width / 2 - t / 2, jambBottom + jambHeight / 2],
+            [t, jambHeight, width / 2 + t / 2, jambBottom + jambHeight / 2]
+        ];
+        if (withSill) parts.push([width + t * 2, t, 0, -height / 2 - t / 2]);
+
+        for (const [pw, ph, px, py] of parts) {
+            const part = new THREE.Mesh(this.getBox(pw, ph, wallWidth), material);
+            part.position.set(px, py, 0);
+            group.add(part);
+        }
+    }
+
+    // Translucent rough-opening preview while placing a window or door
+    createOpeningGhost(width: number, height: number, depth: number): THREE.Mesh {
+        const mesh = new THREE.Mesh(this.getBox(width, height, depth + 1), OPENING_GHOST_MATERIAL);
+        mesh.userData = { type: 'ghost' };
+        return mesh;
+    }
+
+    // Box sitting on its position (position.y is the bottom), rotated about Y
+    private createPlacedBox(
+        element: { id: string; position: Vector3; rotation: number },
+        width: number,
+        height: number,
+        depth: number,
+        color: string,
+        isSelected: boolean,
+        kind: ElementKind
+    ): THREE.Mesh {
+        const mesh = new THREE.Mesh(this.getBox(width, height, depth), this.getMaterial(color, isSelected));
+        mesh.position.set(element.position.x, element.position.y + height / 2, element.position.z);
+        mesh.rotation.y = THREE.MathUtils.degToRad(element.rotation);
+        return this.finish(mesh, kind, element.id);
+    }
+
+    private createTube(path: Vector3[], radius: number, color: string, isSelected: boolean): THREE.Mesh {
+        const curve = new THREE.CurvePath<THREE.Vector3>();
+        for (let i = 1; i < path.length; i++) {
+            const a = path[i - 1], b = path[i];
+            curve.add(new THREE.LineCurve3(new THREE.Vector3(a.x, a.y, a.z), new THREE.Vector3(b.x, b.y, b.z)));
+        }
+
+        // Not cached - every run has its own path
+        const segments = Math.max(1, path.length - 1) * 4;
+        const geometry = new THREE.TubeGeometry(curve, segments, radius, 8, false);
+        return new THREE.Mesh(geometry, this.getMaterial(color, isSelected));
+    }
+
+    private finish<T extends THREE.Object3D>(object: T, kind: ElementKind, id: string): T {
+        object.traverse(child => {
+            child.castShadow = true;
+            child.receiveShadow = true;
+        });
+        object.userData = { type: kind, elementId: id };
+        return object;
+    }
+
+    private getBox(width: number, height: number, depth: number): THREE.BufferGeometry {
+        const key = `${width}x${height}x${depth}`;
+        if (!this.geometryCache.has(key)) {
+            this.geometryCache.set(key, new THREE.BoxGeometry(width, height, depth));
+        }
+        return this.geometryCache.get(key)!;
+    }
+
+    private getMaterial(color: string, isSelected: boolean): THREE.MeshStandardMaterial {
+        const key = `${color}-${isSelected}`;
+        if (!this.materialCache.has(key)) {
+            this.materialCache.set(key, new THREE.MeshStandardMaterial({
+                color,
+                roughness: 0.7,
+                metalness: 0.05,
+                emissive: isSelected ? SELECTED_EMISSIVE : 0x000000,
+                emissiveIntensity: isSelected ? 0.5 : 0
+            }));
+        }
+        return this.materialCache.get(key)!;
+    }
+
+    // Free per-element geometry (tubes) of a mesh being removed from the scene
+    release(object: THREE.Object3D): void {
+        const cached = new Set(this.geometryCache.values());
+        object.traverse(child => {
+            if (child instanceof THREE.Mesh && !cached.has(child.geometry)) {
+                child.geometry.dispose();
+            }
+        });
+    }
+
+    dispose(): void {
+        this.geometryCache.forEach(geometry => geometry.dispose());
+        this.geometryCache.clear();
+        this.materialCache.forEach(material => material.dispose());
+        this.materialCache.clear();
+    }
+}
+
+// Singleton instance
+export const elementRenderer = new ElementRenderer();
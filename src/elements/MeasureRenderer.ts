@@ -0,0 +1,166 @@
+// Measure Renderer - Dimension lines and labels for measurements, pinned annotations and detected rooms
+import * as THREE from 'three';
+import { MeasurementKind, Vector3 } from '../types/project';
+import { MeasureUnit, formatLength, formatArea, getPathLength, getPolygonArea } from '../utils/MeasureUtils';
+import { Room, getPolygonCentroid } from '../utils/RoomDetector';
+
+const ACTIVE_COLOR = '#ffd54f';
+const PINNED_COLOR = '#4fc3f7';
+const ROOM_COLOR = '#81c784';
+const LABEL_SCALE = 0.045; // fraction of viewport height (labels ignore distance)
+
+export class MeasureRenderer {
+    /**
+     * Build a measurement: a line through the points, an end mark at each point,
+     * a label per segment and a total (chain) or area label.
+     */
+    createMeasurement(
+        kind: MeasurementKind,
+        points: Vector3[],
+        unit: MeasureUnit,
+        pinned = false,
+        label?: string
+    ): THREE.Group {
+        const group = new THREE.Group();
+        group.renderOrder = 10;
+        if (points.length === 0) return group;
+
+        const color = pinned ? PINNED_COLOR : ACTIVE_COLOR;
+        const vectors = points.map(p => new THREE.Vector3(p.x, p.y, p.z));
+        const closed = kind === 'area' && vectors.length > 2;
+
+        // Dimension line, drawn over the model
+        const linePoints = closed ? [...vectors, vectors[0]] : vectors;
+        const line = new THREE.Line(
+            new THREE.BufferGeometry().setFromPoints(linePoints),
+            new THREE.LineBasicMaterial({ color, depthTest: false, transparent: true })
+        );
+        line.renderOrder = 10;
+        group.add(line);
+
+        const markMaterial = new THREE.MeshBasicMaterial({ color, depthTest: false, transparent: true });
+        const markGeometry = new THREE.SphereGeometry(0.75, 8, 6);
+        for (const v of vectors) {
+            const mark = new THREE.Mesh(markGeometry, markMaterial);
+            mark.position.copy(v);
+            mark.renderOrder = 10;
+            group.add(mark);
+        }
+
+        // Segment lengths at each midpoint
+        const segmentCount = closed ? vectors.length : vectors.length - 1;
+        for (let i = 0; i < segmentCount; i++) {
+            const a = vectors[i], b = vectors[(i + 1) % vectors.length];
+            const length = a.distanceTo(b);
+            if (length < 0.01) continue;
+            group.add(this.createLabel(formatLength(length, unit), a.clone().add(b).multiplyScalar(0.5), color));
+        }
+
+        // Summary label
+        let summary: string | null = null;
+        if (kind === 'chain' && vectors.length > 2) {
+            summary = `Total ${formatLength(getPathLength(points), unit)}`;
+        } else if (closed) {
+            summary = formatArea(getPolygonArea(points), unit);
+        }
+        if (label) summary = summary ? `${label}: ${summary}` : label;
+
+        if (summary) {
+            const anchor = closed
+                ? vectors.reduce((sum, v) => sum.add(v), new THREE.Vector3()).divideScalar(vectors.length)
+                : vectors[vectors.length - 1].clone();
+            const summaryLabel = this.createLabel(summary, anchor, color, true);
+            group.add(summaryLabel);
+        }
+
+        return group;
+    }
+
+    /**
+     * Build a detected room's floor overlay: a tint over the floor inside the
+     * walls, its outline and a name and area label at its centre
+     */
+    createRoom(room: Room, unit: MeasureUnit): THREE.Group {
+        const group = new THREE.Group();
+        group.name = room.id;
+
+        // Shapes are drawn in XY; laid flat, shape y becomes -z
+        const shape = new THREE.Shape(room.interior.map(p => new THREE.Vector2(p.x, -p.z)));
+        const floor = new THREE.Mesh(
+            new THREE.ShapeGeometry(shape),
+            new THREE.MeshBasicMaterial({
+                color: ROOM_COLOR,
+                transparent: true,
+                opacity: 0.2,
+                depthWrite: false,
+                side: THREE.DoubleSide
+            })
+        );
+        floor.rotation.x = -Math.PI / 2;
+        floor.position.y = room.floor + 0.1;
+        group.add(floor);
+
+        const outlinePoints = [...room.interior, room.interior[0]]
+            .map(p => new THREE.Vector3(p.x, room.floor + 0.1, p.z));
+        group.add(new THREE.Line(
+            new THREE.BufferGeometry().setFromPoints(outlinePoints),
+            new THREE.LineBasicMaterial({ color: ROOM_COLOR })
+        ));
+
+        const center = getPolygonCentroid(room.interior);
+        group.add(this.createLabel(
+            `${room.name}: ${formatArea(room.interiorArea, unit)}`,
+            new THREE.Vector3(center.x, room.floor + 1, center.z),
+            ROOM_COLOR,
+            true
+        ));
+        return group;
+    }
+
+    // Screen-sized text sprite
+    private createLabel(text: string, position: THREE.Vector3, color: string, bold = false): THREE.Sprite {
+        const canvas = document.createElement('canvas');
+        const ctx = canvas.getContext('2d')!;
+        const fontSize = 48;
+        const font = `${bold ? 'bold ' : ''}${fontSize}px sans-serif`;
+        ctx.font = font;
+        const padding = 12;
+        canvas.width = Math.ceil(ctx.measureText(text).width) + padding * 2;
+        canvas.height = fontSize + padding * 2;
+
+        // Resizing the canvas resets the context
+        ctx.font = font;
+        ctx.fillStyle = 'rgba(20, 20, 40, 0.8)';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.fillStyle = color;
+        ctx.textBaseline = 'middle';
+        ctx.fillText(text, padding, canvas.height / 2);
+
+        const texture = new THREE.CanvasTexture(canvas);
+        const sprite = new THREE.Sprite(new THREE.SpriteMaterial({
+            map: texture,
+            depthTest: false,
+            sizeAttenuation: false
+        }));
+        sprite.scale.set(LABEL_SCALE * canvas.width / canvas.height, LABEL_SCALE, 1);
+        sprite.position.copy(position);
+        sprite.renderOrder = 11;
+        return sprite;
+    }
+
+    // Measurements and rooms own all their geometry, materials and label textures
+    dispose(group: THREE.Object3D): void {
+        group.traverse(child => {
+            if (child instanceof THREE.Mesh || child instanceof THREE.Line) {
+                child.geometry.dispose();
+                (child.material as THREE.Material).dispose();
+            } else if (child instanceof THREE.Sprite) {
+                child.material.map?.dispose();
+                child.material.dispose();
+            }
+        });
+    }
+}
+
+// Singleton instance
+export const measureRenderer = new MeasureRenderer();
@@ -0,0 +1,143 @@
+// Plan Renderer - Wall outlines and dimension strings for the orthographic plan view
+import * as THREE from 'three';
+import { ICFProject } from '../types/project';
+import { ICF_BLOCK_CATALOG } from '../data/icfCatalog';
+import { FRAMING_CATALOG } from '../data/materialsCatalog';
+import { getBlockOutlinePoints, PlanPoint } from '../utils/BlockSnapping';
+import { detectRuns } from '../utils/RebarCalculator';
+import { MeasureUnit } from '../utils/MeasureUtils';
+import { measureRenderer } from './MeasureRenderer';
+
+const ICF_OUTLINE_COLOR = '#ffffff';
+const FRAMING_OUTLINE_COLOR = '#d7b98e';
+const DIMENSION_OFFSET = 24; // inches from the wall face to its dimension string
+
+// A wall centerline with the thickness it is drawn at
+interface PlanWall {
+    start: PlanPoint;
+    end: PlanPoint;
+    thickness: number;
+}
+
+const edgeKey = (a: PlanPoint, b: PlanPoint): string => {
+    const p = `${a.x.toFixed(2)},${a.z.toFixed(2)}`, q = `${b.x.toFixed(2)},${b.z.toFixed(2)}`;
+    return p < q ? `${p}|${q}` : `${q}|${p}`;
+};
+
+export class PlanRenderer {
+    /**
+     * Build the plan drawing: every wall outlined at its real thickness, with a
+     * dimension string along its outside, drawn just above the highest wall
+     */
+    createPlan(project: ICFProject, unit: MeasureUnit): THREE.Group {
+        const group = new THREE.Group();
+        const { icfBlocks, framing } = project.elements;
+        const elevation = Math.max(
+            0,
+            ...icfBlocks.map(block => block.position.y + ICF_BLOCK_CATALOG[block.type].height),
+            ...framing.map(wall => wall.start.y + wall.height)
+        ) + 1;
+
+        group.add(this.createLines(this.getBlockOutlineEdges(project), ICF_OUTLINE_COLOR, elevation));
+
+        const framingWalls: PlanWall[] = framing.map(wall => ({
+            start: { x: wall.start.x, z: wall.start.z },
+            end: { x: wall.end.x, z: wall.end.z },
+            thickness: FRAMING_CATALOG[wall.type].depth
+        }));
+        const framingEdges = framingWalls.flatMap(wall => {
+            const [a, b, c, d] = this.getWallCorners(wall, wall.thickness / 2);
+            return [[a, b], [b, c], [c, d], [d, a]] as [PlanPoint, PlanPoint][];
+        });
+        group.add(this.createLines(framingEdges, FRAMING_OUTLINE_COLOR, elevation));
+
+        const icfWalls: PlanWall[] = detectRuns(icfBlocks).map(run => ({
+            start: { x: run.start.x, z: run.start.z },
+            end: { x: run.end.x, z: run.end.z },
+            thickness: ICF_BLOCK_CATALOG.standard.getWidth(run.core)
+        }));
+        const walls = [...icfWalls, ...framingWalls];
+        if (walls.length === 0) return group;
+
+        // Dimensions go on the side of each wall away from the middle of the building
+        const center = {
+            x: walls.reduce((sum, w) => sum + w.start.x + w.end.x, 0) / (walls.length * 2),
+            z: walls.reduce((sum, w) => sum + w.start.z + w.end.z, 0) / (walls.length * 2)
+        };
+        for (const wall of walls) {
+            const [a, b, c, d] = this.getWallCorners(wall, wall.thickness / 2 + DIMENSION_OFFSET);
+            const leftIsOutside = Math.hypot(a.x + b.x - 2 * center.x, a.z + b.z - 2 * center.z) >=
+                Math.hypot(c.x + d.x - 2 * center.x, c.z + d.z - 2 * center.z);
+            const [from, to] = leftIsOutside ? [a, b] : [d, c];
+            group.add(measureRenderer.createMeasurement(
+                'chain',
+                [from, to].map(p => ({ x: p.x, y: elevation, z: p.z })),
+                unit,
+                true
+            ));
+        }
+        return group;
+    }
+
+    /**
+     * Outline edges of every ICF block. Edges two blocks in a course share are the
+     * joints between them and are left out, so each course draws as one outline.
+     */
+    private getBlockOutlineEdges(project: ICFProject): [PlanPoint, PlanPoint][] {
+        const courses = new Map<number, Map<string, { edge: [PlanPoint, PlanPoint]; count: number }>>();
+        for (const block of project.elements.icfBlocks) {
+            if (!courses.has(block.position.y)) courses.set(block.position.y, new Map());
+            const edges = courses.get(block.position.y)!;
+            const points = getBlockOutlinePoints(block);
+            points.forEach((a, i) => {
+                const b = points[(i + 1) % points.length];
+                const key = edgeKey(a, b);
+                const entry = edges.get(key);
+                if (entry) entry.count++;
+                else edges.set(key, { edge: [a, b], count: 1 });
+            });
+        }
+
+        // Courses stacked on each other draw the same outline once
+        const outline = new Map<string, [PlanPoint, PlanPoint]>();
+        courses.forEach(edges => edges.forEach((entry, key) => {
+            if (entry.count === 1) outline.set(key, entry.edge);
+        }));
+        return [...outline.values()];
+    }
+
+    // Corners of the rectangle `half` either side of a wall's centerline: left side start to end, then right side back
+    private getWallCorners(wall: PlanWall, half: number): PlanPoint[] {
+        const length = Math.hypot(wall.end.x - wall.start.x, wall.end.z - wall.start.z) || 1;
+        const nx = -(wall.end.z - wall.start.z) / length * half;
+        const nz = (wall.end.x - wall.start.x) / length * half;
+        return [
+            { x: wall.start.x + nx, z: wall.start.z + nz },
+            { x: wall.end.x + nx, z: wall.end.z + nz },
+            { x: wall.end.x - nx, z: wall.end.z - nz },
+            { x: wall.start.x - nx, z: wall.start.z - nz }
+        ];
+    }
+
+    // Line pairs drawn over the model
+    private createLines(edges: [PlanPoint, PlanPoint][], color: string, elevation: number): THREE.LineSegments {
+        const points = edges.flatMap(([a, b]) => [
+            new THREE.Vector3(a.x, elevation, a.z),
+            new THREE.Vector3(b.x, elevation, b.z)
+        ]);
+        const lines = new THREE.LineSegments(
+            new THREE.BufferGeometry().setFromPoints(points),
+            new THREE.LineBasicMaterial({ color, depthTest: false, transparent: true })
+        );
+        lines.renderOrder = 10;
+        return lines;
+    }
+
+    // Outlines own their geometry and materials; dimension strings are measurements
+    dispose(group: THREE.Object3D): void {
+        measureRenderer.dispose(group);
+    }
+}
+
+// Singleton instance
+export const planRenderer = new PlanRenderer();
@@ -1,19 +1,87 @@
 // Main Application Entry Point - ICF Home Designer
 import './style.css';
 import * as THREE from 'three';
-import { Scene3D } from './core/Scene3D';
+import { Scene3D, ViewMode } from './core/Scene3D';
 import { blockFactory } from './elements/BlockFactory';
+import { elementRenderer } from './elements/ElementRenderer';
+import { measureRenderer } from './elements/MeasureRenderer';
+import { planRenderer } from './elements/PlanRenderer';
 import { projectState } from './state/ProjectState';
+import { ProjectChange } from './state/ProjectHistory';
+import { formatSchemaProblems } from './state/ProjectSchema';
+import { projectLibrary, ProjectSummary } from './state/ProjectLibrary';
+import { autosave, SaveStatus } from './state/Autosave';
 import { calculateProjectCosts, formatCurrency } from './utils/CostCalculator';
+import { createEstimatePdf } from './utils/PdfExporter';
+import {
+  calculateConcreteTakeoff, getTruckCount, DEFAULT_CONCRETE_WASTE_FACTOR, DEFAULT_POUR_LIFT_HEIGHT
+} from './utils/ConcreteCalculator';
+import { calculateRebarSchedule, getRebarRule, formatBarLength, getWallRunBlockIds } from './utils/RebarCalculator';
 import { snapBlockPosition, snapToGrid } from './utils/BlockSnapping';
-import { ICF_BLOCK_CATALOG, CORE_THICKNESS_OPTIONS } from './data/icfCatalog';
-import { EQUIPMENT_CATALOG, CABINET_CATALOG, WINDOW_CATALOG } from './data/materialsCatalog';
-import { ICFBlockType, ICFCoreThickness, ElementCategory } from './types/project';
+import { findOverlappingBlocks, findAllOverlaps, BlockOverlap } from './utils/BlockCollision';
+import { validateWalls, WallIssue, WALL_ISSUE_LABELS } from './utils/WallValidator';
+import { detectRooms, RoomSummary } from './utils/RoomDetector';
+import { generateWallRun, constrainWallPoint } from './utils/WallRunGenerator';
+import { findElements, getSelectionSize, getSelectionCenter, getCourseBlockIds } from './utils/SelectionUtils';
+import {
+  MeasureUnit, MEASURE_SNAP_DISTANCE, snapMeasurePoint, formatLength, formatArea, formatVolume, getPathLength, getPolygonArea
+} from './utils/MeasureUtils';
+import {
+  OpeningKind, OpeningPlacement, snapOpeningToWall, getRoughOpening, getBlockCuts, getInstalledBlocks, BlockCut
+} from './utils/OpeningCalculator';
+import { ICF_BLOCK_CATALOG, CORE_THICKNESS_OPTIONS, ADDITIONAL_MATERIALS, BUCK_CATALOG } from './data/icfCatalog';
+import {
+  EQUIPMENT_CATALOG, CABINET_CATALOG, WINDOW_CATALOG, DOOR_CATALOG,
+  FRAMING_CATALOG, PLUMBING_CATALOG, ELECTRICAL_CATALOG, LOW_VOLTAGE_CATALOG
+} from './data/materialsCatalog';
+import {
+  ICFBlock, ICFBlockType, ICFCoreThickness, ElementCategory, ToolMode,
+  FramingType, PipeType, PlumbingSystem, WireType, CircuitType, LowVoltageType, LayerType,
+  WindowType, DoorType, BuckMaterial, MeasurementKind, Vector3
+} from './types/project';
+import {
+  LAYER_CATALOG, LAYER_TYPES, PIPE_SYSTEM_LAYERS, AREA_COLORS, getEquipmentLayer, getCategoryLayer
+} from './data/layerCatalog';
+
+// Categories placed by clicking out a path rather than a single point
+const PATH_CATEGORIES: ElementCategory[] = ['framing', 'plumbing', 'electrical', 'lowVoltage'];
+
+// A placed block being dragged to a new position in select mode
+interface BlockDrag {
+  block: ICFBlock;                // the block under the cursor
+  ids: string[];                  // what moves with it: the whole selection, if it was selected
+  blocks: ICFBlock[];             // the blocks among them
+  grabOffset: THREE.Vector3;
+  start: { x: number; y: number };
+  position: THREE.Vector3 | null; // snapped target of the grabbed block, once the drag has started
+  ghosts: THREE.Group | null;     // ghosts of the moving blocks, offset as a whole
+}
+
+// Comparable form of each cut block's cuts, to find blocks an edit re-cut
+const getCutKeys = (cuts: Map<string, BlockCut[]>): Map<string, string> =>
+  new Map(Array.from(cuts, ([id, blockCuts]) => [id, JSON.stringify(blockCuts)]));
 
 class ICFHomeDesigner {
   private scene3D!: Scene3D;
   private container!: HTMLElement;
   private ghostMesh: THREE.Mesh | null = null;
+  private pathPoints: THREE.Vector3[] = [];
+  private pathPreview: THREE.Line | null = null;
+  private measurePoints: THREE.Vector3[] = [];
+  private measureComplete = false;
+  private measurePreview: THREE.Group | null = null;
+  private boxSelectStart: { x: number; y: number } | null = null;
+  private selectionBox!: HTMLElement;
+  private suppressClick = false;
+  private blockDrag: BlockDrag | null = null;
+  private lastPointer: MouseEvent | null = null; // last cursor position over the viewport, for paste
+  private blockCutKeys: Map<string, string> = new Map(); // cuts the block meshes were built with
+  private overlapReport: BlockOverlap[] | null = null; // last "find overlaps" result, kept current while shown
+  private wallIssues: WallIssue[] | null = null;        // last wall validation, kept current while shown
+  private rooms: RoomSummary = { rooms: [], conditionedArea: 0, grossArea: 0 };
+  private roomsKey = '';                                 // rooms and unit the floor overlays were built for
+  private planKey = '';                                  // walls and unit the plan drawing was built for
+  private areaListKey = '';                             // what the area list was last drawn from
 
   constructor() {
     this.init();
@@ -27,14 +95,20 @@ class ICFHomeDesigner {
     this.container = document.getElementById('viewport')!;
     this.scene3D = new Scene3D(this.container);
 
+    // Drag rectangle for box selection
+    this.selectionBox = document.createElement('div');
+    this.selectionBox.id = 'selection-box';
+    this.selectionBox.className = 'hidden';
+    this.container.appendChild(this.selectionBox);
+
     // Set up event listeners
     this.setupEventListeners();
 
     // Subscribe to state changes
-    projectState.onChange(() => this.onProjectChange());
+    projectState.onChange(change => this.onProjectChange(change));
 
-    // Try to load saved project
-    projectState.loadFromLocalStorage();
+    // Recover autosaved work, or reopen the most recently saved project
+    this.restoreSession();
 
     // Initial render
     this.rebuildScene();
@@ -48,13 +122,15 @@ class ICFHomeDesigner {
           <div class="logo">
             <span class="logo-icon">🏠</span>
             <span class="logo-text">ICF Home Designer</span>
+            <span id="project-name" class="project-name" title="Rename project"></span>
           </div>
           <div class="header-actions">
             <button id="btn-new" class="btn btn-secondary">New</button>
             <button id="btn-save" class="btn btn-secondary">Save</button>
-            <button id="btn-load" class="btn btn-secondary">Load</button>
+            <button id="btn-projects" class="btn btn-secondary">Projects</button>
             <button id="btn-export-json" class="btn btn-primary">Export JSON</button>
             <button id="btn-import-json" class="btn btn-primary">Import JSON</button>
+            <button id="btn-export-pdf" class="btn btn-primary">Export PDF</button>
           </div>
         </header>
         
@@ -66,19 +142,110 @@ class ICFHomeDesigner {
                 <button class="tool-btn active" data-tool="place" title="Place (P)">
                   <span>➕</span> Place
                 </button>
+                <button class="tool-btn" data-tool="wall" title="Wall Run (W)">
+                  <span>🧱</span> Wall
+                </button>
                 <button class="tool-btn" data-tool="select" title="Select (V)">
                   <span>👆</span> Select
                 </button>
                 <button class="tool-btn" data-tool="delete" title="Delete (X)">
                   <span>🗑️</span> Delete
                 </button>
+                <button class="tool-btn" data-tool="measure" title="Measure (M)">
+                  <span>📏</span> Measure
+                </button>
+              </div>
+            </div>
+
+            <div class="panel-section">
+              <h3>View</h3>
+              <div class="view-modes">
+                <button class="view-btn active" data-view="perspective" title="3D view (1)">3D</button>
+                <button class="view-btn" data-view="plan" title="Plan view (2)">Plan</button>
+                <button class="view-btn" data-view="front" title="Front elevation (3)">Front</button>
+                <button class="view-btn" data-view="side" title="Side elevation (4)">Side</button>
+              </div>
+              <button id="btn-zoom-fit" class="btn btn-full">Zoom to Fit (F)</button>
+              <div class="wall-hint">Plan and elevations are flat: right-drag to pan, scroll to zoom. Place, draw and select in 3D or plan.</div>
+            </div>
+
+            <div class="panel-section hidden" id="selection-options">
+              <h3>Selection</h3>
+              <div class="rotation-display"><span id="selection-count">0</span> selected</div>
+              <div class="wall-hint">Shift-click to add or remove, Shift-drag to box select, arrows to nudge, PgUp/PgDn to change course</div>
+              <div class="selection-actions">
+                <button id="btn-select-run" class="btn btn-secondary">Wall Run</button>
+                <button id="btn-select-course" class="btn btn-secondary">Course</button>
+                <button id="btn-selection-rotate" class="btn btn-secondary">Rotate</button>
+                <button id="btn-selection-duplicate" class="btn btn-secondary">Duplicate</button>
+                <button id="btn-selection-delete" class="btn btn-secondary">Delete</button>
+                <button id="btn-selection-clear" class="btn btn-secondary">Clear</button>
+                <button id="btn-mirror-x" class="btn btn-secondary">Mirror X</button>
+                <button id="btn-mirror-z" class="btn btn-secondary">Mirror Z</button>
+                <button id="btn-selection-cut" class="btn btn-secondary">Cut</button>
+                <button id="btn-selection-copy" class="btn btn-secondary">Copy</button>
+                <button id="btn-paste" class="btn btn-secondary">Paste</button>
+              </div>
+              <div class="wall-hint">Ctrl+V pastes at the cursor, snapped to existing blocks</div>
+              <div class="input-row">
+                <label for="array-count">Count:</label>
+                <input type="number" id="array-count" value="3" min="2" step="1">
+              </div>
+              <div class="input-row">
+                <label for="array-spacing">Spacing (in):</label>
+                <input type="number" id="array-spacing" value="48" min="1" step="1">
+              </div>
+              <div class="input-row">
+                <label for="array-direction">Direction:</label>
+                <select id="array-direction">
+                  <option value="+x">+X</option>
+                  <option value="-x">−X</option>
+                  <option value="+z">+Z</option>
+                  <option value="-z">−Z</option>
+                </select>
+              </div>
+              <div class="input-row">
+                <label for="array-rows">Rows:</label>
+                <input type="number" id="array-rows" value="1" min="1" step="1">
               </div>
+              <div class="input-row">
+                <label for="array-row-spacing">Row spacing (in):</label>
+                <input type="number" id="array-row-spacing" value="48" min="1" step="1">
+              </div>
+              <button id="btn-array" class="btn btn-full">Create Array</button>
+            </div>
+
+            <div class="panel-section hidden" id="measure-options">
+              <h3>Measure</h3>
+              <div class="input-row">
+                <label for="measure-mode">Mode:</label>
+                <select id="measure-mode">
+                  <option value="distance">Point to point</option>
+                  <option value="chain">Chain</option>
+                  <option value="area">Area</option>
+                </select>
+              </div>
+              <div class="input-row">
+                <label for="measure-unit">Units:</label>
+                <select id="measure-unit">
+                  <option value="inches">Inches</option>
+                  <option value="feet">Feet & inches</option>
+                  <option value="mm">Millimeters</option>
+                </select>
+              </div>
+              <div class="wall-hint">Snaps to block corners and faces. Double-click or Enter to finish, Esc to clear</div>
+              <button id="btn-pin-measure" class="btn btn-full">Pin Measurement</button>
+              <div id="annotation-list"></div>
             </div>
             
             <div class="panel-section">
               <h3>Category</h3>
               <div class="category-tabs">
                 <button class="cat-btn active" data-category="icf">ICF</button>
+                <button class="cat-btn" data-category="framing">Frame</button>
+                <button class="cat-btn" data-category="plumbing">Plumb</button>
+                <button class="cat-btn" data-category="electrical">Elec</button>
+                <button class="cat-btn" data-category="lowVoltage">LV</button>
                 <button class="cat-btn" data-category="equipment">Equip</button>
                 <button class="cat-btn" data-category="cabinets">Cabs</button>
                 <button class="cat-btn" data-category="openings">Open</button>
@@ -91,6 +258,74 @@ class ICFHomeDesigner {
               
               <h3>Core Thickness</h3>
               <div class="core-options" id="core-options"></div>
+
+              <h3>Course</h3>
+              <div class="course-selector">
+                <button id="btn-course-down" class="core-btn" title="Course down ([)">−</button>
+                <span id="course-value">1</span>
+                <button id="btn-course-up" class="core-btn" title="Course up (])">+</button>
+              </div>
+            </div>
+            
+            <div class="panel-section hidden" id="wall-options">
+              <h3>Wall Run</h3>
+              <div class="input-row">
+                <label for="wall-height">Height (in):</label>
+                <input type="number" id="wall-height" value="96" min="4" step="4">
+              </div>
+              <div class="wall-hint">Click corners, double-click or Enter to finish, click the first point to close, Esc to cancel</div>
+            </div>
+            
+            <div class="panel-section hidden" id="framing-options">
+              <h3>Framing</h3>
+              <div class="element-list" id="framing-list"></div>
+              <div class="input-row">
+                <label for="framing-height">Height (in):</label>
+                <input type="number" id="framing-height" value="96" min="12" step="1">
+              </div>
+            </div>
+            
+            <div class="panel-section hidden" id="plumbing-options">
+              <h3>Plumbing</h3>
+              <div class="element-list" id="plumbing-list"></div>
+              <div class="input-row">
+                <label for="plumbing-system">System:</label>
+                <select id="plumbing-system">
+                  <option value="water-cold">Cold Water</option>
+                  <option value="water-hot">Hot Water</option>
+                  <option value="drain">Drain</option>
+                  <option value="vent">Vent</option>
+                </select>
+              </div>
+            </div>
+            
+            <div class="panel-section hidden" id="electrical-options">
+              <h3>Electrical</h3>
+              <div class="element-list" id="electrical-list"></div>
+              <div class="input-row">
+                <label for="electrical-circuit">Circuit:</label>
+                <select id="electrical-circuit">
+                  <option value="general">General</option>
+                  <option value="kitchen">Kitchen</option>
+                  <option value="bathroom">Bathroom</option>
+                  <option value="dedicated">Dedicated</option>
+                  <option value="hvac">HVAC</option>
+                </select>
+              </div>
+            </div>
+            
+            <div class="panel-section hidden" id="lowvoltage-options">
+              <h3>Low Voltage</h3>
+              <div class="element-list" id="lowvoltage-list"></div>
+            </div>
+            
+            <div class="panel-section hidden" id="run-options">
+              <h3>Run</h3>
+              <div class="input-row">
+                <label for="run-elevation">Elevation (in):</label>
+                <input type="number" id="run-elevation" value="12" step="1">
+              </div>
+              <div class="wall-hint">Click points, double-click or Enter to finish, Esc to cancel</div>
             </div>
             
             <div class="panel-section hidden" id="equipment-options">
@@ -106,11 +341,23 @@ class ICFHomeDesigner {
             <div class="panel-section hidden" id="opening-options">
               <h3>Windows & Doors</h3>
               <div class="element-list" id="opening-list"></div>
+              <div class="input-row">
+                <label for="buck-material">Buck:</label>
+                <select id="buck-material">
+                  <option value="vinyl">Vinyl</option>
+                  <option value="lumber">Lumber</option>
+                </select>
+              </div>
+              <div class="wall-hint">Click an ICF wall to cut the opening</div>
             </div>
             
             <div class="panel-section">
               <h3>Rotation</h3>
-              <button id="btn-rotate" class="btn btn-full">Rotate 90° (R)</button>
+              <div class="input-row">
+                <label for="rotation-step">Angle (°):</label>
+                <input type="number" id="rotation-step" value="90" step="1">
+              </div>
+              <button id="btn-rotate" class="btn btn-full">Rotate (R)</button>
               <div class="rotation-display">Current: <span id="rotation-value">0°</span></div>
             </div>
           </aside>
@@ -123,9 +370,29 @@ class ICFHomeDesigner {
               <div class="info-grid">
                 <label>ICF Blocks:</label>
                 <span id="stat-blocks">0</span>
-                <label>Wall Area:</label>
+                <label>Rooms:</label>
+                <span id="stat-rooms">0</span>
+                <label>Floor Area:</label>
                 <span id="stat-area">0 sq ft</span>
+                <label>Gross Area:</label>
+                <span id="stat-gross-area">0 sq ft</span>
+                <label>Cost / sq ft:</label>
+                <span id="stat-cost-rate">-</span>
               </div>
+              <div id="room-list"></div>
+              <div class="input-row">
+                <label for="show-rooms">Show rooms:</label>
+                <input type="checkbox" id="show-rooms" checked>
+              </div>
+              <div class="wall-hint">Rooms are found where ICF and framing walls close a loop. Floor area is inside the walls; gross area is to their outside faces.</div>
+            </div>
+
+            <div class="panel-section">
+              <h3>Areas</h3>
+              <div id="area-list"></div>
+              <button id="btn-add-area" class="btn btn-full">New Area</button>
+              <button id="btn-area-remove" class="btn btn-full">Remove Selection from Area</button>
+              <div class="wall-hint">Select blocks or framing walls and click + to add them to an area. Windows and doors follow their wall.</div>
             </div>
             
             <div class="panel-section">
@@ -139,21 +406,84 @@ class ICFHomeDesigner {
                 <strong>Total:</strong>
                 <span id="cost-total">$0</span>
               </div>
+              <div id="area-costs"></div>
+            </div>
+            
+            <div class="panel-section">
+              <h3>Concrete</h3>
+              <div class="input-row">
+                <label for="concrete-waste">Waste (%):</label>
+                <input type="number" id="concrete-waste" value="5" min="0" max="50" step="1">
+              </div>
+              <div class="input-row">
+                <label for="pour-lift">Pour Lift (in):</label>
+                <input type="number" id="pour-lift" value="48" min="16" step="16">
+              </div>
+              <div id="concrete-lifts"></div>
+              <div class="cost-category-header concrete-total">
+                <span>Total to order</span>
+                <span id="concrete-total">0 cu yd</span>
+              </div>
+            </div>
+            
+            <div class="panel-section">
+              <h3>Rebar</h3>
+              <div class="input-row">
+                <label for="rebar-core">Rules for core:</label>
+                <select id="rebar-core">
+                  ${CORE_THICKNESS_OPTIONS.map(core => `<option value="${core}" ${core === 8 ? 'selected' : ''}>${core}"</option>`).join('')}
+                </select>
+              </div>
+              <div class="input-row">
+                <label for="rebar-vertical">Vertical o.c. (in):</label>
+                <input type="number" id="rebar-vertical" min="8" step="8">
+              </div>
+              <div class="input-row">
+                <label for="rebar-horizontal">Horiz. every N courses:</label>
+                <input type="number" id="rebar-horizontal" min="1" step="1">
+              </div>
+              <div id="rebar-summary"></div>
+              <button id="btn-rebar-cut-list" class="btn btn-full">Print Cut List</button>
             </div>
             
+            <div class="panel-section">
+              <h3>Checks</h3>
+              <button id="btn-find-overlaps" class="btn btn-full">Find Overlaps</button>
+              <div id="overlap-report"></div>
+              <button id="btn-validate-walls" class="btn btn-full">Validate Walls</button>
+              <div id="wall-report"></div>
+            </div>
+
             <div class="panel-section">
               <h3>Layers</h3>
               <div id="layer-toggles"></div>
             </div>
+
+            <div class="panel-section">
+              <h3>History</h3>
+              <div id="history-list"></div>
+            </div>
           </aside>
         </div>
         
         <div id="status-bar">
           <span id="status-text">Ready - Click to place blocks</span>
+          <span id="save-status"></span>
           <span id="position-display">X: 0 Y: 0 Z: 0</span>
         </div>
       </div>
       
+      <!-- Project library -->
+      <div id="library-dialog" class="dialog hidden">
+        <div class="dialog-content">
+          <div class="dialog-header">
+            <h3>Projects</h3>
+            <button id="btn-library-close" class="layer-btn" title="Close">✕</button>
+          </div>
+          <div id="library-list"></div>
+        </div>
+      </div>
+
       <!-- Hidden file input for import -->
       <input type="file" id="file-input" accept=".json" style="display: none;">
     `;
@@ -178,6 +508,23 @@ class ICFHomeDesigner {
       coreContainer.appendChild(btn);
     });
 
+    // Populate path element lists (first entry starts selected)
+    const populateList = (listId: string, category: ElementCategory, catalog: Record<string, { name: string }>) => {
+      const list = document.getElementById(listId)!;
+      Object.entries(catalog).forEach(([type, spec], i) => {
+        const btn = document.createElement('button');
+        btn.className = `element-btn ${i === 0 ? 'active' : ''}`;
+        btn.dataset.type = type;
+        btn.dataset.category = category;
+        btn.textContent = spec.name;
+        list.appendChild(btn);
+      });
+    };
+    populateList('framing-list', 'framing', FRAMING_CATALOG);
+    populateList('plumbing-list', 'plumbing', PLUMBING_CATALOG);
+    populateList('electrical-list', 'electrical', ELECTRICAL_CATALOG);
+    populateList('lowvoltage-list', 'lowVoltage', LOW_VOLTAGE_CATALOG);
+
     // Populate equipment list
     const equipList = document.getElementById('equipment-list')!;
     Object.entries(EQUIPMENT_CATALOG).forEach(([type, spec]) => {
@@ -200,40 +547,41 @@ class ICFHomeDesigner {
       cabList.appendChild(btn);
     });
 
-    // Populate windows list
+    // Populate windows and doors list
     const openList = document.getElementById('opening-list')!;
-    Object.entries(WINDOW_CATALOG).forEach(([type, spec]) => {
-      const btn = document.createElement('button');
-      btn.className = 'element-btn';
-      btn.dataset.type = type;
-      btn.dataset.category = 'windows';
-      btn.textContent = spec.name;
-      openList.appendChild(btn);
-    });
+    const addOpeningButtons = (kind: OpeningKind, catalog: Record<string, { name: string }>, current: string) => {
+      Object.entries(catalog).forEach(([type, spec]) => {
+        const btn = document.createElement('button');
+        btn.className = `element-btn ${kind === projectState.currentOpeningKind && type === current ? 'active' : ''}`;
+        btn.dataset.type = type;
+        btn.dataset.category = 'openings';
+        btn.dataset.kind = kind;
+        btn.textContent = spec.name;
+        openList.appendChild(btn);
+      });
+    };
+    addOpeningButtons('window', WINDOW_CATALOG, projectState.currentWindowType);
+    addOpeningButtons('door', DOOR_CATALOG, projectState.currentDoorType);
 
-    // Populate layer toggles
+    // Populate layer rows: visibility, isolate, ghost, lock and opacity
     const layerContainer = document.getElementById('layer-toggles')!;
-    const layers = [
-      { id: 'icf', name: 'ICF Walls', color: '#cccccc' },
-      { id: 'framing', name: 'Framing', color: '#d4a574' },
-      { id: 'plumbing-cold', name: 'Cold Water', color: '#3498db' },
-      { id: 'plumbing-hot', name: 'Hot Water', color: '#e74c3c' },
-      { id: 'electrical', name: 'Electrical', color: '#f1c40f' },
-      { id: 'lowVoltage', name: 'Low Voltage', color: '#e67e22' },
-      { id: 'equipment', name: 'Equipment', color: '#8e44ad' },
-      { id: 'cabinets', name: 'Cabinets', color: '#795548' },
-      { id: 'windows', name: 'Windows', color: '#00bcd4' }
-    ];
-
-    layers.forEach(layer => {
-      const label = document.createElement('label');
-      label.className = 'layer-toggle';
-      label.innerHTML = `
-        <input type="checkbox" data-layer="${layer.id}" checked>
-        <span class="layer-color" style="background: ${layer.color}"></span>
-        ${layer.name}
+    LAYER_TYPES.forEach(type => {
+      const layer = LAYER_CATALOG[type];
+      const row = document.createElement('div');
+      row.className = 'layer-row';
+      row.dataset.layer = type;
+      row.innerHTML = `
+        <label class="layer-toggle">
+          <input type="checkbox" data-layer-visible checked>
+          <span class="layer-color" style="background: ${layer.color}"></span>
+          ${layer.name}
+        </label>
+        <button class="layer-btn" data-layer-action="isolate" title="Isolate">◎</button>
+        <button class="layer-btn" data-layer-action="ghost" title="Ghost">◐</button>
+        <button class="layer-btn" data-layer-action="lock" title="Lock">🔒</button>
+        <input type="range" class="layer-opacity" min="0" max="100" step="5" value="100" title="Opacity">
       `;
-      layerContainer.appendChild(label);
+      layerContainer.appendChild(row);
     });
   }
 
@@ -254,20 +602,24 @@ class ICFHomeDesigner {
 
     // Mouse move for ghost preview
     viewport.addEventListener('mousemove', (e) => this.onMouseMove(e));
+    viewport.addEventListener('mouseleave', () => { this.lastPointer = null; });
 
     // Click to place/select
     viewport.addEventListener('click', (e) => this.onClick(e));
 
+    // Double click finishes a wall run or drawn path
+    viewport.addEventListener('dblclick', () => {
+      if (this.isDrawingPath()) this.finishPath();
+      if (projectState.currentTool === 'measure') this.finishMeasurement();
+    });
+
     // Keyboard shortcuts
     document.addEventListener('keydown', (e) => this.onKeyDown(e));
 
     // Tool buttons
     document.querySelectorAll<HTMLButtonElement>('.tool-btn').forEach(btn => {
       btn.addEventListener('click', () => {
-        document.querySelectorAll('.tool-btn').forEach(b => b.classList.remove('active'));
-        btn.classList.add('active');
-        projectState.currentTool = btn.dataset.tool as any;
-        this.updateGhost();
+        this.selectTool(btn.dataset.tool as ToolMode);
       });
     });
 
@@ -277,10 +629,162 @@ class ICFHomeDesigner {
         document.querySelectorAll('.cat-btn').forEach(b => b.classList.remove('active'));
         btn.classList.add('active');
         projectState.currentCategory = btn.dataset.category as ElementCategory;
+        this.cancelPath();
         this.showCategoryOptions(btn.dataset.category as string);
       });
     });
 
+    // Path element type buttons
+    document.querySelectorAll<HTMLButtonElement>('.element-btn').forEach(btn => {
+      const category = btn.dataset.category as ElementCategory;
+      if (!PATH_CATEGORIES.includes(category)) return;
+      btn.addEventListener('click', () => {
+        btn.parentElement!.querySelectorAll('.element-btn').forEach(b => b.classList.remove('active'));
+        btn.classList.add('active');
+        this.setPathType(category, btn.dataset.type!);
+      });
+    });
+
+    // Window and door buttons
+    document.querySelectorAll<HTMLButtonElement>('.element-btn[data-category="openings"]').forEach(btn => {
+      btn.addEventListener('click', () => {
+        btn.parentElement!.querySelectorAll('.element-btn').forEach(b => b.classList.remove('active'));
+        btn.classList.add('active');
+        const kind = btn.dataset.kind as OpeningKind;
+        projectState.currentOpeningKind = kind;
+        if (kind === 'window') {
+          projectState.currentWindowType = btn.dataset.type as WindowType;
+        } else {
+          projectState.currentDoorType = btn.dataset.type as DoorType;
+        }
+      });
+    });
+
+    // Selection commands
+    document.getElementById('btn-select-run')?.addEventListener('click', () => this.selectWallRun());
+    document.getElementById('btn-select-course')?.addEventListener('click', () => this.selectCourse());
+    document.getElementById('btn-selection-rotate')?.addEventListener('click', () => {
+      const count = projectState.rotateSelectionAbout(this.getRotationStep());
+      if (count > 0) this.setStatus(`Rotated ${count} element(s)`);
+    });
+    document.getElementById('btn-selection-duplicate')?.addEventListener('click', () => this.duplicateSelection());
+    document.getElementById('btn-selection-delete')?.addEventListener('click', () => this.deleteSelection());
+    document.getElementById('btn-selection-clear')?.addEventListener('click', () => projectState.clearSelection());
+    document.querySelectorAll<HTMLButtonElement>('#btn-mirror-x, #btn-mirror-z').forEach(btn => {
+      btn.addEventListener('click', () => {
+        const axis = btn.id === 'btn-mirror-x' ? 'x' : 'z';
+        const count = projectState.mirrorSelection(axis);
+        if (count > 0) this.setStatus(`Mirrored ${count} element(s) across ${axis.toUpperCase()}`);
+      });
+    });
+    document.getElementById('btn-selection-cut')?.addEventListener('click', () => this.cutSelection());
+    document.getElementById('btn-selection-copy')?.addEventListener('click', () => this.copySelection());
+    document.getElementById('btn-paste')?.addEventListener('click', () => this.pasteClipboard());
+    document.getElementById('btn-array')?.addEventListener('click', () => this.arraySelection());
+
+    // Box selection - capture phase so orbit controls never see the drag
+    viewport.addEventListener('pointerdown', (e) => this.onBoxSelectStart(e), true);
+    window.addEventListener('pointermove', (e) => this.onBoxSelectMove(e));
+    window.addEventListener('pointerup', (e) => this.onBoxSelectEnd(e));
+
+    // Drag a placed block to move it
+    viewport.addEventListener('pointerdown', (e) => this.onBlockDragStart(e), true);
+    window.addEventListener('pointermove', (e) => this.onBlockDragMove(e));
+    window.addEventListener('pointerup', () => this.onBlockDragEnd());
+
+    // Measure options
+    document.getElementById('measure-mode')?.addEventListener('change', (e) => {
+      projectState.currentMeasureMode = (e.target as HTMLSelectElement).value as MeasurementKind;
+      this.clearMeasurement();
+    });
+
+    document.getElementById('measure-unit')?.addEventListener('change', (e) => {
+      projectState.updateSettings({ gridUnit: (e.target as HTMLSelectElement).value as MeasureUnit });
+      this.updateMeasurePreview();
+    });
+
+    document.getElementById('btn-pin-measure')?.addEventListener('click', () => this.pinMeasurement());
+
+    document.getElementById('annotation-list')?.addEventListener('click', (e) => {
+      const id = (e.target as HTMLElement).dataset.annotation;
+      if (id) projectState.deleteAnnotation(id);
+    });
+
+    document.getElementById('btn-add-area')?.addEventListener('click', () => {
+      const name = prompt('Area name:', `Area ${projectState.getAreas().length + 1}`)?.trim();
+      if (!name) return;
+      const color = AREA_COLORS[projectState.getAreas().length % AREA_COLORS.length];
+      // The selection, if any, goes straight into the new area
+      const count = projectState.transaction('Add area', () =>
+        projectState.assignSelectionToArea(projectState.addArea(name, color).id));
+      this.setStatus(count > 0 ? `Added area "${name}" with ${count} element(s)` : `Added area "${name}"`);
+    });
+    document.getElementById('btn-area-remove')?.addEventListener('click', () => {
+      const count = projectState.assignSelectionToArea(null);
+      this.setStatus(count > 0 ? `Removed ${count} element(s) from their area` : 'Select blocks or framing walls in an area first');
+    });
+    const areaList = document.getElementById('area-list')!;
+    areaList.addEventListener('click', (e) => this.onAreaAction(e));
+    areaList.addEventListener('change', (e) => {
+      const input = e.target as HTMLInputElement;
+      const id = input.closest<HTMLElement>('[data-area]')?.dataset.area;
+      if (id && input.classList.contains('area-color')) projectState.updateArea(id, { color: input.value });
+    });
+
+    document.getElementById('btn-find-overlaps')?.addEventListener('click', () => this.findOverlaps());
+    document.getElementById('overlap-report')?.addEventListener('click', (e) => {
+      const index = (e.target as HTMLElement).closest<HTMLElement>('[data-overlap]')?.dataset.overlap;
+      const overlap = index !== undefined ? this.overlapReport?.[parseInt(index)] : undefined;
+      if (overlap) this.showElements([overlap.a.id, overlap.b.id]);
+    });
+    document.getElementById('room-list')?.addEventListener('click', (e) => {
+      const id = (e.target as HTMLElement).closest<HTMLElement>('[data-room]')?.dataset.room;
+      const room = this.rooms.rooms.find(r => r.id === id);
+      if (!room) return;
+      const box = new THREE.Box3();
+      room.exterior.forEach(p => box.expandByPoint(new THREE.Vector3(p.x, room.floor, p.z)));
+      box.max.y = room.floor + room.height;
+      this.scene3D.focusOn(box);
+    });
+    document.getElementById('show-rooms')?.addEventListener('change', (e) => {
+      this.scene3D.roomGroup.visible = (e.target as HTMLInputElement).checked;
+    });
+    document.getElementById('btn-validate-walls')?.addEventListener('click', () => this.validateWalls());
+    document.getElementById('wall-report')?.addEventListener('click', (e) => {
+      const index = (e.target as HTMLElement).closest<HTMLElement>('[data-wall-issue]')?.dataset.wallIssue;
+      const issue = index !== undefined ? this.wallIssues?.[parseInt(index)] : undefined;
+      if (issue) this.showElements(issue.elementIds, issue);
+    });
+
+    document.getElementById('history-list')?.addEventListener('click', (e) => {
+      const step = (e.target as HTMLElement).closest<HTMLElement>('[data-history-step]')?.dataset.historyStep;
+      if (step !== undefined && projectState.jumpToHistory(parseInt(step))) {
+        this.setStatus('Jumped to history step');
+      }
+    });
+
+    document.getElementById('buck-material')?.addEventListener('change', (e) => {
+      projectState.currentBuckMaterial = (e.target as HTMLSelectElement).value as BuckMaterial;
+    });
+
+    document.getElementById('framing-height')?.addEventListener('change', (e) => {
+      const value = parseFloat((e.target as HTMLInputElement).value);
+      if (value > 0) projectState.currentFramingHeight = value;
+    });
+
+    document.getElementById('plumbing-system')?.addEventListener('change', (e) => {
+      projectState.currentPlumbingSystem = (e.target as HTMLSelectElement).value as PlumbingSystem;
+    });
+
+    document.getElementById('electrical-circuit')?.addEventListener('change', (e) => {
+      projectState.currentCircuit = (e.target as HTMLSelectElement).value as CircuitType;
+    });
+
+    document.getElementById('run-elevation')?.addEventListener('change', (e) => {
+      const value = parseFloat((e.target as HTMLInputElement).value);
+      if (!isNaN(value)) projectState.currentRunElevation = value;
+    });
+
     // Block type buttons
     document.querySelectorAll<HTMLButtonElement>('.block-type-btn').forEach(btn => {
       btn.addEventListener('click', () => {
@@ -291,59 +795,139 @@ class ICFHomeDesigner {
       });
     });
 
-    // Core thickness buttons
-    document.querySelectorAll<HTMLButtonElement>('.core-btn').forEach(btn => {
+    // Core thickness buttons (the course buttons share their look, not their handler)
+    document.querySelectorAll<HTMLButtonElement>('#core-options .core-btn').forEach(btn => {
       btn.addEventListener('click', () => {
-        document.querySelectorAll('.core-btn').forEach(b => b.classList.remove('active'));
+        document.querySelectorAll('#core-options .core-btn').forEach(b => b.classList.remove('active'));
         btn.classList.add('active');
         projectState.currentCoreThickness = parseInt(btn.dataset.core!) as ICFCoreThickness;
         this.updateGhost();
       });
     });
 
+    // View modes
+    document.querySelectorAll<HTMLButtonElement>('.view-btn').forEach(btn => {
+      btn.addEventListener('click', () => this.setViewMode(btn.dataset.view as ViewMode));
+    });
+    document.getElementById('btn-zoom-fit')?.addEventListener('click', () => this.zoomToFit());
+
+    // Course selector
+    document.getElementById('btn-course-down')?.addEventListener('click', () => this.setCourse(projectState.currentCourse - 1));
+    document.getElementById('btn-course-up')?.addEventListener('click', () => this.setCourse(projectState.currentCourse + 1));
+
+    // Wall height
+    document.getElementById('wall-height')?.addEventListener('change', (e) => {
+      const value = parseFloat((e.target as HTMLInputElement).value);
+      if (value > 0) projectState.currentWallHeight = value;
+    });
+
     // Rotate button
     document.getElementById('btn-rotate')?.addEventListener('click', () => {
-      projectState.rotateSelection();
+      projectState.rotateSelection(this.getRotationStep());
       this.updateGhost();
     });
 
-    // Layer toggles
-    document.querySelectorAll('[data-layer]').forEach(input => {
-      input.addEventListener('change', (e) => {
-        const target = e.target as HTMLInputElement;
-        projectState.layers[target.dataset.layer!] = target.checked;
-        this.rebuildScene();
+    // Layer panel
+    document.querySelectorAll<HTMLElement>('.layer-row').forEach(row => {
+      const type = row.dataset.layer as LayerType;
+
+      row.querySelector('[data-layer-visible]')!.addEventListener('change', (e) => {
+        projectState.updateLayer(type, { visible: (e.target as HTMLInputElement).checked });
+      });
+
+      row.querySelector('.layer-opacity')!.addEventListener('change', (e) => {
+        projectState.updateLayer(type, { opacity: parseInt((e.target as HTMLInputElement).value) / 100 });
+      });
+
+      row.querySelectorAll<HTMLElement>('[data-layer-action]').forEach(btn => {
+        btn.addEventListener('click', () => {
+          const settings = projectState.getLayers()[type];
+          switch (btn.dataset.layerAction) {
+            case 'isolate':
+              projectState.isolateLayer(projectState.isolatedLayer === type ? null : type);
+              break;
+            case 'ghost':
+              projectState.updateLayer(type, { ghosted: !settings.ghosted });
+              break;
+            case 'lock':
+              projectState.updateLayer(type, { locked: !settings.locked });
+              break;
+          }
+        });
       });
     });
 
     // Cost multiplier
     document.getElementById('cost-multiplier')?.addEventListener('change', (e) => {
       const value = parseFloat((e.target as HTMLInputElement).value);
-      const project = projectState.getProject();
-      project.settings.costMultiplier = value;
-      this.updateCosts();
+      projectState.updateSettings({ costMultiplier: value });
+    });
+
+    // Concrete settings
+    document.getElementById('concrete-waste')?.addEventListener('change', (e) => {
+      const input = e.target as HTMLInputElement;
+      const value = parseFloat(input.value);
+      if (Number.isNaN(value)) return;
+      // Held to the field's range, which keeps the saved factor within what the schema accepts
+      const percent = Math.min(Math.max(value, parseFloat(input.min)), parseFloat(input.max));
+      input.value = `${percent}`;
+      projectState.updateSettings({ concreteWasteFactor: percent / 100 });
+    });
+
+    document.getElementById('pour-lift')?.addEventListener('change', (e) => {
+      const value = parseFloat((e.target as HTMLInputElement).value);
+      if (value > 0) projectState.updateSettings({ pourLiftHeight: value });
+    });
+
+    // Rebar rules (edited per core thickness)
+    document.getElementById('rebar-core')?.addEventListener('change', () => this.updateRebar());
+
+    const updateRebarRule = (field: 'verticalSpacing' | 'horizontalEveryCourses', value: number) => {
+      if (!(value > 0)) return;
+      const rules = projectState.getProject().settings.rebarRules || {};
+      const core = this.getRebarRuleCore();
+      projectState.updateSettings({ rebarRules: { ...rules, [core]: { ...rules[core], [field]: value } } });
+    };
+
+    document.getElementById('rebar-vertical')?.addEventListener('change', (e) => {
+      updateRebarRule('verticalSpacing', parseFloat((e.target as HTMLInputElement).value));
+    });
+
+    document.getElementById('rebar-horizontal')?.addEventListener('change', (e) => {
+      updateRebarRule('horizontalEveryCourses', parseInt((e.target as HTMLInputElement).value));
+    });
+
+    document.getElementById('btn-rebar-cut-list')?.addEventListener('click', () => {
+      this.printRebarCutList();
     });
 
     // File buttons
     document.getElementById('btn-new')?.addEventListener('click', () => {
-      if (confirm('Start a new project? Unsaved changes will be lost.')) {
+      if (!autosave.isDirty() || confirm('Start a new project? Unsaved changes will be lost.')) {
         projectState.newProject();
-        this.rebuildScene();
+        autosave.markSaved();
       }
     });
 
     document.getElementById('btn-save')?.addEventListener('click', () => {
-      projectState.saveToLocalStorage();
-      this.setStatus('Project saved to browser storage');
+      this.saveToLibrary();
     });
 
-    document.getElementById('btn-load')?.addEventListener('click', () => {
-      if (projectState.loadFromLocalStorage()) {
-        this.rebuildScene();
-        this.setStatus('Project loaded from browser storage');
-      } else {
-        this.setStatus('No saved project found');
-      }
+    document.getElementById('btn-projects')?.addEventListener('click', () => {
+      this.showLibrary();
+    });
+
+    document.getElementById('btn-library-close')?.addEventListener('click', () => {
+      this.hideLibrary();
+    });
+
+    document.getElementById('library-dialog')?.addEventListener('click', (e) => {
+      if (e.target === e.currentTarget) this.hideLibrary();
+    });
+
+    document.getElementById('project-name')?.addEventListener('click', () => {
+      const name = prompt('Project name:', projectState.getProject().name)?.trim();
+      if (name) projectState.setProjectName(name);
     });
 
     document.getElementById('btn-export-json')?.addEventListener('click', () => {
@@ -354,14 +938,47 @@ class ICFHomeDesigner {
       document.getElementById('file-input')?.click();
     });
 
+    document.getElementById('btn-export-pdf')?.addEventListener('click', () => {
+      this.exportPDF();
+    });
+
     document.getElementById('file-input')?.addEventListener('change', (e) => {
       this.importJSON(e);
     });
   }
 
+  private setPathType(category: ElementCategory, type: string): void {
+    switch (category) {
+      case 'framing':
+        projectState.currentFramingType = type as FramingType;
+        break;
+      case 'plumbing':
+        projectState.currentPipeType = type as PipeType;
+        // PEX carries supply water, PVC is drain/waste/vent - keep the system consistent
+        const isDrainPipe = type.startsWith('pvc');
+        const isDrainSystem = projectState.currentPlumbingSystem === 'drain' || projectState.currentPlumbingSystem === 'vent';
+        if (isDrainPipe !== isDrainSystem) {
+          projectState.currentPlumbingSystem = isDrainPipe ? 'drain' : 'water-cold';
+          (document.getElementById('plumbing-system') as HTMLSelectElement).value = projectState.currentPlumbingSystem;
+        }
+        break;
+      case 'electrical':
+        projectState.currentWireType = type as WireType;
+        break;
+      case 'lowVoltage':
+        projectState.currentLowVoltageType = type as LowVoltageType;
+        break;
+    }
+  }
+
   private showCategoryOptions(category: string): void {
     // Hide all option panels
     document.getElementById('icf-options')?.classList.add('hidden');
+    document.getElementById('framing-options')?.classList.add('hidden');
+    document.getElementById('plumbing-options')?.classList.add('hidden');
+    document.getElementById('electrical-options')?.classList.add('hidden');
+    document.getElementById('lowvoltage-options')?.classList.add('hidden');
+    document.getElementById('run-options')?.classList.add('hidden');
     document.getElementById('equipment-options')?.classList.add('hidden');
     document.getElementById('cabinet-options')?.classList.add('hidden');
     document.getElementById('opening-options')?.classList.add('hidden');
@@ -371,6 +988,21 @@ class ICFHomeDesigner {
       case 'icf':
         document.getElementById('icf-options')?.classList.remove('hidden');
         break;
+      case 'framing':
+        document.getElementById('framing-options')?.classList.remove('hidden');
+        break;
+      case 'plumbing':
+        document.getElementById('plumbing-options')?.classList.remove('hidden');
+        document.getElementById('run-options')?.classList.remove('hidden');
+        break;
+      case 'electrical':
+        document.getElementById('electrical-options')?.classList.remove('hidden');
+        document.getElementById('run-options')?.classList.remove('hidden');
+        break;
+      case 'lowVoltage':
+        document.getElementById('lowvoltage-options')?.classList.remove('hidden');
+        document.getElementById('run-options')?.classList.remove('hidden');
+        break;
       case 'equipment':
         document.getElementById('equipment-options')?.classList.remove('hidden');
         break;
@@ -384,12 +1016,31 @@ class ICFHomeDesigner {
   }
 
   private onMouseMove(e: MouseEvent): void {
+    this.lastPointer = e;
+    if (this.blockDrag) return;
+
+    if (this.isDrawingPath()) {
+      this.removeGhost();
+      this.onPathMouseMove(e);
+      return;
+    }
+
+    if (projectState.currentTool === 'measure') {
+      this.onMeasureMouseMove(e);
+      return;
+    }
+
     if (projectState.currentTool !== 'place') {
       this.removeGhost();
       return;
     }
 
-    const intersection = this.scene3D.getGroundIntersection(e, this.container);
+    if (projectState.currentCategory === 'openings') {
+      this.updateOpeningGhost(e);
+      return;
+    }
+
+    const intersection = this.getPlacementPoint(e);
     if (!intersection) {
       this.removeGhost();
       return;
@@ -407,12 +1058,26 @@ class ICFHomeDesigner {
     const snapped = snapResult.position;
 
     // Update position display with snap indicator
-    const snapIndicator = snapResult.snappedToBlock ? ' [SNAP]' : '';
+    const colliding = this.getPlacementOverlaps(snapped).length > 0;
+    const snapIndicator = colliding ? ' [OVERLAP]' : snapResult.runningBond ? ' [BOND]' : snapResult.snappedToBlock ? ' [SNAP]' : '';
     document.getElementById('position-display')!.textContent =
       `X: ${snapped.x}" Y: ${snapped.y}" Z: ${snapped.z}"${snapIndicator}`;
 
-    // Update or create ghost
+    // Update or create ghost, red where it would overlap
     this.updateGhostPosition(snapped);
+    if (this.ghostMesh) blockFactory.setGhostColliding(this.ghostMesh, colliding);
+  }
+
+  // Existing blocks that a block from the current tool settings would overlap at `position`
+  private getPlacementOverlaps(position: THREE.Vector3): ICFBlock[] {
+    const candidate: ICFBlock = {
+      id: '',
+      type: projectState.currentBlockType,
+      coreThickness: projectState.currentCoreThickness,
+      position: { x: position.x, y: position.y, z: position.z },
+      rotation: projectState.currentRotation
+    };
+    return findOverlappingBlocks(candidate, projectState.getICFBlocks());
   }
 
   private updateGhostPosition(position: THREE.Vector3): void {
@@ -441,6 +1106,61 @@ class ICFHomeDesigner {
     this.scene3D.scene.add(this.ghostMesh);
   }
 
+  // Window/door placement: snapped to the centerline of the ICF wall under the cursor
+  private getOpeningPlacement(e: MouseEvent): OpeningPlacement | null {
+    const meshes = this.getPickableMeshes().filter(mesh => mesh.userData.type === 'icfBlock');
+    const hit = this.scene3D.getIntersectedObjects(e, this.container, meshes)[0];
+    if (!hit) return null;
+
+    const blocks = projectState.getICFBlocks();
+    const block = blocks.find(b => b.id === this.getElementId(hit));
+    if (!block) return null;
+    return snapOpeningToWall(hit.point, block, blocks, projectState.currentOpeningKind);
+  }
+
+  private getCurrentOpeningType(): WindowType | DoorType {
+    return projectState.currentOpeningKind === 'window' ? projectState.currentWindowType : projectState.currentDoorType;
+  }
+
+  private updateOpeningGhost(e: MouseEvent): void {
+    this.removeGhost();
+    const placement = this.getOpeningPlacement(e);
+    if (!placement) return;
+
+    const kind = projectState.currentOpeningKind;
+    const buck = projectState.currentBuckMaterial;
+    const rough = getRoughOpening(kind, this.getCurrentOpeningType(), buck);
+    const block = projectState.getICFBlocks().find(b => b.id === placement.wallId)!;
+    const wallWidth = ICF_BLOCK_CATALOG[block.type].getWidth(block.coreThickness);
+    const roughBottom = placement.position.y - (kind === 'window' ? BUCK_CATALOG[buck].thickness : 0);
+
+    this.ghostMesh = elementRenderer.createOpeningGhost(rough.width, rough.height, wallWidth);
+    this.ghostMesh.position.set(placement.position.x, roughBottom + rough.height / 2, placement.position.z);
+    this.ghostMesh.rotation.y = THREE.MathUtils.degToRad(placement.rotation);
+    this.scene3D.scene.add(this.ghostMesh);
+
+    const { x, y, z } = placement.position;
+    document.getElementById('position-display')!.textContent =
+      `X: ${Math.round(x)}" Y: ${Math.round(y)}" Z: ${Math.round(z)}" [WALL]`;
+  }
+
+  private placeOpening(e: MouseEvent): void {
+    if (this.isLayerLockedWithStatus('windows')) return;
+
+    const placement = this.getOpeningPlacement(e);
+    if (!placement) {
+      this.setStatus('Click a straight ICF wall to place a window or door');
+      return;
+    }
+
+    const opening = projectState.addOpening(placement);
+    if (!opening) return;
+    const name = projectState.currentOpeningKind === 'window'
+      ? WINDOW_CATALOG[opening.type as WindowType].name
+      : DOOR_CATALOG[opening.type as DoorType].name;
+    this.setStatus(`Placed ${name} with ${BUCK_CATALOG[projectState.currentBuckMaterial].name.toLowerCase()}`);
+  }
+
   private removeGhost(): void {
     if (this.ghostMesh) {
       this.scene3D.scene.remove(this.ghostMesh);
@@ -458,15 +1178,32 @@ class ICFHomeDesigner {
   }
 
   private onClick(e: MouseEvent): void {
+    // The click that ends a box selection
+    if (this.suppressClick) {
+      this.suppressClick = false;
+      return;
+    }
+
     const intersection = this.scene3D.getGroundIntersection(e, this.container);
     if (!intersection) return;
 
+    if (this.isDrawingPath()) {
+      this.addPathPoint(intersection);
+      return;
+    }
+
     switch (projectState.currentTool) {
       case 'place':
+        if (projectState.currentCategory === 'openings') {
+          this.placeOpening(e);
+          break;
+        }
         // Use smart snapping when placing blocks
+        const placementPoint = this.getPlacementPoint(e);
+        if (!placementPoint) return;
         const existingBlocks = projectState.getICFBlocks();
         const snapResult = snapBlockPosition(
-          intersection,
+          placementPoint,
           projectState.currentBlockType,
           projectState.currentCoreThickness,
           projectState.currentRotation,
@@ -480,63 +1217,639 @@ class ICFHomeDesigner {
       case 'delete':
         this.deleteElement(e);
         break;
+      case 'measure':
+        this.addMeasurePoint(e);
+        break;
     }
   }
 
-  private placeElement(position: THREE.Vector3): void {
-    if (projectState.currentCategory === 'icf') {
-      const block = projectState.addICFBlock(position);
-      this.setStatus(`Placed ${ICF_BLOCK_CATALOG[block.type].name}`);
-    }
-    // Add other categories as needed
+  // Placement target: top of the block under the cursor, else the current course plane
+  private getPlacementPoint(e: MouseEvent): THREE.Vector3 | null {
+    const hit = this.scene3D.getPlacementIntersection(
+      e,
+      this.container,
+      this.getPickableMeshes().filter(mesh => mesh.userData.type === 'icfBlock'),
+      this.getCourseElevation()
+    );
+    return hit ? hit.point : null;
   }
 
-  private selectElement(e: MouseEvent): void {
-    const meshes = projectState.getAllMeshes();
-    const intersects = this.scene3D.getIntersectedObjects(e, this.container, meshes);
+  private getCourseElevation(): number {
+    return projectState.currentCourse * ICF_BLOCK_CATALOG.standard.height;
+  }
 
-    if (intersects.length > 0) {
-      const mesh = intersects[0].object;
-      const id = mesh.userData.blockId;
-      if (id) {
-        projectState.selectedElementId = id;
-        this.setStatus(`Selected element: ${id}`);
-        this.rebuildScene();
-      }
-    } else {
-      projectState.selectedElementId = null;
-      this.rebuildScene();
+  private setCourse(course: number): void {
+    projectState.currentCourse = Math.max(0, course);
+    document.getElementById('course-value')!.textContent = `${projectState.currentCourse + 1}`;
+    this.setStatus(`Course ${projectState.currentCourse + 1} (${this.getCourseElevation()}" elevation)`);
+  }
+
+  // Path drawing - the wall run tool and the framing/plumbing/electrical/low voltage place tools
+  private isDrawingPath(): boolean {
+    return projectState.currentTool === 'wall' ||
+      (projectState.currentTool === 'place' && PATH_CATEGORIES.includes(projectState.currentCategory));
+  }
+
+  private getPathElevation(): number {
+    if (projectState.currentTool === 'wall' || projectState.currentCategory === 'framing') return 0;
+    return projectState.currentRunElevation;
+  }
+
+  private getPathColor(): number {
+    if (projectState.currentTool === 'wall') return 0x4a90d9;
+    switch (projectState.currentCategory) {
+      case 'framing':
+        return 0xd4a574;
+      case 'plumbing':
+        return new THREE.Color(PLUMBING_CATALOG[projectState.currentPipeType].color).getHex();
+      case 'electrical':
+        return new THREE.Color(ELECTRICAL_CATALOG[projectState.currentWireType].color).getHex();
+      case 'lowVoltage':
+        return new THREE.Color(LOW_VOLTAGE_CATALOG[projectState.currentLowVoltageType].color).getHex();
+      default:
+        return 0x4a90d9;
     }
   }
 
-  private deleteElement(e: MouseEvent): void {
-    const meshes = projectState.getAllMeshes();
-    const intersects = this.scene3D.getIntersectedObjects(e, this.container, meshes);
+  private constrainPathPoint(rawPosition: THREE.Vector3): THREE.Vector3 {
+    const last = this.pathPoints[this.pathPoints.length - 1] || null;
+    const point = constrainWallPoint(last, rawPosition);
+    point.y = this.getPathElevation();
+    return point;
+  }
 
-    if (intersects.length > 0) {
-      const mesh = intersects[0].object;
-      const id = mesh.userData.blockId;
-      if (id && projectState.deleteElement(id)) {
-        this.setStatus('Element deleted');
-      }
+  private addPathPoint(rawPosition: THREE.Vector3): void {
+    const last = this.pathPoints[this.pathPoints.length - 1] || null;
+    const point = this.constrainPathPoint(rawPosition);
+
+    // Clicking the first point again closes the loop (walls only, runs stay open)
+    const canClose = projectState.currentTool === 'wall' || projectState.currentCategory === 'framing';
+    const first = this.pathPoints[0];
+    if (canClose && first && this.pathPoints.length > 2 && point.distanceTo(first) < 1) {
+      this.pathPoints.push(first.clone());
+      this.finishPath();
+      return;
     }
+
+    if (last && point.distanceTo(last) < 1) return;
+
+    this.pathPoints.push(point);
+    this.updatePathPreview(point);
+    this.setStatus(`${this.pathPoints.length} point(s) - double-click or Enter to finish, Esc to cancel`);
   }
 
-  private onKeyDown(e: KeyboardEvent): void {
-    if (e.target instanceof HTMLInputElement) return;
+  private onPathMouseMove(e: MouseEvent): void {
+    const intersection = this.scene3D.getGroundIntersection(e, this.container);
+    if (!intersection) return;
 
-    switch (e.key.toLowerCase()) {
-      case 'p':
-        this.selectTool('place');
-        break;
+    const last = this.pathPoints[this.pathPoints.length - 1] || null;
+    const point = this.constrainPathPoint(intersection);
+    const length = last ? ` L: ${Math.round(point.distanceTo(last))}"` : '';
+    document.getElementById('position-display')!.textContent =
+      `X: ${point.x}" Y: ${point.y}" Z: ${point.z}"${length}`;
+
+    this.updatePathPreview(point);
+  }
+
+  private updatePathPreview(cursor: THREE.Vector3): void {
+    this.removePathPreview();
+    if (this.pathPoints.length === 0) return;
+
+    const points = [...this.pathPoints, cursor].map(p => new THREE.Vector3(p.x, p.y + 0.5, p.z));
+    this.pathPreview = new THREE.Line(
+      new THREE.BufferGeometry().setFromPoints(points),
+      new THREE.LineBasicMaterial({ color: this.getPathColor() })
+    );
+    this.scene3D.scene.add(this.pathPreview);
+  }
+
+  private removePathPreview(): void {
+    if (this.pathPreview) {
+      this.scene3D.scene.remove(this.pathPreview);
+      this.pathPreview.geometry.dispose();
+      (this.pathPreview.material as THREE.Material).dispose();
+      this.pathPreview = null;
+    }
+  }
+
+  private finishPath(): void {
+    const points = this.pathPoints;
+    this.cancelPath();
+    if (points.length < 2) return;
+
+    const layer = projectState.currentTool === 'wall'
+      ? 'icf'
+      : getCategoryLayer(projectState.currentCategory, projectState.currentPlumbingSystem);
+    if (this.isLayerLockedWithStatus(layer)) return;
+
+    if (projectState.currentTool === 'wall') {
+      this.buildWallRun(points);
+      return;
+    }
+
+    switch (projectState.currentCategory) {
+      case 'framing':
+        const walls = projectState.addFramingWalls(points);
+        this.setStatus(`Placed ${walls.length} ${FRAMING_CATALOG[projectState.currentFramingType].name} wall(s)`);
+        break;
+      case 'plumbing':
+        projectState.addPipe(points);
+        this.setStatus(`Placed ${PLUMBING_CATALOG[projectState.currentPipeType].name} run`);
+        break;
+      case 'electrical':
+        projectState.addWireRun(points);
+        this.setStatus(`Placed ${ELECTRICAL_CATALOG[projectState.currentWireType].name} run`);
+        break;
+      case 'lowVoltage':
+        projectState.addLowVoltageRun(points);
+        this.setStatus(`Placed ${LOW_VOLTAGE_CATALOG[projectState.currentLowVoltageType].name} run`);
+        break;
+    }
+  }
+
+  // Wall run tool - generate every course along the clicked corner points
+  private buildWallRun(points: THREE.Vector3[]): void {
+    try {
+      const blocks = generateWallRun(
+        points,
+        projectState.currentWallHeight,
+        projectState.currentCoreThickness,
+        this.getCourseElevation()
+      );
+      const added = projectState.addICFBlocks(blocks);
+      this.setStatus(`Placed ${added.length} blocks along wall run${this.describeOverlaps(added.map(b => b.id))}`);
+    } catch (err) {
+      this.setStatus(`Could not build wall: ${(err as Error).message}`);
+    }
+  }
+
+  private cancelPath(): void {
+    this.pathPoints = [];
+    this.removePathPreview();
+  }
+
+  private placeElement(position: THREE.Vector3): void {
+    if (this.isLayerLockedWithStatus(getCategoryLayer(projectState.currentCategory))) return;
+
+    if (projectState.currentCategory === 'icf') {
+      const overlaps = this.getPlacementOverlaps(position);
+      if (overlaps.length > 0) {
+        this.setStatus(`Cannot place block - it would overlap ${overlaps.length} block(s)`);
+        return;
+      }
+      const block = projectState.addICFBlock(position);
+      if (!block) return;
+      this.setStatus(`Placed ${ICF_BLOCK_CATALOG[block.type].name}`);
+    }
+    // Add other categories as needed
+  }
+
+  private isLayerLockedWithStatus(layer: LayerType): boolean {
+    if (!projectState.isLayerLocked(layer)) return false;
+    this.setStatus(`${LAYER_CATALOG[layer].name} layer is locked`);
+    return true;
+  }
+
+  // Meshes on visible, non-ghosted layers
+  private getPickableMeshes(): THREE.Object3D[] {
+    const layers = projectState.getLayers();
+    const isolated = projectState.isolatedLayer;
+    return projectState.getAllMeshes().filter(mesh => {
+      const layer = mesh.userData.layer as LayerType;
+      if (isolated) return layer === isolated;
+      return layers[layer].visible && !layers[layer].ghosted;
+    });
+  }
+
+  private selectElement(e: MouseEvent): void {
+    const meshes = this.getPickableMeshes();
+    const intersects = this.scene3D.getIntersectedObjects(e, this.container, meshes);
+
+    if (intersects.length > 0) {
+      const id = this.getElementId(intersects[0]);
+      if (!id) return;
+      if (e.shiftKey) {
+        projectState.toggleSelection(id);
+      } else {
+        projectState.setSelection([id]);
+      }
+      this.setStatus(`${projectState.selection.size} element(s) selected`);
+    } else if (!e.shiftKey) {
+      projectState.clearSelection();
+    }
+  }
+
+  private onBoxSelectStart(e: PointerEvent): void {
+    if (projectState.currentTool !== 'select' || !e.shiftKey || e.button !== 0) return;
+    this.boxSelectStart = { x: e.clientX, y: e.clientY };
+    this.scene3D.controls.enabled = false;
+  }
+
+  private onBoxSelectMove(e: PointerEvent): void {
+    if (!this.boxSelectStart) return;
+    const rect = this.container.getBoundingClientRect();
+    const start = this.boxSelectStart;
+    Object.assign(this.selectionBox.style, {
+      left: `${Math.min(start.x, e.clientX) - rect.left}px`,
+      top: `${Math.min(start.y, e.clientY) - rect.top}px`,
+      width: `${Math.abs(e.clientX - start.x)}px`,
+      height: `${Math.abs(e.clientY - start.y)}px`
+    });
+    this.selectionBox.classList.remove('hidden');
+  }
+
+  private onBoxSelectEnd(e: PointerEvent): void {
+    if (!this.boxSelectStart) return;
+    const start = this.boxSelectStart;
+    this.boxSelectStart = null;
+    this.scene3D.controls.enabled = true;
+    this.selectionBox.classList.add('hidden');
+
+    // A short drag is a shift-click, handled by onClick
+    if (Math.abs(e.clientX - start.x) < 4 && Math.abs(e.clientY - start.y) < 4) return;
+
+    const objects = this.scene3D.getObjectsInRect(
+      this.getPickableMeshes(), this.container, start.x, start.y, e.clientX, e.clientY
+    );
+    const ids = objects.map(object => this.getElementId(object)).filter((id): id is string => !!id);
+    projectState.setSelection(ids, true);
+    this.setStatus(`${projectState.selection.size} element(s) selected`);
+    this.suppressClick = true;
+  }
+
+  private onBlockDragStart(e: PointerEvent): void {
+    if (projectState.currentTool !== 'select' || e.shiftKey || e.button !== 0) return;
+
+    const meshes = this.getPickableMeshes().filter(mesh => mesh.userData.type === 'icfBlock');
+    const hit = this.scene3D.getIntersectedObjects(e, this.container, meshes)[0];
+    if (!hit) return;
+    const block = projectState.getICFBlocks().find(b => b.id === this.getElementId(hit));
+    if (!block || this.isLayerLockedWithStatus('icf')) return;
+
+    // Keep the point grabbed under the cursor, on the plane of the block's course
+    const grab = this.getCoursePoint(e, block.position.y);
+    if (!grab) return;
+
+    // A selected block drags the whole selection with it
+    const ids = projectState.isSelected(block.id) ? projectState.getSelectedIds() : [block.id];
+    const moving = new Set(ids);
+
+    this.blockDrag = {
+      block,
+      ids,
+      blocks: projectState.getICFBlocks().filter(b => moving.has(b.id)),
+      grabOffset: new THREE.Vector3(block.position.x - grab.x, 0, block.position.z - grab.z),
+      start: { x: e.clientX, y: e.clientY },
+      position: null,
+      ghosts: null
+    };
+    this.scene3D.controls.enabled = false;
+  }
+
+  private onBlockDragMove(e: PointerEvent): void {
+    const drag = this.blockDrag;
+    if (!drag) return;
+
+    // Small movements are still a click
+    if (!drag.position && Math.abs(e.clientX - drag.start.x) < 4 && Math.abs(e.clientY - drag.start.y) < 4) return;
+
+    const point = this.getCoursePoint(e, drag.block.position.y);
+    if (!point) return;
+
+    const { block } = drag;
+    const moving = new Set(drag.blocks.map(b => b.id));
+    const others = projectState.getICFBlocks().filter(b => !moving.has(b.id));
+    const snapResult = snapBlockPosition(
+      point.add(drag.grabOffset),
+      block.type,
+      block.coreThickness,
+      block.rotation,
+      others,
+      projectState.getProject().settings.gridSize,
+      block.mirrored
+    );
+    drag.position = snapResult.position;
+
+    // Ghosts at the new positions in place of the blocks themselves, red where they would overlap
+    if (!drag.ghosts) {
+      drag.ghosts = new THREE.Group();
+      for (const b of drag.blocks) {
+        const { x, y, z } = b.position;
+        drag.ghosts.add(blockFactory.createGhostBlock(
+          b.type, b.coreThickness, new THREE.Vector3(x, y, z), b.rotation, b.mirrored
+        ));
+        this.setElementVisible(b.id, false);
+      }
+      this.scene3D.scene.add(drag.ghosts);
+    }
+    const delta = this.getDragDelta(drag);
+    drag.ghosts.position.set(delta.x, delta.y, delta.z);
+    const colliding = this.getDragOverlaps(drag, others).length > 0;
+    drag.ghosts.children.forEach(ghost => blockFactory.setGhostColliding(ghost as THREE.Mesh, colliding));
+
+    const { x, y, z } = drag.position;
+
+    const snapIndicator = colliding ? ' [OVERLAP]' : snapResult.runningBond ? ' [BOND]' : snapResult.snappedToBlock ? ' [SNAP]' : '';
+    document.getElementById('position-display')!.textContent = `X: ${x}" Y: ${y}" Z: ${z}"${snapIndicator}`;
+  }
+
+  private onBlockDragEnd(): void {
+    const drag = this.blockDrag;
+    if (!drag) return;
+    this.blockDrag = null;
+    this.scene3D.controls.enabled = true;
+    if (!drag.position) return;
+
+    // The trailing click would otherwise change the selection
+    this.suppressClick = true;
+    this.removeDragGhosts(drag);
+
+    const delta = this.getDragDelta(drag);
+    const moved = delta.x !== 0 || delta.z !== 0;
+    const moving = new Set(drag.blocks.map(b => b.id));
+    const overlaps = moved ? this.getDragOverlaps(drag, projectState.getICFBlocks().filter(b => !moving.has(b.id))) : [];
+    if (overlaps.length > 0) {
+      this.setStatus(`Cannot move - it would overlap ${overlaps.length} block(s)`);
+    } else if (moved) {
+      const count = projectState.moveElements(drag.ids, delta);
+      const { x, z } = drag.position;
+      this.setStatus(count === 1 ? `Moved block to X: ${x}" Z: ${z}"` : `Moved ${count} element(s)`);
+    }
+  }
+
+  // Abandon a block drag, leaving the blocks where they were
+  private cancelBlockDrag(): void {
+    const drag = this.blockDrag;
+    if (!drag) return;
+    this.removeDragGhosts(drag);
+    if (drag.position) this.suppressClick = true;
+    this.blockDrag = null;
+    this.scene3D.controls.enabled = true;
+  }
+
+  // How far the grabbed block, and every block with it, has been dragged
+  private getDragDelta(drag: BlockDrag): Vector3 {
+    const target = drag.position ?? drag.block.position;
+    return {
+      x: target.x - drag.block.position.x,
+      y: target.y - drag.block.position.y,
+      z: target.z - drag.block.position.z
+    };
+  }
+
+  // Blocks in `others` the dragged blocks would overlap at their new positions
+  private getDragOverlaps(drag: BlockDrag, others: ICFBlock[]): ICFBlock[] {
+    const { x, y, z } = this.getDragDelta(drag);
+    const overlaps = new Set<ICFBlock>();
+    for (const b of drag.blocks) {
+      const position = { x: b.position.x + x, y: b.position.y + y, z: b.position.z + z };
+      findOverlappingBlocks({ ...b, position }, others).forEach(other => overlaps.add(other));
+    }
+    return [...overlaps];
+  }
+
+  // Ghost meshes share the block factory's cached geometry, so only the meshes go
+  private removeDragGhosts(drag: BlockDrag): void {
+    drag.blocks.forEach(b => this.setElementVisible(b.id, true));
+    if (drag.ghosts) this.scene3D.scene.remove(drag.ghosts);
+    drag.ghosts = null;
+  }
+
+  private getCoursePoint(e: MouseEvent, elevation: number): THREE.Vector3 | null {
+    const hit = this.scene3D.getPlacementIntersection(e, this.container, [], elevation);
+    return hit ? hit.point : null;
+  }
+
+  // Every block in the wall run(s) through the selected blocks
+  private selectWallRun(): void {
+    const blocks = projectState.getICFBlocks();
+    const ids = new Set<string>();
+    projectState.getSelectedIds()
+      .filter(id => blocks.some(b => b.id === id))
+      .forEach(id => getWallRunBlockIds(blocks, id).forEach(runId => ids.add(runId)));
+
+    if (ids.size === 0) {
+      this.setStatus('Select a block in the wall run first');
+      return;
+    }
+    projectState.setSelection(Array.from(ids), true);
+    this.setStatus(`${projectState.selection.size} element(s) selected`);
+  }
+
+  // Every block in the courses of the selected blocks, else the current course
+  private selectCourse(): void {
+    const blocks = projectState.getICFBlocks();
+    const selectedBlocks = blocks.filter(b => projectState.isSelected(b.id));
+    const elevations = selectedBlocks.length > 0
+      ? new Set(selectedBlocks.map(b => b.position.y))
+      : new Set([this.getCourseElevation()]);
+
+    const ids = Array.from(elevations).flatMap(y => getCourseBlockIds(blocks, y));
+    projectState.setSelection(ids, true);
+    this.setStatus(`${projectState.selection.size} element(s) selected`);
+  }
+
+  // Copies go one block length past the selection along X
+  private duplicateSelection(): void {
+    const selected = findElements(projectState.getProject().elements, projectState.selection);
+    const offset = getSelectionSize(selected).x + ICF_BLOCK_CATALOG.standard.length;
+    const count = projectState.copySelection({ x: offset, y: 0, z: 0 });
+    if (count > 0) this.setStatus(`Duplicated ${count} element(s)${this.describeOverlaps(projectState.selection)}`);
+  }
+
+  // Clipboard
+  private copySelection(): void {
+    const count = projectState.copyToClipboard();
+    if (count > 0) this.setStatus(`Copied ${count} element(s)`);
+  }
+
+  private cutSelection(): void {
+    const count = projectState.cutSelection();
+    if (count > 0) this.setStatus(`Cut ${count} element(s)`);
+  }
+
+  private pasteClipboard(): void {
+    if (!projectState.hasClipboard()) {
+      this.setStatus('Nothing to paste - copy a selection first');
+      return;
+    }
+    const count = projectState.pasteClipboard(this.getPasteOffset());
+    if (count > 0) {
+      this.setStatus(`Pasted ${count} element(s)${this.describeOverlaps(projectState.selection)}`);
+    } else {
+      this.setStatus('Cannot paste - target layers are locked');
+    }
+  }
+
+  /**
+   * Offset from the copied position to paste at: centered on the cursor, with the
+   * first copied block snapped to existing blocks. Off the viewport, one grid step.
+   */
+  private getPasteOffset(): Vector3 {
+    const gridSize = projectState.getProject().settings.gridSize;
+    const point = this.lastPointer ? this.getPlacementPoint(this.lastPointer) : null;
+    if (!point) return { x: gridSize, y: 0, z: gridSize };
+
+    const center = getSelectionCenter(projectState.getClipboardElements());
+    const anchor = projectState.getClipboardAnchorBlock();
+    if (!anchor) {
+      // Other elements keep their height (sill heights, run elevations)
+      return {
+        x: Math.round((point.x - center.x) / gridSize) * gridSize,
+        y: 0,
+        z: Math.round((point.z - center.z) / gridSize) * gridSize
+      };
+    }
+
+    const raw = new THREE.Vector3(
+      point.x + anchor.position.x - center.x,
+      point.y + anchor.position.y - center.y,
+      point.z + anchor.position.z - center.z
+    );
+    const snapped = snapBlockPosition(
+      raw, anchor.type, anchor.coreThickness, anchor.rotation, projectState.getICFBlocks(), gridSize, anchor.mirrored
+    ).position;
+    return {
+      x: snapped.x - anchor.position.x,
+      y: snapped.y - anchor.position.y,
+      z: snapped.z - anchor.position.z
+    };
+  }
+
+  // Repeat the selection along a direction, optionally in rows to the side
+  private arraySelection(): void {
+    const getNumber = (id: string) => parseFloat((document.getElementById(id) as HTMLInputElement).value);
+    const count = Math.max(1, Math.floor(getNumber('array-count')) || 1);
+    const rows = Math.max(1, Math.floor(getNumber('array-rows')) || 1);
+    const spacing = getNumber('array-spacing') || 0;
+    const rowSpacing = getNumber('array-row-spacing') || 0;
+    const direction = (document.getElementById('array-direction') as HTMLSelectElement).value;
+
+    const sign = direction.startsWith('-') ? -1 : 1;
+    const alongX = direction.endsWith('x');
+    const columnStep = alongX ? { x: sign * spacing, y: 0, z: 0 } : { x: 0, y: 0, z: sign * spacing };
+    const rowStep = alongX ? { x: 0, y: 0, z: rowSpacing } : { x: rowSpacing, y: 0, z: 0 };
+
+    const added = projectState.arraySelection(count, columnStep, rows, rowStep);
+    if (added > 0) {
+      this.setStatus(`Arrayed selection ${count} × ${rows} (${added} element(s) added)${this.describeOverlaps(projectState.selection)}`);
+    } else {
+      this.setStatus('Select elements and a count of 2 or more to create an array');
+    }
+  }
+
+  private deleteSelection(): void {
+    const requested = projectState.selection.size;
+    const count = projectState.deleteSelection();
+    if (count < requested) {
+      this.setStatus(`Deleted ${count} element(s) - ${requested - count} on locked layers`);
+    } else if (count > 0) {
+      this.setStatus(`Deleted ${count} element(s)`);
+    }
+  }
+
+  // Angle turned by each rotate, any number of degrees
+  private getRotationStep(): number {
+    const value = parseFloat((document.getElementById('rotation-step') as HTMLInputElement).value);
+    return Number.isFinite(value) && value !== 0 ? value : 90;
+  }
+
+  private nudgeSelection(delta: { x: number; y: number; z: number }): void {
+    if (projectState.moveSelection(delta) > 0) {
+      this.setStatus(`Moved selection ${delta.x}", ${delta.y}", ${delta.z}"${this.describeOverlaps(projectState.selection)}`);
+    }
+  }
+
+  private deleteElement(e: MouseEvent): void {
+    const meshes = this.getPickableMeshes();
+    const intersects = this.scene3D.getIntersectedObjects(e, this.container, meshes);
+
+    if (intersects.length > 0) {
+      const id = this.getElementId(intersects[0]);
+      if (id) this.deleteById(id);
+    }
+  }
+
+  private deleteById(id: string): void {
+    if (projectState.deleteElement(id)) {
+      this.setStatus('Element deleted');
+    } else if (projectState.isElementLocked(id)) {
+      this.setStatus('Element is on a locked layer');
+    }
+  }
+
+  // Hits may land on a child (edges, window frame parts); walk up to the registered object
+  // Element under a raycast hit: instanced blocks keep an id per instance
+  private getElementId(hit: { object: THREE.Object3D; instanceId?: number }): string | null {
+    if (hit.instanceId !== undefined && hit.object.userData.instanceIds) {
+      return hit.object.userData.instanceIds[hit.instanceId] ?? null;
+    }
+    let current: THREE.Object3D | null = hit.object;
+    while (current) {
+      const id = current.userData.blockId || current.userData.elementId;
+      if (id) return id;
+      current = current.parent;
+    }
+    return null;
+  }
+
+  private onKeyDown(e: KeyboardEvent): void {
+    if (e.target instanceof HTMLInputElement) return;
+
+    // Clipboard shortcuts take priority over the single-key tools
+    if (e.ctrlKey || e.metaKey) {
+      const key = e.key.toLowerCase();
+      if (key === 'c' || key === 'x' || key === 'v') {
+        e.preventDefault();
+        if (key === 'c') this.copySelection();
+        if (key === 'x') this.cutSelection();
+        if (key === 'v') this.pasteClipboard();
+        return;
+      }
+    }
+
+    switch (e.key.toLowerCase()) {
+      case 'p':
+        this.selectTool('place');
+        break;
       case 'v':
         this.selectTool('select');
         break;
       case 'x':
         this.selectTool('delete');
         break;
+      case 'w':
+        this.selectTool('wall');
+        break;
+      case 'm':
+        this.selectTool('measure');
+        break;
+      case '1':
+      case '2':
+      case '3':
+      case '4':
+        this.setViewMode((['perspective', 'plan', 'front', 'side'] as ViewMode[])[parseInt(e.key) - 1]);
+        break;
+      case 'f':
+        this.zoomToFit();
+        break;
+      case '[':
+        this.setCourse(projectState.currentCourse - 1);
+        break;
+      case ']':
+        this.setCourse(projectState.currentCourse + 1);
+        break;
+      case 'enter':
+        if (this.isDrawingPath()) this.finishPath();
+        if (projectState.currentTool === 'measure') this.finishMeasurement();
+        break;
+      case 'escape':
+        this.cancelBlockDrag();
+        this.cancelPath();
+        this.clearMeasurement();
+        break;
       case 'r':
-        projectState.rotateSelection();
+        projectState.rotateSelection(this.getRotationStep());
         this.updateGhost();
         break;
       case 'z':
@@ -550,59 +1863,586 @@ class ICFHomeDesigner {
         break;
       case 'delete':
       case 'backspace':
-        if (projectState.selectedElementId) {
-          projectState.deleteElement(projectState.selectedElementId);
-          projectState.selectedElementId = null;
+        this.deleteSelection();
+        break;
+      case 'arrowleft':
+      case 'arrowright':
+      case 'arrowup':
+      case 'arrowdown': {
+        if (projectState.selection.size === 0) break;
+        e.preventDefault();
+        const step = e.shiftKey ? 1 : projectState.getProject().settings.gridSize;
+        const key = e.key.toLowerCase();
+        this.nudgeSelection({
+          x: key === 'arrowleft' ? -step : key === 'arrowright' ? step : 0,
+          y: 0,
+          z: key === 'arrowup' ? -step : key === 'arrowdown' ? step : 0
+        });
+        break;
+      }
+      case 'pageup':
+      case 'pagedown':
+        if (projectState.selection.size === 0) break;
+        e.preventDefault();
+        const courseHeight = ICF_BLOCK_CATALOG.standard.height;
+        this.nudgeSelection({ x: 0, y: e.key.toLowerCase() === 'pageup' ? courseHeight : -courseHeight, z: 0 });
+        break;
+    }
+  }
+
+  // Measure tool - picks surfaces of any visible element, snapping to block corners and faces
+  private getMeasurePoint(e: MouseEvent): { point: THREE.Vector3; snap: string | null } | null {
+    const hit = this.scene3D.getIntersectedObjects(e, this.container, this.getPickableMeshes())[0];
+    const point = hit ? hit.point : this.scene3D.getGroundIntersection(e, this.container);
+    if (!point) return null;
+    return snapMeasurePoint(point, projectState.getICFBlocks());
+  }
+
+  private addMeasurePoint(e: MouseEvent): void {
+    const picked = this.getMeasurePoint(e);
+    if (!picked) return;
+    const { point } = picked;
+    const mode = projectState.currentMeasureMode;
+
+    // A click after a finished measurement starts a new one
+    if (this.measureComplete) {
+      this.measurePoints = [];
+      this.measureComplete = false;
+    }
+
+    const first = this.measurePoints[0];
+    const last = this.measurePoints[this.measurePoints.length - 1];
+    if (mode === 'area' && first && this.measurePoints.length > 2 && point.distanceTo(first) < MEASURE_SNAP_DISTANCE) {
+      this.finishMeasurement();
+      return;
+    }
+    if (last && point.distanceTo(last) < 0.01) return;
+
+    this.measurePoints.push(point);
+    if (mode === 'distance' && this.measurePoints.length === 2) {
+      this.finishMeasurement();
+      return;
+    }
+    this.updateMeasurePreview(point);
+  }
+
+  private onMeasureMouseMove(e: MouseEvent): void {
+    const picked = this.getMeasurePoint(e);
+    if (!picked) return;
+
+    const { x, y, z } = picked.point;
+    const unit = projectState.getProject().settings.gridUnit;
+    const snap = picked.snap ? ` [${picked.snap.toUpperCase()}]` : '';
+    document.getElementById('position-display')!.textContent =
+      `X: ${formatLength(x, unit)} Y: ${formatLength(y, unit)} Z: ${formatLength(z, unit)}${snap}`;
+
+    if (!this.measureComplete && this.measurePoints.length > 0) {
+      this.updateMeasurePreview(picked.point);
+    }
+  }
+
+  private finishMeasurement(): void {
+    const minPoints = projectState.currentMeasureMode === 'area' ? 3 : 2;
+    if (this.measureComplete || this.measurePoints.length < minPoints) return;
+
+    this.measureComplete = true;
+    this.updateMeasurePreview();
+
+    const unit = projectState.getProject().settings.gridUnit;
+    const result = projectState.currentMeasureMode === 'area'
+      ? formatArea(getPolygonArea(this.measurePoints), unit)
+      : formatLength(getPathLength(this.measurePoints), unit);
+    this.setStatus(`Measured ${result} - Pin Measurement to keep it`);
+  }
+
+  // Current measurement, with a live segment to the cursor while still measuring
+  private updateMeasurePreview(cursor?: THREE.Vector3): void {
+    if (this.measurePreview) {
+      this.scene3D.scene.remove(this.measurePreview);
+      measureRenderer.dispose(this.measurePreview);
+      this.measurePreview = null;
+    }
+    if (this.measurePoints.length === 0) return;
+
+    const points = cursor && !this.measureComplete && !cursor.equals(this.measurePoints[this.measurePoints.length - 1])
+      ? [...this.measurePoints, cursor]
+      : this.measurePoints;
+    this.measurePreview = measureRenderer.createMeasurement(
+      projectState.currentMeasureMode,
+      points,
+      projectState.getProject().settings.gridUnit
+    );
+    this.scene3D.scene.add(this.measurePreview);
+  }
+
+  private clearMeasurement(): void {
+    this.measurePoints = [];
+    this.measureComplete = false;
+    this.updateMeasurePreview();
+  }
+
+  private pinMeasurement(): void {
+    if (!this.measureComplete) {
+      this.setStatus('Finish a measurement before pinning it');
+      return;
+    }
+    projectState.addAnnotation(projectState.currentMeasureMode, this.measurePoints);
+    this.clearMeasurement();
+    this.setStatus('Measurement pinned');
+  }
+
+  private updateAnnotationList(): void {
+    const project = projectState.getProject();
+    const unit = project.settings.gridUnit;
+    const modeNames: Record<MeasurementKind, string> = { distance: 'Distance', chain: 'Chain', area: 'Area' };
+    (document.getElementById('measure-unit') as HTMLSelectElement).value = unit;
+
+    const list = document.getElementById('annotation-list')!;
+    list.innerHTML = '';
+    for (const annotation of project.annotations) {
+      const value = annotation.kind === 'area'
+        ? formatArea(getPolygonArea(annotation.points), unit)
+        : formatLength(getPathLength(annotation.points), unit);
+      const row = document.createElement('div');
+      row.className = 'cost-item';
+      row.innerHTML = `
+        <span class="annotation-label"></span>
+        <span>${value} <button class="layer-btn" title="Remove">×</button></span>
+      `;
+      // Labels are user text
+      row.querySelector('.annotation-label')!.textContent = annotation.label || modeNames[annotation.kind];
+      row.querySelector('button')!.dataset.annotation = annotation.id;
+      list.appendChild(row);
+    }
+  }
+
+  // Redrawn only when areas or their element counts change, so an open colour picker isn't replaced
+  private updateAreaList(): void {
+    const areas = projectState.getAreas();
+    const counts = areas.map(area => projectState.getAreaElements(area.id).length);
+    const key = JSON.stringify([areas, counts]);
+    if (key === this.areaListKey) return;
+    this.areaListKey = key;
+
+    const list = document.getElementById('area-list')!;
+    list.innerHTML = '';
+    areas.forEach((area, i) => {
+      const row = document.createElement('div');
+      row.className = 'area-row';
+      row.dataset.area = area.id;
+      row.innerHTML = `
+        <input type="color" class="area-color" title="Area colour">
+        <span class="area-name" title="Select the area's elements"></span>
+        <span class="area-count">${counts[i]}</span>
+        <button class="layer-btn" data-area-action="assign" title="Add selection to area">+</button>
+        <button class="layer-btn" data-area-action="rename" title="Rename">✎</button>
+        <button class="layer-btn" data-area-action="delete" title="Delete area">✕</button>
+      `;
+      // Names and colours come from the project file
+      (row.querySelector('.area-color') as HTMLInputElement).value = area.color;
+      row.querySelector('.area-name')!.textContent = area.name;
+      list.appendChild(row);
+    });
+  }
+
+  private onAreaAction(e: MouseEvent): void {
+    const target = e.target as HTMLElement;
+    const id = target.closest<HTMLElement>('[data-area]')?.dataset.area;
+    const area = projectState.getAreas().find(a => a.id === id);
+    if (!area) return;
+
+    if (target.classList.contains('area-name')) {
+      const ids = projectState.getAreaElements(area.id).map(el => el.id);
+      projectState.setSelection(ids);
+      this.setStatus(`Selected ${ids.length} element(s) in "${area.name}"`);
+      return;
+    }
+
+    switch (target.dataset.areaAction) {
+      case 'assign': {
+        const count = projectState.assignSelectionToArea(area.id);
+        this.setStatus(count > 0
+          ? `Added ${count} element(s) to "${area.name}"`
+          : 'Select blocks or framing walls to add to the area');
+        break;
+      }
+      case 'rename': {
+        const name = prompt('Rename area:', area.name)?.trim();
+        if (name && name !== area.name) projectState.updateArea(area.id, { name });
+        break;
+      }
+      case 'delete':
+        if (confirm(`Delete area "${area.name}"? Its elements are kept, in no area.`)) {
+          projectState.deleteArea(area.id);
+          this.setStatus(`Deleted area "${area.name}"`);
         }
         break;
     }
   }
 
-  private selectTool(tool: string): void {
+  /**
+   * Warning for a status message when any of the given blocks overlap other blocks.
+   * Edits that add or move many blocks are allowed, and warn rather than refuse.
+   */
+  private describeOverlaps(ids: Iterable<string>): string {
+    const blocks = projectState.getICFBlocks();
+    const idSet = new Set(ids);
+    const count = blocks.filter(b => idSet.has(b.id) && findOverlappingBlocks(b, blocks).length > 0).length;
+    return count > 0 ? ` - ${count} block(s) overlap others (see Find Overlaps)` : '';
+  }
+
+  // Report every pair of overlapping blocks and select them
+  private findOverlaps(): void {
+    const overlaps = findAllOverlaps(projectState.getICFBlocks());
+    this.updateOverlapReport(overlaps);
+    if (overlaps.length === 0) {
+      this.setStatus('No overlapping blocks');
+      return;
+    }
+    projectState.setSelection(overlaps.flatMap(overlap => [overlap.a.id, overlap.b.id]));
+    this.setStatus(`Found ${overlaps.length} overlapping block pair(s) - click a pair to select it`);
+  }
+
+  private updateOverlapReport(overlaps: BlockOverlap[]): void {
+    this.overlapReport = overlaps;
+    const list = document.getElementById('overlap-report')!;
+    if (overlaps.length === 0) {
+      list.innerHTML = '<div class="wall-hint">No overlapping blocks</div>';
+      return;
+    }
+    list.innerHTML = overlaps.map((overlap, i) => {
+      const { x, y, z } = overlap.a.position;
+      return `
+        <div class="check-item" data-overlap="${i}" title="Select both blocks">
+          ${ICF_BLOCK_CATALOG[overlap.a.type].name} × ${ICF_BLOCK_CATALOG[overlap.b.type].name}
+          <span class="check-detail">${Math.round(x)}", ${Math.round(y)}", ${Math.round(z)}"</span>
+        </div>
+      `;
+    }).join('');
+  }
+
+  private validateWalls(): void {
+    const issues = validateWalls(projectState.getProject());
+    this.updateWallReport(issues);
+    this.setStatus(issues.length === 0
+      ? 'No wall issues found'
+      : `Found ${issues.length} wall issue(s) - click one to select and zoom to it`);
+  }
+
+  private updateWallReport(issues: WallIssue[]): void {
+    this.wallIssues = issues;
+    const list = document.getElementById('wall-report')!;
+    if (issues.length === 0) {
+      list.innerHTML = '<div class="wall-hint">No wall issues found</div>';
+      return;
+    }
+    list.innerHTML = issues.map((issue, i) => `
+      <div class="check-item" data-wall-issue="${i}" title="Select and zoom to the blocks">
+        <span><strong>${WALL_ISSUE_LABELS[issue.kind]}</strong> ${issue.message}</span>
+      </div>
+    `).join('');
+  }
+
+  // Select elements from a check and bring them into view
+  private showElements(ids: string[], box?: { min: Vector3; max: Vector3 }): void {
+    projectState.setSelection(ids);
+    if (box) {
+      this.scene3D.focusOn(new THREE.Box3(
+        new THREE.Vector3(box.min.x, box.min.y, box.min.z),
+        new THREE.Vector3(box.max.x, box.max.y, box.max.z)
+      ));
+    }
+  }
+
+  // Steps after the current one are undone and shown dimmed until something new is recorded
+  private updateHistoryList(): void {
+    const position = projectState.getHistoryPosition();
+    const list = document.getElementById('history-list')!;
+    list.innerHTML = projectState.getHistoryLabels().map((label, step) => `
+      <div class="history-step${step === position ? ' current' : ''}${step > position ? ' undone' : ''}" data-history-step="${step}">
+        ${label}
+      </div>
+    `).join('');
+
+    // Keep the current step in view without scrolling the panel around it
+    const current = list.querySelector<HTMLElement>('.current');
+    if (current && (current.offsetTop < list.scrollTop || current.offsetTop + current.offsetHeight > list.scrollTop + list.clientHeight)) {
+      list.scrollTop = current.offsetTop - list.clientHeight + current.offsetHeight;
+    }
+  }
+
+  private selectTool(tool: ToolMode): void {
     document.querySelectorAll('.tool-btn').forEach(b => b.classList.remove('active'));
     document.querySelector(`[data-tool="${tool}"]`)?.classList.add('active');
-    projectState.currentTool = tool as any;
+    projectState.currentTool = tool;
+    document.getElementById('wall-options')?.classList.toggle('hidden', tool !== 'wall');
+    document.getElementById('measure-options')?.classList.toggle('hidden', tool !== 'measure');
+    document.getElementById('selection-options')?.classList.toggle('hidden', tool !== 'select');
+    this.cancelPath();
+    this.clearMeasurement();
     this.updateGhost();
   }
 
-  private onProjectChange(): void {
-    this.rebuildScene();
-    this.updateUI();
+  private onProjectChange(change: ProjectChange): void {
+    this.updateScene(change);
+    this.updateUI(change);
   }
 
+  // Rebuild every element mesh and pinned measurement
   private rebuildScene(): void {
-    // Remove all existing block meshes
-    projectState.getAllMeshes().forEach(mesh => {
-      this.scene3D.scene.remove(mesh);
-    });
+    blockFactory.clearInstances();
+    projectState.getAllMeshes().forEach(mesh => this.releaseMesh(mesh));
+    projectState.clearMeshes();
 
-    // Clear mesh map
-    const blocks = projectState.getICFBlocks();
+    const cuts = getBlockCuts(projectState.getProject());
+    this.blockCutKeys = getCutKeys(cuts);
+    this.buildElementMeshes(cuts);
 
-    // Rebuild ICF blocks
-    if (projectState.layers.icf) {
-      blocks.forEach(block => {
-        const isSelected = block.id === projectState.selectedElementId;
-        const mesh = blockFactory.createBlock(block, false, isSelected);
-        this.scene3D.scene.add(mesh);
-        projectState.registerMesh(block.id, mesh);
+    this.scene3D.applyLayerSettings(projectState.getLayers(), projectState.isolatedLayer);
+    this.rebuildAnnotations();
+  }
+
+  /**
+   * Replace only the meshes of elements a change touched. Blocks whose opening
+   * cuts changed and openings whose wall changed are rebuilt with them.
+   */
+  private updateScene(change: ProjectChange): void {
+    if (change.reset) {
+      this.rebuildScene();
+      return;
+    }
+
+    const project = projectState.getProject();
+    const ids = new Set([...change.added, ...change.removed, ...change.updated]);
+
+    const cuts = getBlockCuts(project);
+    const cutKeys = getCutKeys(cuts);
+    for (const id of new Set([...cutKeys.keys(), ...this.blockCutKeys.keys()])) {
+      if (cutKeys.get(id) !== this.blockCutKeys.get(id)) ids.add(id);
+    }
+    this.blockCutKeys = cutKeys;
+
+    const { windows, doors } = project.elements;
+    [...windows, ...doors].forEach(opening => {
+      if (opening.wallId && ids.has(opening.wallId)) ids.add(opening.id);
+    });
+
+    if (ids.size > 0) {
+      ids.forEach(id => {
+        const mesh = projectState.getMesh(id);
+        if (!mesh) return;
+        if (!blockFactory.removeInstance(id)) this.releaseMesh(mesh);
+        projectState.unregisterMesh(id);
       });
+      this.buildElementMeshes(cuts, ids);
+    }
+
+    this.scene3D.applyLayerSettings(projectState.getLayers(), projectState.isolatedLayer);
+    if (change.annotations) this.rebuildAnnotations();
+  }
+
+  // Show or hide one element's mesh, or its instance in a block batch
+  private setElementVisible(id: string, visible: boolean): void {
+    if (blockFactory.isInstanced(id)) {
+      blockFactory.setInstanceVisible(id, visible);
+      return;
     }
+    const mesh = projectState.getMesh(id);
+    if (mesh) mesh.visible = visible;
+  }
 
-    // Add other element types based on layer visibility...
+  private releaseMesh(mesh: THREE.Object3D): void {
+    mesh.removeFromParent();
+    if (mesh.userData.elementId) elementRenderer.release(mesh);
+    else blockFactory.release(mesh);
   }
 
-  private updateUI(): void {
+  // Build and register meshes for every element, or only those in `only`
+  private buildElementMeshes(cuts: Map<string, BlockCut[]>, only?: Set<string>): void {
+    const project = projectState.getProject();
+    const elements = project.elements;
+    const isSelected = (id: string) => projectState.isSelected(id);
+    const add = (layer: LayerType, id: string, create: () => THREE.Object3D) => {
+      if (only && !only.has(id)) return;
+      const mesh = create();
+      mesh.userData.layer = layer;
+      if (!mesh.parent) this.scene3D.getLayerGroup(layer).add(mesh);
+      projectState.registerMesh(id, mesh);
+    };
+
+    // Every element is built; layer groups control what is shown.
+    // Uncut blocks are instances in a batch per type and core; blocks with openings are unique meshes.
+    const icfGroup = this.scene3D.getLayerGroup('icf');
+    const areaColors = new Map(project.areas.map(area => [area.id, area.color]));
+    elements.icfBlocks.forEach(block => {
+      const tint = block.areaId ? areaColors.get(block.areaId) : undefined;
+      const blockCuts = cuts.get(block.id);
+      add('icf', block.id, () => blockCuts
+        ? blockFactory.createBlock(block, false, isSelected(block.id), blockCuts, tint)
+        : blockFactory.addInstance(block, icfGroup, isSelected(block.id), tint));
+    });
+
+    elements.framing.forEach(wall => {
+      const tint = wall.areaId ? areaColors.get(wall.areaId) : undefined;
+      add('framing', wall.id, () => elementRenderer.createFramingWall(wall, isSelected(wall.id), tint));
+    });
+
+    elements.plumbing.forEach(pipe => {
+      add(PIPE_SYSTEM_LAYERS[pipe.system], pipe.id, () => elementRenderer.createPipe(pipe, isSelected(pipe.id)));
+    });
+
+    const { wires, outlets, switches, panels } = elements.electrical;
+    wires.forEach(wire => add('electrical', wire.id, () => elementRenderer.createWireRun(wire, isSelected(wire.id))));
+    outlets.forEach(outlet => add('electrical', outlet.id, () => elementRenderer.createOutlet(outlet, isSelected(outlet.id))));
+    switches.forEach(sw => add('electrical', sw.id, () => elementRenderer.createSwitch(sw, isSelected(sw.id))));
+    panels.forEach(panel => add('electrical', panel.id, () => elementRenderer.createPanel(panel, isSelected(panel.id))));
+
+    const { runs, drops } = elements.lowVoltage;
+    runs.forEach(run => add('lowVoltage', run.id, () => elementRenderer.createLowVoltageRun(run, isSelected(run.id))));
+    drops.forEach(drop => add('lowVoltage', drop.id, () => elementRenderer.createNetworkDrop(drop, isSelected(drop.id))));
+
+    elements.equipment.forEach(equipment => {
+      add(getEquipmentLayer(equipment.type), equipment.id, () => elementRenderer.createEquipment(equipment, isSelected(equipment.id)));
+    });
+
+    elements.cabinets.forEach(cabinet => {
+      add('cabinets', cabinet.id, () => elementRenderer.createCabinet(cabinet, isSelected(cabinet.id)));
+    });
+
+    // Bucks run through the full width of the wall the opening is set in
+    const blocksById = new Map(elements.icfBlocks.map(block => [block.id, block]));
+    const getWallWidth = (wallId?: string): number | undefined => {
+      const block = wallId ? blocksById.get(wallId) : undefined;
+      return block ? ICF_BLOCK_CATALOG[block.type].getWidth(block.coreThickness) : undefined;
+    };
+    elements.windows.forEach(win => {
+      add('windows', win.id, () => elementRenderer.createWindow(win, isSelected(win.id), getWallWidth(win.wallId)));
+    });
+    elements.doors.forEach(door => {
+      add('windows', door.id, () => elementRenderer.createDoor(door, isSelected(door.id), getWallWidth(door.wallId)));
+    });
+  }
+
+  // Pinned measurements
+  private rebuildAnnotations(): void {
+    const annotations = this.scene3D.annotationGroup;
+    [...annotations.children].forEach(child => {
+      annotations.remove(child);
+      measureRenderer.dispose(child);
+    });
+    const unit = projectState.getProject().settings.gridUnit;
+    projectState.getProject().annotations.forEach(annotation => {
+      annotations.add(measureRenderer.createMeasurement(annotation.kind, annotation.points, unit, true, annotation.label));
+    });
+  }
+
+  private setViewMode(mode: ViewMode): void {
+    this.scene3D.setViewMode(mode);
+    document.querySelectorAll<HTMLElement>('.view-btn').forEach(btn => {
+      btn.classList.toggle('active', btn.dataset.view === mode);
+    });
+    this.updatePlan();
+    const names: Record<ViewMode, string> = {
+      perspective: '3D view',
+      plan: 'Plan view - right-drag to pan, scroll to zoom',
+      front: 'Front elevation - looking along -Z',
+      side: 'Side elevation - looking along -X'
+    };
+    this.setStatus(names[mode]);
+  }
+
+  // Bring every element into view
+  private zoomToFit(): void {
+    const box = new THREE.Box3();
+    projectState.getAllMeshes().forEach(mesh => box.expandByObject(mesh));
+    this.scene3D.focusOn(box);
+  }
+
+  // Wall outlines and dimensions for plan view, rebuilt only while it is shown and the walls change
+  private updatePlan(): void {
+    if (this.scene3D.viewMode !== 'plan') return;
+    const project = projectState.getProject();
+    const unit = project.settings.gridUnit;
+    const key = JSON.stringify([unit, project.elements.icfBlocks, project.elements.framing]);
+    if (key === this.planKey) return;
+    this.planKey = key;
+
+    const group = this.scene3D.planGroup;
+    [...group.children].forEach(child => {
+      group.remove(child);
+      planRenderer.dispose(child);
+    });
+    group.add(planRenderer.createPlan(project, unit));
+  }
+
+  // Rooms enclosed by the walls - overlays are rebuilt only when a room or the unit changes
+  private updateRooms(): void {
+    const project = projectState.getProject();
+    const unit = project.settings.gridUnit;
+    this.rooms = detectRooms(project);
+    const { rooms, conditionedArea, grossArea } = this.rooms;
+
+    document.getElementById('stat-rooms')!.textContent = rooms.length.toString();
+    document.getElementById('stat-area')!.textContent = formatArea(conditionedArea, unit);
+    document.getElementById('stat-gross-area')!.textContent = formatArea(grossArea, unit);
+
+    const key = JSON.stringify([unit, rooms.map(room => [room.interior, room.floor, room.name])]);
+    if (key === this.roomsKey) return;
+    this.roomsKey = key;
+
+    const group = this.scene3D.roomGroup;
+    [...group.children].forEach(child => {
+      group.remove(child);
+      measureRenderer.dispose(child);
+    });
+    rooms.forEach(room => group.add(measureRenderer.createRoom(room, unit)));
+
+    document.getElementById('room-list')!.innerHTML = rooms.map(room => `
+      <div class="check-item" data-room="${room.id}" title="Perimeter ${formatLength(room.perimeter, unit)}, height ${formatLength(room.height, unit)}, gross ${formatArea(room.exteriorArea, unit)} - click to zoom to it">
+        ${room.name}
+        <span class="check-detail">${formatArea(room.interiorArea, unit)} · ${formatVolume(room.volume, unit)}</span>
+      </div>
+    `).join('');
+  }
+
+  // Without a change everything is refreshed
+  private updateUI(change?: ProjectChange): void {
     const project = projectState.getProject();
     const blocks = projectState.getICFBlocks();
 
-    // Stats
-    document.getElementById('stat-blocks')!.textContent = blocks.length.toString();
-    const sqFt = Math.round(blocks.length * 5.3);
-    document.getElementById('stat-area')!.textContent = `${sqFt} sq ft`;
+    // Totals, rooms and reports only depend on the project data, so selecting or
+    // changing layer display leaves them alone
+    if (!change || change.reset || change.data) {
+      // Stats - blocks entirely inside an opening are never installed
+      document.getElementById('stat-blocks')!.textContent = getInstalledBlocks(project).length.toString();
+      this.updateRooms();
+      this.updatePlan();
 
-    // Costs
-    this.updateCosts();
+      // Costs
+      this.updateCosts();
+      this.updateAreaList();
+      if (this.overlapReport) this.updateOverlapReport(findAllOverlaps(blocks));
+      if (this.wallIssues) this.updateWallReport(validateWalls(project));
+    }
+    if (!change || change.reset || change.annotations) this.updateAnnotationList();
+    this.updateLayerPanel();
+    this.updateHistoryList();
+    document.getElementById('selection-count')!.textContent = `${projectState.selection.size}`;
+    document.getElementById('project-name')!.textContent = project.name;
+  }
+
+  private updateLayerPanel(): void {
+    const layers = projectState.getLayers();
+    document.querySelectorAll<HTMLElement>('.layer-row').forEach(row => {
+      const type = row.dataset.layer as LayerType;
+      const settings = layers[type];
+      row.querySelector<HTMLInputElement>('[data-layer-visible]')!.checked = settings.visible;
+      row.querySelector<HTMLInputElement>('.layer-opacity')!.value = `${Math.round(settings.opacity * 100)}`;
+      row.querySelector('[data-layer-action="isolate"]')!.classList.toggle('active', projectState.isolatedLayer === type);
+      row.querySelector('[data-layer-action="ghost"]')!.classList.toggle('active', settings.ghosted);
+      row.querySelector('[data-layer-action="lock"]')!.classList.toggle('active', settings.locked);
+      row.classList.toggle('isolated-out', !!projectState.isolatedLayer && projectState.isolatedLayer !== type);
+    });
   }
 
   private updateCosts(): void {
@@ -624,7 +2464,129 @@ class ICFHomeDesigner {
       breakdown.appendChild(catDiv);
     });
 
+    // Settings can change by undo as well as by editing
+    (document.getElementById('cost-multiplier') as HTMLInputElement).value = `${project.settings.costMultiplier}`;
     document.getElementById('cost-total')!.textContent = formatCurrency(costs.grandTotal);
+    const floorSqFt = this.rooms.conditionedArea / 144;
+    document.getElementById('stat-cost-rate')!.textContent = floorSqFt > 0 ? formatCurrency(costs.grandTotal / floorSqFt) : '-';
+
+    // Per-area totals, so parts of the build (e.g. a garage) can be quoted separately
+    const areaCosts = document.getElementById('area-costs')!;
+    areaCosts.innerHTML = costs.areas.length > 0 ? '<div class="wall-hint">By area</div>' : '';
+    costs.areas.forEach(area => {
+      const row = document.createElement('div');
+      row.className = 'cost-category-header';
+      row.innerHTML = `
+        <span><span class="area-swatch"></span><span class="area-cost-name"></span></span>
+        <span>${formatCurrency(area.total)}</span>
+      `;
+      (row.querySelector('.area-swatch') as HTMLElement).style.background = area.color || 'transparent';
+      row.querySelector('.area-cost-name')!.textContent = area.name;
+      areaCosts.appendChild(row);
+    });
+
+    this.updateConcrete();
+    this.updateRebar();
+  }
+
+  private getRebarRuleCore(): ICFCoreThickness {
+    return parseInt((document.getElementById('rebar-core') as HTMLSelectElement).value) as ICFCoreThickness;
+  }
+
+  private updateRebar(): void {
+    const project = projectState.getProject();
+    const rule = getRebarRule(project, this.getRebarRuleCore());
+    (document.getElementById('rebar-vertical') as HTMLInputElement).value = `${rule.verticalSpacing}`;
+    (document.getElementById('rebar-horizontal') as HTMLInputElement).value = `${rule.horizontalEveryCourses}`;
+
+    const schedule = calculateRebarSchedule(project);
+    const summary = document.getElementById('rebar-summary')!;
+    summary.innerHTML = '';
+    Object.entries(schedule.totalLengthBySize).forEach(([size, inches]) => {
+      const row = document.createElement('div');
+      row.className = 'cost-category-header';
+      row.innerHTML = `<span>${size} bar</span><span>${Math.ceil(inches! / 12)} lf</span>`;
+      summary.appendChild(row);
+    });
+  }
+
+  private printRebarCutList(): void {
+    const project = projectState.getProject();
+    const schedule = calculateRebarSchedule(project);
+    if (schedule.cuts.length === 0) {
+      this.setStatus('No ICF walls to schedule rebar for');
+      return;
+    }
+
+    const rows = schedule.cuts.map(cut => `
+      <tr>
+        <td>${cut.mark}</td>
+        <td>${cut.barSize}</td>
+        <td>${cut.use === 'corner' ? 'Corner L' : cut.use === 'vertical' ? 'Vertical' : 'Horizontal'}</td>
+        <td>${cut.count}</td>
+        <td>${formatBarLength(cut.length)}</td>
+        <td>${Math.ceil(cut.totalLength / 12)}</td>
+      </tr>`).join('');
+
+    const cutList = window.open('', '_blank');
+    if (!cutList) {
+      this.setStatus('Allow pop-ups to print the cut list');
+      return;
+    }
+    cutList.document.write(`
+      <html>
+        <head>
+          <title></title>
+          <style>
+            body { font-family: sans-serif; padding: 24px; }
+            table { border-collapse: collapse; width: 100%; }
+            th, td { border: 1px solid #999; padding: 6px 10px; text-align: left; }
+            th { background: #eee; }
+          </style>
+        </head>
+        <body>
+          <h2></h2>
+          <p>${schedule.runs.length} wall runs</p>
+          <table>
+            <tr><th>Mark</th><th>Size</th><th>Use</th><th>Qty</th><th>Cut Length</th><th>Total (lf)</th></tr>
+            ${rows}
+          </table>
+        </body>
+      </html>
+    `);
+    cutList.document.close();
+
+    // The project name is user text - set it as text, never as markup
+    const title = `${project.name} - Rebar Cut List`;
+    cutList.document.title = title;
+    cutList.document.querySelector('h2')!.textContent = title;
+    cutList.print();
+  }
+
+  private updateConcrete(): void {
+    const project = projectState.getProject();
+    const takeoff = calculateConcreteTakeoff(project);
+    const truckCapacity = ADDITIONAL_MATERIALS.concreteTruckCapacity;
+
+    (document.getElementById('concrete-waste') as HTMLInputElement).value =
+      `${Math.round((project.settings.concreteWasteFactor ?? DEFAULT_CONCRETE_WASTE_FACTOR) * 100)}`;
+    (document.getElementById('pour-lift') as HTMLInputElement).value =
+      `${project.settings.pourLiftHeight || DEFAULT_POUR_LIFT_HEIGHT}`;
+
+    const liftList = document.getElementById('concrete-lifts')!;
+    liftList.innerHTML = '';
+    takeoff.lifts.forEach(lift => {
+      const trucks = getTruckCount(lift.cubicYards, truckCapacity);
+      const row = document.createElement('div');
+      row.className = 'cost-category-header';
+      row.innerHTML = `
+        <span>Lift ${lift.index + 1} (${lift.bottom}"–${lift.top}")</span>
+        <span>${lift.cubicYards.toFixed(2)} yd · ${trucks} truck${trucks === 1 ? '' : 's'}</span>
+      `;
+      liftList.appendChild(row);
+    });
+
+    document.getElementById('concrete-total')!.textContent = `${takeoff.totalCubicYards.toFixed(2)} cu yd`;
   }
 
   private setStatus(text: string): void {
@@ -645,6 +2607,23 @@ class ICFHomeDesigner {
     this.setStatus('Project exported as JSON');
   }
 
+  private exportPDF(): void {
+    const project = projectState.getProject();
+
+    // Leave the ghost and any in-progress wall out of the client snapshot
+    this.removeGhost();
+    this.removePathPreview();
+    const snapshot = this.scene3D.captureSnapshot();
+
+    try {
+      const doc = createEstimatePdf(project, snapshot);
+      doc.save(`${project.name.replace(/\s+/g, '_')}_estimate.pdf`);
+      this.setStatus('Estimate exported as PDF');
+    } catch (err) {
+      alert('Failed to export PDF: ' + err);
+    }
+  }
+
   private importJSON(e: Event): void {
     const input = e.target as HTMLInputElement;
     const file = input.files?.[0];
@@ -652,20 +2631,208 @@ class ICFHomeDesigner {
 
     const reader = new FileReader();
     reader.onload = (event) => {
-      try {
-        const json = event.target?.result as string;
-        projectState.importJSON(json);
-        this.rebuildScene();
-        this.setStatus('Project imported successfully');
-      } catch (err) {
-        alert('Failed to import project: ' + err);
-      }
+      this.applyProjectJSON(event.target?.result as string, 'import');
     };
     reader.readAsText(file);
 
     // Reset input
     input.value = '';
   }
+
+  /**
+   * Replace the project with saved JSON, reporting any schema problems.
+   * Returns false if the project could not be loaded.
+   */
+  private applyProjectJSON(json: string, verb: 'import' | 'open'): boolean {
+    const problems = projectState.importJSON(json);
+    const lines = formatSchemaProblems(problems);
+    const listed = lines.slice(0, 20).join('\n') + (lines.length > 20 ? `\n...and ${lines.length - 20} more` : '');
+    const done = verb === 'import' ? 'imported' : 'opened';
+
+    if (problems.some(p => p.severity === 'error')) {
+      alert(`Failed to ${verb} project:\n${listed}`);
+      return false;
+    }
+    if (problems.length > 0) {
+      this.setStatus(`Project ${done} with ${problems.length} problem(s) repaired`);
+      alert(`Project ${done}. Some data was repaired or dropped:\n${listed}`);
+    } else {
+      this.setStatus(`Project ${done} successfully`);
+    }
+
+    // Older projects and hand-edited files may have blocks in the same space
+    const overlaps = findAllOverlaps(projectState.getICFBlocks());
+    if (overlaps.length > 0) {
+      this.updateOverlapReport(overlaps);
+      this.setStatus(`Project ${done} - ${overlaps.length} overlapping block pair(s), listed under Checks`);
+    } else {
+      this.overlapReport = null;
+      document.getElementById('overlap-report')!.innerHTML = '';
+    }
+    return true;
+  }
+
+  // Project library (IndexedDB)
+
+  private async saveToLibrary(): Promise<void> {
+    const project = projectState.getProject();
+    if (!projectState.libraryId && project.name === 'Untitled Project') {
+      const name = prompt('Save project as:', project.name)?.trim();
+      if (!name) return;
+      projectState.setProjectName(name);
+    }
+
+    // Leave the ghost and any in-progress wall out of the thumbnail
+    this.removeGhost();
+    this.removePathPreview();
+    const thumbnail = this.scene3D.captureThumbnail();
+
+    try {
+      // Edits made while saving change the same project object, so note which version this is first
+      const modified = project.modified;
+      projectState.libraryId = await projectLibrary.save(project, thumbnail, projectState.libraryId ?? undefined);
+      autosave.markSaved(modified);
+      this.setStatus(`Saved "${projectState.getProject().name}" to the project library`);
+    } catch (err) {
+      alert('Failed to save project: ' + err);
+    }
+  }
+
+  private async openLibraryProject(id: string): Promise<boolean> {
+    const json = await projectLibrary.load(id);
+    if (json === null) {
+      this.setStatus('Project not found in the library');
+      return false;
+    }
+    if (!this.applyProjectJSON(json, 'open')) return false;
+
+    projectState.libraryId = id;
+    autosave.markSaved();
+    return true;
+  }
+
+  /**
+   * Startup: offer autosaved changes newer than their last save, otherwise open the
+   * most recently modified library project (moving an old single-slot save in first)
+   */
+  private async restoreSession(): Promise<void> {
+    autosave.onStatusChange(status => this.updateSaveStatus(status));
+    autosave.onError(message => this.setStatus(message));
+    try {
+      await projectLibrary.importLegacyProject();
+
+      const recovery = await autosave.getRecovery();
+      if (recovery) {
+        const when = new Date(recovery.modified).toLocaleString();
+        if (confirm(`Recover unsaved changes to "${recovery.name}" from ${when}?`)) {
+          if (this.applyProjectJSON(recovery.json, 'open')) {
+            // Still unsaved - the autosaved copy is kept until the next save
+            projectState.libraryId = recovery.libraryId;
+            this.setStatus(`Recovered unsaved changes to "${recovery.name}"`);
+            return;
+          }
+        }
+        await autosave.discardRecovery();
+      }
+
+      const [latest] = await projectLibrary.list();
+      if (!latest || !(await this.openLibraryProject(latest.id))) autosave.markSaved();
+    } catch (err) {
+      this.setStatus(`Could not open the project library: ${err}`);
+    } finally {
+      autosave.start();
+      this.updateSaveStatus(autosave.getStatus());
+    }
+  }
+
+  private updateSaveStatus(status: SaveStatus): void {
+    const indicator = document.getElementById('save-status')!;
+    indicator.className = status;
+    indicator.textContent = {
+      saved: 'All changes saved',
+      unsaved: '● Unsaved changes',
+      autosaved: '● Unsaved changes (autosaved)',
+      failed: '● Unsaved changes (autosave failed)'
+    }[status];
+  }
+
+  private async showLibrary(): Promise<void> {
+    document.getElementById('library-dialog')!.classList.remove('hidden');
+    await this.renderLibrary();
+  }
+
+  private hideLibrary(): void {
+    document.getElementById('library-dialog')!.classList.add('hidden');
+  }
+
+  private async renderLibrary(): Promise<void> {
+    const list = document.getElementById('library-list')!;
+    let summaries: ProjectSummary[];
+    try {
+      summaries = await projectLibrary.list();
+    } catch (err) {
+      list.innerHTML = `<div class="library-empty">Project library unavailable: ${err}</div>`;
+      return;
+    }
+
+    if (summaries.length === 0) {
+      list.innerHTML = '<div class="library-empty">No saved projects - use Save to add this one</div>';
+      return;
+    }
+
+    list.innerHTML = '';
+    for (const summary of summaries) {
+      const card = document.createElement('div');
+      card.className = 'library-card';
+      card.classList.toggle('active', summary.id === projectState.libraryId);
+      card.innerHTML = `
+        <div class="library-thumbnail">${summary.thumbnail ? `<img src="${summary.thumbnail}" alt="">` : '🏠'}</div>
+        <div class="library-name"></div>
+        <div class="library-modified">${new Date(summary.modified).toLocaleString()}</div>
+        <div class="library-actions">
+          <button class="btn btn-secondary" data-library-action="open">Open</button>
+          <button class="btn btn-secondary" data-library-action="rename">Rename</button>
+          <button class="btn btn-secondary" data-library-action="duplicate">Duplicate</button>
+          <button class="btn btn-secondary" data-library-action="delete">Delete</button>
+        </div>
+      `;
+      // Names are user text
+      card.querySelector('.library-name')!.textContent = summary.name;
+      card.querySelectorAll<HTMLButtonElement>('[data-library-action]').forEach(btn => {
+        btn.addEventListener('click', () => this.onLibraryAction(summary, btn.dataset.libraryAction!));
+      });
+      list.appendChild(card);
+    }
+  }
+
+  private async onLibraryAction(summary: ProjectSummary, action: string): Promise<void> {
+    try {
+      switch (action) {
+        case 'open':
+          if (autosave.isDirty() && !confirm(`Open "${summary.name}"? Unsaved changes will be lost.`)) return;
+          if (await this.openLibraryProject(summary.id)) this.hideLibrary();
+          return;
+        case 'rename': {
+          const name = prompt('Rename project:', summary.name)?.trim();
+          if (!name || name === summary.name) return;
+          await projectLibrary.rename(summary.id, name);
+          if (summary.id === projectState.libraryId) projectState.setProjectName(name);
+          break;
+        }
+        case 'duplicate':
+          await projectLibrary.duplicate(summary.id);
+          break;
+        case 'delete':
+          if (!confirm(`Delete "${summary.name}" from the library? This cannot be undone.`)) return;
+          await projectLibrary.delete(summary.id);
+          if (summary.id === projectState.libraryId) projectState.libraryId = null;
+          break;
+      }
+    } catch (err) {
+      alert(`Failed to ${action} project: ${err}`);
+    }
+    await this.renderLibrary();
+  }
 }
 
 // Start the application
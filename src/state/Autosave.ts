@@ -0,0 +1,124 @@
+// Autosave - Debounced copy of the open project for recovery after a crash or refresh
+import { projectState } from './ProjectState';
+import { projectLibrary, RecoveryCopy } from './ProjectLibrary';
+
+const AUTOSAVE_DELAY = 2000; // ms after the last change
+
+export type SaveStatus = 'saved' | 'unsaved' | 'autosaved' | 'failed';
+
+export class Autosave {
+    private timer: number | null = null;
+    private savedModified: string | null = null; // project.modified at the last explicit save or open
+    private autosavedModified: string | null = null;
+    private failedModified: string | null = null;  // project.modified the last autosave failed to write
+    private onStatusCallbacks: ((status: SaveStatus) => void)[] = [];
+    private onErrorCallbacks: ((message: string) => void)[] = [];
+
+    start(): void {
+        projectState.onChange(() => {
+            if (this.isDirty()) this.schedule();
+            this.notifyStatus();
+        });
+        // A pending write is flushed rather than lost when the page closes
+        window.addEventListener('pagehide', () => this.flush());
+    }
+
+    onStatusChange(callback: (status: SaveStatus) => void): void {
+        this.onStatusCallbacks.push(callback);
+    }
+
+    // Failures writing or clearing the autosaved copy, as a message for the user
+    onError(callback: (message: string) => void): void {
+        this.onErrorCallbacks.push(callback);
+    }
+
+    isDirty(): boolean {
+        return projectState.getProject().modified !== this.savedModified;
+    }
+
+    getStatus(): SaveStatus {
+        if (!this.isDirty()) return 'saved';
+        if (this.failedModified === projectState.getProject().modified) return 'failed';
+        return this.autosavedModified === projectState.getProject().modified ? 'autosaved' : 'unsaved';
+    }
+
+    /**
+     * Record that the project matches its saved copy (saved, opened or new).
+     * Pass the `modified` date that was saved if the project may have changed since.
+     */
+    markSaved(modified = projectState.getProject().modified): void {
+        this.savedModified = modified;
+        this.cancel();
+        if (!this.isDirty()) {
+            projectLibrary.clearRecovery().catch(err => this.notifyError(`Could not clear the autosaved copy: ${err}`));
+        }
+        this.notifyStatus();
+    }
+
+    /**
+     * The autosaved copy, if it holds changes newer than the library entry it belongs to.
+     * A stale copy is cleared.
+     */
+    async getRecovery(): Promise<RecoveryCopy | null> {
+        const copy = await projectLibrary.loadRecovery();
+        if (!copy) return null;
+
+        const saved = copy.libraryId ? await projectLibrary.get(copy.libraryId) : null;
+        if (saved && saved.modified >= copy.modified) {
+            await projectLibrary.clearRecovery();
+            return null;
+        }
+        return copy;
+    }
+
+    async discardRecovery(): Promise<void> {
+        await projectLibrary.clearRecovery();
+    }
+
+    // Write the pending autosave now
+    flush(): void {
+        if (this.timer === null) return;
+        this.cancel();
+        this.write();
+    }
+
+    private schedule(): void {
+        this.cancel();
+        this.timer = window.setTimeout(() => {
+            this.timer = null;
+            this.write();
+        }, AUTOSAVE_DELAY);
+    }
+
+    private cancel(): void {
+        if (this.timer !== null) {
+            window.clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    private async write(): Promise<void> {
+        const project = projectState.getProject();
+        if (!this.isDirty()) return;
+        try {
+            await projectLibrary.saveRecovery(project, projectState.libraryId);
+            this.autosavedModified = project.modified;
+        } catch (err) {
+            this.failedModified = project.modified;
+            this.notifyError(`Autosave failed - save the project to keep your changes: ${err}`);
+        }
+        this.notifyStatus();
+    }
+
+    private notifyStatus(): void {
+        const status = this.getStatus();
+        this.onStatusCallbacks.forEach(cb => cb(status));
+    }
+
+    private notifyError(message: string): void {
+        this.onErrorCallbacks.forEach(cb => cb(message));
+    }
+}
+
+// Singleton instance
+export const autosave = new Autosave();
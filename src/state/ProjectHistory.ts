@@ -0,0 +1,307 @@
+// Project History - Undo/redo as a list of patches, each holding only what an edit changed
+import { ICFProject } from '../types/project';
+
+const MAX_HISTORY = 1000;
+
+// Top-level fields that are not part of history: layer settings are view state
+// and the modified date is set on every change
+const UNTRACKED_FIELDS = new Set(['layers', 'modified']);
+
+type Entity = { id: string; [key: string]: unknown };
+
+/**
+ * One change: a value replaced at `path`, or entities added, removed and
+ * updated in the id-keyed list at `path` (element arrays, annotations, areas)
+ */
+export type PatchOp =
+    | { kind: 'set'; path: string[]; before: unknown; after: unknown }
+    | {
+        kind: 'list';
+        path: string[];
+        removed: { index: number; item: Entity }[];  // indices in the list before
+        added: { index: number; item: Entity }[];    // indices in the list after
+        updated: { before: Entity; after: Entity }[];
+    };
+
+export interface HistoryStep {
+    label: string;
+    time: string;
+    patch: PatchOp[];
+}
+
+/**
+ * What a change touched, so views can update only the affected elements
+ */
+export interface ProjectChange {
+    added: Set<string>;      // element ids
+    removed: Set<string>;
+    updated: Set<string>;    // data changed or selection toggled
+    annotations: boolean;    // pinned measurements, or the settings they are labelled with
+    data: boolean;           // elements, areas or settings changed - totals and reports are stale
+    reset: boolean;          // the whole project was replaced - rebuild everything
+}
+
+export const createChange = (): ProjectChange => ({
+    added: new Set(),
+    removed: new Set(),
+    updated: new Set(),
+    annotations: false,
+    data: false,
+    reset: false
+});
+
+// Add the elements a patch touches, applied forwards (redo) or backwards (undo), to `change`
+export function addPatchToChange(change: ProjectChange, patch: PatchOp[], forward: boolean): void {
+    for (const op of patch) {
+        const root = op.path[0];
+        if (root === 'elements' || root === 'areas' || root === 'settings') change.data = true;
+        if (root === 'annotations' || root === 'settings') {
+            change.annotations = true;
+        } else if (root === 'areas') {
+            // Area colours tint their blocks
+            change.reset = true;
+        } else if (root === 'elements') {
+            if (op.kind === 'set') {
+                // A reordered list is replaced whole
+                change.reset = true;
+                continue;
+            }
+            (forward ? op.added : op.removed).forEach(({ item }) => change.added.add(item.id));
+            (forward ? op.removed : op.added).forEach(({ item }) => change.removed.add(item.id));
+            op.updated.forEach(pair => change.updated.add(pair.after.id));
+        }
+    }
+}
+
+const clone = <T>(value: T): T => value === undefined ? value : JSON.parse(JSON.stringify(value));
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isEntityList = (value: unknown[]): value is Entity[] =>
+    value.every(item => isRecord(item) && typeof item.id === 'string');
+
+// Equality of JSON values - a missing key and an undefined one are the same
+function jsonEqual(a: unknown, b: unknown): boolean {
+    if (a === b) return true;
+    if (Array.isArray(a)) {
+        return Array.isArray(b) && a.length === b.length && a.every((item, i) => jsonEqual(item, b[i]));
+    }
+    if (isRecord(a) && isRecord(b)) {
+        const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+        for (const key of keys) {
+            if (!jsonEqual(a[key], b[key])) return false;
+        }
+        return true;
+    }
+    return false;
+}
+
+/**
+ * Patch that turns `before` into `after`. Plain objects are compared field by field
+ * and id-keyed lists entity by entity; anything else is replaced whole.
+ */
+export function diffProjects(before: ICFProject, after: ICFProject): PatchOp[] {
+    const ops: PatchOp[] = [];
+    diffValue(before, after, [], ops);
+    return ops;
+}
+
+function diffValue(before: unknown, after: unknown, path: string[], ops: PatchOp[]): void {
+    if (isRecord(before) && isRecord(after)) {
+        const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+        for (const key of keys) {
+            if (path.length === 0 && UNTRACKED_FIELDS.has(key)) continue;
+            diffValue(before[key], after[key], [...path, key], ops);
+        }
+        return;
+    }
+    if (Array.isArray(before) && Array.isArray(after) && isEntityList(before) && isEntityList(after)) {
+        const op = diffList(before, after, path);
+        if (op) {
+            ops.push(op);
+            return;
+        }
+    }
+    if (!jsonEqual(before, after)) {
+        ops.push({ kind: 'set', path, before: clone(before), after: clone(after) });
+    }
+}
+
+/**
+ * Entity changes between two lists, or null if the entities they share were
+ * reordered (the list is then replaced whole)
+ */
+function diffList(before: Entity[], after: Entity[], path: string[]): PatchOp | null {
+    const beforeIndex = new Map(before.map((item, i) => [item.id, i]));
+    const afterIndex = new Map(after.map((item, i) => [item.id, i]));
+
+    const kept = before.filter(item => afterIndex.has(item.id));
+    const keptAfter = after.filter(item => beforeIndex.has(item.id));
+    if (kept.some((item, i) => item.id !== keptAfter[i].id)) return null;
+
+    const removed = before
+        .map((item, index) => ({ index, item }))
+        .filter(({ item }) => !afterIndex.has(item.id));
+    const added = after
+        .map((item, index) => ({ index, item }))
+        .filter(({ item }) => !beforeIndex.has(item.id));
+    const updated = kept
+        .map((item, i) => ({ before: item, after: keptAfter[i] }))
+        .filter(pair => !jsonEqual(pair.before, pair.after));
+
+    if (removed.length === 0 && added.length === 0 && updated.length === 0) return null;
+    return {
+        kind: 'list',
+        path,
+        removed: clone(removed),
+        added: clone(added),
+        updated: clone(updated)
+    };
+}
+
+// Apply a patch forwards (redo) or backwards (undo)
+export function applyPatch(project: ICFProject, patch: PatchOp[], forward: boolean): void {
+    const ops = forward ? patch : [...patch].reverse();
+    for (const op of ops) {
+        if (op.kind === 'set') {
+            const parent = resolve(project, op.path.slice(0, -1)) as Record<string, unknown>;
+            const key = op.path[op.path.length - 1];
+            const value = forward ? op.after : op.before;
+            if (value === undefined) delete parent[key];
+            else parent[key] = clone(value);
+            continue;
+        }
+
+        const list = resolve(project, op.path) as Entity[];
+        const remove = forward ? op.removed : op.added;
+        const insert = forward ? op.added : op.removed;
+        for (let i = remove.length - 1; i >= 0; i--) list.splice(remove[i].index, 1);
+        for (const { index, item } of insert) list.splice(index, 0, clone(item));
+
+        if (op.updated.length > 0) {
+            const indexById = new Map(list.map((item, i) => [item.id, i]));
+            for (const pair of op.updated) {
+                const target = forward ? pair.after : pair.before;
+                const index = indexById.get(target.id);
+                if (index !== undefined) list[index] = clone(target);
+            }
+        }
+    }
+}
+
+function resolve(project: ICFProject, path: string[]): unknown {
+    return path.reduce<unknown>((value, key) => (value as Record<string, unknown>)[key], project);
+}
+
+/**
+ * Steps between the project's states. A copy of the state at the current step is
+ * kept so each new step can be found by diffing against it.
+ */
+export class ProjectHistory {
+    private base: ICFProject;
+    private steps: HistoryStep[] = [];
+    private position = 0; // steps currently applied
+    private initialLabel: string;
+    private transactionDepth = 0;
+    private transactionLabel = '';
+
+    constructor(project: ICFProject, label: string) {
+        this.base = clone(project);
+        this.initialLabel = label;
+    }
+
+    // Start over from the given project with no steps
+    reset(project: ICFProject, label: string): void {
+        this.base = clone(project);
+        this.steps = [];
+        this.position = 0;
+        this.initialLabel = label;
+        this.transactionDepth = 0;
+    }
+
+    /**
+     * Record the changes since the last step as a step named `label`.
+     * Inside a transaction, changes are held until the outermost one ends.
+     */
+    record(project: ICFProject, label: string): PatchOp[] {
+        if (this.transactionDepth > 0) return [];
+
+        const patch = diffProjects(this.base, project);
+        if (patch.length === 0) return patch;
+        applyPatch(this.base, patch, true);
+
+        // Recording after an undo discards the steps that were undone
+        this.steps.length = this.position;
+        this.steps.push({ label, time: new Date().toISOString(), patch });
+        if (this.steps.length > MAX_HISTORY) {
+            this.steps.shift();
+            this.initialLabel = 'Earlier changes';
+        }
+        this.position = this.steps.length;
+        return patch;
+    }
+
+    // Group every edit until the matching endTransaction into a single step
+    beginTransaction(label: string): void {
+        if (this.transactionDepth === 0) this.transactionLabel = label;
+        this.transactionDepth++;
+    }
+
+    endTransaction(project: ICFProject): PatchOp[] {
+        if (this.transactionDepth === 0) return [];
+        this.transactionDepth--;
+        return this.transactionDepth === 0 ? this.record(project, this.transactionLabel) : [];
+    }
+
+    inTransaction(): boolean {
+        return this.transactionDepth > 0;
+    }
+
+    canUndo(): boolean {
+        return this.position > 0;
+    }
+
+    canRedo(): boolean {
+        return this.position < this.steps.length;
+    }
+
+    // Each of undo, redo and jumpTo adds what it touched to `change`, and returns false if there was nothing to do
+    undo(project: ICFProject, change: ProjectChange): boolean {
+        if (!this.canUndo()) return false;
+        this.position--;
+        const patch = this.steps[this.position].patch;
+        applyPatch(project, patch, false);
+        applyPatch(this.base, patch, false);
+        addPatchToChange(change, patch, false);
+        return true;
+    }
+
+    redo(project: ICFProject, change: ProjectChange): boolean {
+        if (!this.canRedo()) return false;
+        const patch = this.steps[this.position].patch;
+        applyPatch(project, patch, true);
+        applyPatch(this.base, patch, true);
+        addPatchToChange(change, patch, true);
+        this.position++;
+        return true;
+    }
+
+    // Undo or redo until `position` steps are applied (0 is the initial state)
+    jumpTo(project: ICFProject, position: number, change: ProjectChange): boolean {
+        const target = Math.max(0, Math.min(position, this.steps.length));
+        if (target === this.position) return false;
+        while (this.position > target) this.undo(project, change);
+        while (this.position < target) this.redo(project, change);
+        return true;
+    }
+
+    // Step names for display, starting with the initial state
+    getLabels(): string[] {
+        return [this.initialLabel, ...this.steps.map(step => step.label)];
+    }
+
+    getPosition(): number {
+        return this.position;
+    }
+}
@@ -0,0 +1,208 @@
+// Project Library - Named projects stored in IndexedDB, each with a thumbnail
+import { ICFProject } from '../types/project';
+
+const DB_NAME = 'icf-home-designer';
+const DB_VERSION = 2;
+const SUMMARY_STORE = 'projects';     // small records for listing
+const DATA_STORE = 'projectData';     // full project JSON, loaded on open
+const RECOVERY_STORE = 'recovery';    // autosaved copy of the open project
+const RECOVERY_KEY = 'current';
+const LEGACY_STORAGE_KEY = 'icf-project';
+
+export interface ProjectSummary {
+    id: string;
+    name: string;
+    created: string;
+    modified: string;          // ICFProject.modified at the last save
+    thumbnail: string | null;  // image data URL of the 3D view
+}
+
+interface ProjectData {
+    id: string;
+    json: string;
+}
+
+// Autosaved copy of the project being edited, kept until it is saved or discarded
+export interface RecoveryCopy {
+    libraryId: string | null;  // library entry the edits belong to, null if never saved
+    name: string;
+    modified: string;
+    json: string;
+}
+
+const generateId = (): string => `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+// Wrap an IndexedDB request in a promise
+const request = <T>(req: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+});
+
+export class ProjectLibrary {
+    private db: Promise<IDBDatabase> | null = null;
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.db) {
+            this.db = new Promise((resolve, reject) => {
+                const req = indexedDB.open(DB_NAME, DB_VERSION);
+                req.onupgradeneeded = () => {
+                    const db = req.result;
+                    if (!db.objectStoreNames.contains(SUMMARY_STORE)) {
+                        db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+                    }
+                    if (!db.objectStoreNames.contains(DATA_STORE)) {
+                        db.createObjectStore(DATA_STORE, { keyPath: 'id' });
+                    }
+                    if (!db.objectStoreNames.contains(RECOVERY_STORE)) {
+                        db.createObjectStore(RECOVERY_STORE);
+                    }
+                };
+                req.onsuccess = () => resolve(req.result);
+                req.onerror = () => reject(req.error);
+            });
+            // Let a later call retry if the database could not be opened
+            this.db.catch(() => { this.db = null; });
+        }
+        return this.db;
+    }
+
+    // Every saved project, most recently modified first
+    async list(): Promise<ProjectSummary[]> {
+        const db = await this.open();
+        const store = db.transaction(SUMMARY_STORE, 'readonly').objectStore(SUMMARY_STORE);
+        const summaries = await request(store.getAll() as IDBRequest<ProjectSummary[]>);
+        return summaries.sort((a, b) => b.modified.localeCompare(a.modified));
+    }
+
+    async get(id: string): Promise<ProjectSummary | null> {
+        const db = await this.open();
+        const store = db.transaction(SUMMARY_STORE, 'readonly').objectStore(SUMMARY_STORE);
+        return (await request(store.get(id) as IDBRequest<ProjectSummary | undefined>)) || null;
+    }
+
+    // Saved project JSON, to be validated by ProjectState.importJSON
+    async load(id: string): Promise<string | null> {
+        const db = await this.open();
+        const store = db.transaction(DATA_STORE, 'readonly').objectStore(DATA_STORE);
+        const data = await request(store.get(id) as IDBRequest<ProjectData | undefined>);
+        return data ? data.json : null;
+    }
+
+    /**
+     * Save a project under `id` (a new entry when omitted). Returns the id.
+     */
+    async save(project: ICFProject, thumbnail: string | null, id: string = generateId()): Promise<string> {
+        await this.write({
+            id,
+            name: project.name,
+            created: project.created,
+            modified: project.modified,
+            thumbnail
+        }, JSON.stringify(project));
+        return id;
+    }
+
+    async rename(id: string, name: string): Promise<void> {
+        const summary = await this.get(id);
+        const json = await this.load(id);
+        if (!summary || json === null) throw new Error('Project not found');
+
+        const project = JSON.parse(json) as ICFProject;
+        project.name = name;
+        await this.write({ ...summary, name }, JSON.stringify(project));
+    }
+
+    // Copy a project as a new entry named "<name> (copy)". Returns the new id.
+    async duplicate(id: string): Promise<string> {
+        const summary = await this.get(id);
+        const json = await this.load(id);
+        if (!summary || json === null) throw new Error('Project not found');
+
+        const now = new Date().toISOString();
+        const project = JSON.parse(json) as ICFProject;
+        project.name = `${summary.name} (copy)`;
+        project.created = now;
+        project.modified = now;
+        return this.save(project, summary.thumbnail);
+    }
+
+    async delete(id: string): Promise<void> {
+        const db = await this.open();
+        const tx = db.transaction([SUMMARY_STORE, DATA_STORE], 'readwrite');
+        tx.objectStore(SUMMARY_STORE).delete(id);
+        tx.objectStore(DATA_STORE).delete(id);
+        await transactionDone(tx);
+    }
+
+    // Autosave slot - only one project is open at a time, so there is a single copy
+    async saveRecovery(project: ICFProject, libraryId: string | null): Promise<void> {
+        const db = await this.open();
+        const tx = db.transaction(RECOVERY_STORE, 'readwrite');
+        const copy: RecoveryCopy = {
+            libraryId,
+            name: project.name,
+            modified: project.modified,
+            json: JSON.stringify(project)
+        };
+        tx.objectStore(RECOVERY_STORE).put(copy, RECOVERY_KEY);
+        await transactionDone(tx);
+    }
+
+    async loadRecovery(): Promise<RecoveryCopy | null> {
+        const db = await this.open();
+        const store = db.transaction(RECOVERY_STORE, 'readonly').objectStore(RECOVERY_STORE);
+        return (await request(store.get(RECOVERY_KEY) as IDBRequest<RecoveryCopy | undefined>)) || null;
+    }
+
+    async clearRecovery(): Promise<void> {
+        const db = await this.open();
+        const tx = db.transaction(RECOVERY_STORE, 'readwrite');
+        tx.objectStore(RECOVERY_STORE).delete(RECOVERY_KEY);
+        await transactionDone(tx);
+    }
+
+    /**
+     * Move a project saved by older versions under a single localStorage key
+     * into the library. Returns its new id, or null if there was none.
+     */
+    async importLegacyProject(): Promise<string | null> {
+        const json = localStorage.getItem(LEGACY_STORAGE_KEY);
+        if (!json) return null;
+
+        let details: Partial<ICFProject> = {};
+        try {
+            details = JSON.parse(json);
+        } catch {
+            // Kept as is - opening it reports the problem
+        }
+        const now = new Date().toISOString();
+        const id = generateId();
+        await this.write({
+            id,
+            name: typeof details.name === 'string' ? details.name : 'Untitled Project',
+            created: typeof details.created === 'string' ? details.created : now,
+            modified: typeof details.modified === 'string' ? details.modified : now,
+            thumbnail: null
+        }, json);
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
+        return id;
+    }
+
+    // Summary and data are written together so the list never points at missing data
+    private async write(summary: ProjectSummary, json: string): Promise<void> {
+        const db = await this.open();
+        const tx = db.transaction([SUMMARY_STORE, DATA_STORE], 'readwrite');
+        tx.objectStore(SUMMARY_STORE).put(summary);
+        tx.objectStore(DATA_STORE).put({ id: summary.id, json } as ProjectData);
+        await transactionDone(tx);
+    }
+}
+
+// Singleton instance
+export const projectLibrary = new ProjectLibrary();
@@ -0,0 +1,478 @@
+// Project Schema - Validates imported project files and migrates older versions
+import { ICFProject, LayerType, ProjectSettings } from '../types/project';
+import { ICF_BLOCK_CATALOG, CORE_THICKNESS_OPTIONS, BUCK_CATALOG, REBAR_BAR_SIZES } from '../data/icfCatalog';
+import {
+    FRAMING_CATALOG, PLUMBING_CATALOG, ELECTRICAL_CATALOG, ELECTRICAL_DEVICES, LOW_VOLTAGE_CATALOG,
+    EQUIPMENT_CATALOG, CABINET_CATALOG, WINDOW_CATALOG, DOOR_CATALOG
+} from '../data/materialsCatalog';
+import { LAYER_TYPES, PIPE_SYSTEM_LAYERS, normalizeLayers } from '../data/layerCatalog';
+
+export const CURRENT_SCHEMA_VERSION = '1.1';
+
+export interface SchemaProblem {
+    path: string;                   // where in the file, e.g. elements.icfBlocks[3].type
+    message: string;
+    severity: 'error' | 'warning';  // errors stop the import, warnings were repaired
+}
+
+export interface SchemaResult {
+    project: ICFProject | null;     // null when the file cannot be loaded
+    problems: SchemaProblem[];
+    migratedFrom?: string;
+}
+
+// Raw JSON as read from a file
+type RawObject = Record<string, unknown>;
+
+/**
+ * Upgrades raw project data from one schema version to the next
+ */
+export interface Migration {
+    from: string;
+    to: string;
+    description: string;
+    migrate: (data: RawObject) => RawObject;
+}
+
+const MIGRATIONS: Migration[] = [];
+
+export function registerMigration(migration: Migration): void {
+    MIGRATIONS.push(migration);
+}
+
+// 1.0 stored layer visibility as booleans and had no pinned annotations
+registerMigration({
+    from: '1.0',
+    to: '1.1',
+    description: 'Layer display settings and pinned annotations',
+    migrate: data => {
+        const layers: RawObject = {};
+        if (isObject(data.layers)) {
+            Object.entries(data.layers).forEach(([type, value]) => {
+                layers[type] = typeof value === 'boolean' ? { visible: value } : value;
+            });
+        }
+        return { ...data, layers, annotations: Array.isArray(data.annotations) ? data.annotations : [] };
+    }
+});
+
+const isObject = (value: unknown): value is RawObject =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isFinite(value);
+
+const describe = (value: unknown): string =>
+    value === undefined ? 'missing' : JSON.stringify(value);
+
+// Field rules - each returns a reason the value is invalid, or null
+type Rule = { check: (value: unknown) => string | null; optional?: boolean };
+
+const oneOf = (values: readonly (string | number)[], optional = false): Rule => ({
+    optional,
+    check: value => (values as unknown[]).includes(value)
+        ? null
+        : `${describe(value)} is not one of ${values.join(', ')}`
+});
+
+const num = (min = -Infinity, max = Infinity, optional = false): Rule => ({
+    optional,
+    check: value => {
+        if (!isNumber(value)) return `${describe(value)} is not a number`;
+        if (value < min || value > max) return `${value} is outside ${min} to ${max}`;
+        return null;
+    }
+});
+
+const str = (optional = false): Rule => ({
+    optional,
+    check: value => (typeof value === 'string' ? null : `${describe(value)} is not text`)
+});
+
+const bool = (optional = false): Rule => ({
+    optional,
+    check: value => (typeof value === 'boolean' ? null : `${describe(value)} is not true/false`)
+});
+
+// Colours end up in markup, styles and materials, so only #rrggbb is accepted
+const hexColor = (optional = false): Rule => ({
+    optional,
+    check: value => (typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value)
+        ? null
+        : `${describe(value)} is not a #rrggbb colour`)
+});
+
+const checkVector = (value: unknown): string | null => {
+    if (!isObject(value)) return `${describe(value)} is not a point`;
+    const bad = ['x', 'y', 'z'].find(axis => !isNumber(value[axis]));
+    return bad ? `${bad} is ${describe(value[bad])}, not a number` : null;
+};
+
+const vector: Rule = { check: checkVector };
+
+const pointPath: Rule = {
+    check: value => {
+        if (!Array.isArray(value) || value.length < 2) return 'needs at least two points';
+        const index = value.findIndex(point => checkVector(point) !== null);
+        return index >= 0 ? `point ${index}: ${checkVector(value[index])}` : null;
+    }
+};
+
+const keys = (catalog: object): string[] => Object.keys(catalog);
+
+const ANY_ANGLE = num();
+
+// Field rules for each element array, keyed by its path under `elements`
+const ELEMENT_RULES: Record<string, Record<string, Rule>> = {
+    icfBlocks: {
+        type: oneOf(keys(ICF_BLOCK_CATALOG)),
+        coreThickness: oneOf(CORE_THICKNESS_OPTIONS),
+        position: vector,
+        rotation: ANY_ANGLE,
+        mirrored: bool(true),
+        cutLength: num(1, 48, true),
+        areaId: str(true),
+        color: hexColor(true)
+    },
+    framing: {
+        type: oneOf(keys(FRAMING_CATALOG)),
+        start: vector,
+        end: vector,
+        height: num(1, 480),
+        areaId: str(true)
+    },
+    plumbing: {
+        type: oneOf(keys(PLUMBING_CATALOG)),
+        system: oneOf(keys(PIPE_SYSTEM_LAYERS)),
+        path: pointPath,
+        color: hexColor(true)
+    },
+    'electrical.wires': {
+        type: oneOf(keys(ELECTRICAL_CATALOG)),
+        circuit: oneOf(['general', 'kitchen', 'bathroom', 'dedicated', 'hvac']),
+        path: pointPath
+    },
+    'electrical.outlets': {
+        type: oneOf(keys(ELECTRICAL_DEVICES.outlet)),
+        position: vector,
+        rotation: ANY_ANGLE,
+        circuitId: str(true)
+    },
+    'electrical.switches': {
+        type: oneOf(keys(ELECTRICAL_DEVICES.switch)),
+        position: vector,
+        rotation: ANY_ANGLE
+    },
+    'electrical.panels': {
+        position: vector,
+        rotation: ANY_ANGLE,
+        circuits: num(1, 84)
+    },
+    'lowVoltage.runs': {
+        type: oneOf(keys(LOW_VOLTAGE_CATALOG)),
+        path: pointPath
+    },
+    'lowVoltage.drops': {
+        type: oneOf(['ethernet', 'coax']),
+        position: vector,
+        rotation: ANY_ANGLE
+    },
+    equipment: {
+        type: oneOf(keys(EQUIPMENT_CATALOG)),
+        position: vector,
+        rotation: ANY_ANGLE,
+        dimensions: vector,
+        label: str(true)
+    },
+    cabinets: {
+        type: oneOf(keys(CABINET_CATALOG)),
+        position: vector,
+        rotation: ANY_ANGLE,
+        color: hexColor(true)
+    },
+    windows: {
+        type: oneOf(keys(WINDOW_CATALOG)),
+        position: vector,
+        rotation: ANY_ANGLE,
+        wallId: str(true),
+        buckMaterial: oneOf(keys(BUCK_CATALOG), true)
+    },
+    doors: {
+        type: oneOf(keys(DOOR_CATALOG)),
+        position: vector,
+        rotation: ANY_ANGLE,
+        wallId: str(true),
+        buckMaterial: oneOf(keys(BUCK_CATALOG), true)
+    }
+};
+
+const SETTINGS_RULES: Record<keyof ProjectSettings, Rule> = {
+    gridUnit: oneOf(['inches', 'feet', 'mm']),
+    costMultiplier: num(0.01, 100),
+    showGrid: bool(),
+    gridSize: num(0.5, 96),
+    concreteWasteFactor: num(0, 1, true),
+    pourLiftHeight: num(1, 240, true),
+    rebarRules: { optional: true, check: value => (isObject(value) ? null : `${describe(value)} is not a set of rules`) }
+};
+
+const REBAR_RULE_RULES: Record<string, Rule> = {
+    barSize: oneOf(keys(REBAR_BAR_SIZES), true),
+    horizontalEveryCourses: num(1, 10, true),
+    horizontalBarsPerLayer: num(1, 4, true),
+    verticalSpacing: num(4, 96, true)
+};
+
+const LAYER_RULES: Record<string, Rule> = {
+    visible: bool(true),
+    opacity: num(0, 1, true),
+    ghosted: bool(true),
+    locked: bool(true)
+};
+
+const ANNOTATION_RULES: Record<string, Rule> = {
+    kind: oneOf(['distance', 'chain', 'area']),
+    points: pointPath,
+    label: str(true)
+};
+
+const AREA_RULES: Record<string, Rule> = {
+    name: str(),
+    color: hexColor()
+};
+
+/**
+ * Collects problems while checking one file
+ */
+class SchemaChecker {
+    problems: SchemaProblem[] = [];
+
+    error(path: string, message: string): void {
+        this.problems.push({ path, message, severity: 'error' });
+    }
+
+    warn(path: string, message: string): void {
+        this.problems.push({ path, message, severity: 'warning' });
+    }
+
+    /**
+     * Check an object's fields. Bad optional fields are removed; returns false
+     * (after reporting why) when a required field is bad.
+     */
+    checkFields(target: RawObject, rules: Record<string, Rule>, path: string): boolean {
+        for (const [field, rule] of Object.entries(rules)) {
+            const value = target[field];
+            if (rule.optional && value === undefined) continue;
+            const reason = rule.check(value);
+            if (!reason) continue;
+
+            if (rule.optional) {
+                delete target[field];
+                this.warn(`${path}.${field}`, `${reason} - removed`);
+            } else {
+                this.warn(path, `${field} ${reason} - dropped`);
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Keep the valid items of a list with ids, dropping bad and duplicate ones
+     */
+    checkList(
+        value: unknown,
+        rules: Record<string, Rule>,
+        path: string,
+        ids: Set<string>
+    ): RawObject[] {
+        if (value === undefined) {
+            this.warn(path, 'missing - starting empty');
+            return [];
+        }
+        if (!Array.isArray(value)) {
+            this.warn(path, `${describe(value)} is not a list - starting empty`);
+            return [];
+        }
+
+        return value.filter((item, index): item is RawObject => {
+            const itemPath = `${path}[${index}]`;
+            if (!isObject(item)) {
+                this.warn(itemPath, 'not an object - dropped');
+                return false;
+            }
+            if (typeof item.id !== 'string' || item.id === '') {
+                this.warn(itemPath, 'has no id - dropped');
+                return false;
+            }
+            if (ids.has(item.id)) {
+                this.warn(itemPath, `duplicate id ${item.id} - dropped`);
+                return false;
+            }
+            if (!this.checkFields(item, rules, itemPath)) return false;
+            ids.add(item.id);
+            return true;
+        });
+    }
+}
+
+const parseVersion = (version: string): number[] => version.split('.').map(part => parseInt(part, 10) || 0);
+
+function compareVersions(a: string, b: string): number {
+    const pa = parseVersion(a), pb = parseVersion(b);
+    for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+        const diff = (pa[i] || 0) - (pb[i] || 0);
+        if (diff !== 0) return diff;
+    }
+    return 0;
+}
+
+/**
+ * Run the registered migrations in order from `version` up to the current schema
+ */
+function migrate(data: RawObject, version: string, checker: SchemaChecker): RawObject | null {
+    let current = version;
+    while (current !== CURRENT_SCHEMA_VERSION) {
+        const step = MIGRATIONS.find(m => m.from === current);
+        if (!step) {
+            checker.error('version', `No migration from version ${current} to ${CURRENT_SCHEMA_VERSION}`);
+            return null;
+        }
+        data = step.migrate(data);
+        current = step.to;
+    }
+    return { ...data, version: CURRENT_SCHEMA_VERSION };
+}
+
+/**
+ * Migrate and validate a parsed project file. Anything missing is filled from
+ * `defaults`; invalid elements are dropped and reported rather than failing the
+ * whole import. Only files that are not projects at all, or come from a newer
+ * version of the app, are rejected.
+ */
+export function loadProject(raw: unknown, defaults: ICFProject): SchemaResult {
+    const checker = new SchemaChecker();
+    const fail = (): SchemaResult => ({ project: null, problems: checker.problems });
+
+    if (!isObject(raw) || !isObject(raw.elements)) {
+        checker.error('', 'Not an ICF project file (no elements)');
+        return fail();
+    }
+
+    let version = raw.version;
+    if (typeof version !== 'string') {
+        checker.warn('version', `${describe(version)} - assuming 1.0`);
+        version = '1.0';
+    }
+    const fromVersion = version as string;
+    if (compareVersions(fromVersion, CURRENT_SCHEMA_VERSION) > 0) {
+        checker.error('version', `Saved by a newer version (${fromVersion}); this app reads up to ${CURRENT_SCHEMA_VERSION}`);
+        return fail();
+    }
+
+    const data = migrate(JSON.parse(JSON.stringify(raw)), fromVersion, checker);
+    if (!data) return fail();
+
+    // Project details
+    const project = JSON.parse(JSON.stringify(defaults)) as ICFProject;
+    for (const field of ['name', 'created', 'modified'] as const) {
+        const value = data[field];
+        if (typeof value === 'string') project[field] = value;
+        else checker.warn(field, `${describe(value)} - using ${project[field]}`);
+    }
+
+    // Settings - bad values fall back to the defaults
+    const settings = isObject(data.settings) ? data.settings : {};
+    if (!isObject(data.settings)) checker.warn('settings', 'missing - using defaults');
+    const projectSettings = project.settings as unknown as RawObject;
+    for (const [field, rule] of Object.entries(SETTINGS_RULES)) {
+        const value = settings[field];
+        if (value === undefined) continue;
+        const reason = rule.check(value);
+        if (reason) {
+            checker.warn(`settings.${field}`, `${reason} - using default`);
+        } else {
+            projectSettings[field] = value;
+        }
+    }
+    if (isObject(projectSettings.rebarRules)) {
+        const rules = projectSettings.rebarRules;
+        Object.keys(rules).forEach(core => {
+            const rule = rules[core];
+            if (!CORE_THICKNESS_OPTIONS.some(option => option === Number(core)) || !isObject(rule)) {
+                checker.warn(`settings.rebarRules.${core}`, 'not a core thickness rule - removed');
+                delete rules[core];
+            } else {
+                checker.checkFields(rule, REBAR_RULE_RULES, `settings.rebarRules.${core}`);
+            }
+        });
+    }
+
+    // Elements
+    const ids = new Set<string>();
+    const elements = data.elements as RawObject;
+    const target = project.elements as unknown as RawObject;
+    for (const [key, rules] of Object.entries(ELEMENT_RULES)) {
+        const [group, name] = key.split('.');
+        const source = name ? (isObject(elements[group]) ? (elements[group] as RawObject)[name] : undefined) : elements[group];
+        const list = checker.checkList(source, rules, `elements.${key}`, ids);
+        if (name) (target[group] as RawObject)[name] = list;
+        else target[group] = list;
+    }
+
+    // Openings on a wall that no longer exists stop cutting it
+    const blockIds = new Set(project.elements.icfBlocks.map(b => b.id));
+    for (const kind of ['windows', 'doors'] as const) {
+        project.elements[kind].forEach((opening, index) => {
+            if (opening.wallId && !blockIds.has(opening.wallId)) {
+                checker.warn(`elements.${kind}[${index}].wallId`, `wall ${opening.wallId} not found - detached`);
+                delete opening.wallId;
+            }
+        });
+    }
+
+    project.areas = checker.checkList(data.areas, AREA_RULES, 'areas', new Set()) as unknown as ICFProject['areas'];
+
+    // Elements in an area that no longer exists are left in no area
+    const areaIds = new Set(project.areas.map(area => area.id));
+    for (const kind of ['icfBlocks', 'framing'] as const) {
+        project.elements[kind].forEach((element, index) => {
+            if (element.areaId && !areaIds.has(element.areaId)) {
+                checker.warn(`elements.${kind}[${index}].areaId`, `area ${element.areaId} not found - removed`);
+                delete element.areaId;
+            }
+        });
+    }
+    project.annotations = checker.checkList(
+        data.annotations, ANNOTATION_RULES, 'annotations', new Set()
+    ) as unknown as ICFProject['annotations'];
+
+    // Layers - unknown layers are ignored, bad settings fall back to defaults
+    const layers: RawObject = {};
+    if (isObject(data.layers)) {
+        Object.entries(data.layers).forEach(([type, value]) => {
+            if (!LAYER_TYPES.includes(type as LayerType)) {
+                checker.warn(`layers.${type}`, 'unknown layer - ignored');
+            } else if (isObject(value)) {
+                checker.checkFields(value, LAYER_RULES, `layers.${type}`);
+                layers[type] = value;
+            } else {
+                checker.warn(`layers.${type}`, `${describe(value)} - using defaults`);
+            }
+        });
+    }
+    project.layers = normalizeLayers(layers);
+    project.version = CURRENT_SCHEMA_VERSION;
+
+    return {
+        project,
+        problems: checker.problems,
+        migratedFrom: fromVersion !== CURRENT_SCHEMA_VERSION ? fromVersion : undefined
+    };
+}
+
+/**
+ * One line per problem, for showing to the user
+ */
+export const formatSchemaProblems = (problems: SchemaProblem[]): string[] =>
+    problems.map(p => (p.path ? `${p.path}: ${p.message}` : p.message));
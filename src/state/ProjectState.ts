@@ -1,18 +1,41 @@
 // Project State Management
 import * as THREE from 'three';
 import {
-    ICFProject, ProjectElements, ICFBlock, FramingWall, Pipe,
+    ICFProject, ProjectElements, ProjectSettings, ICFBlock, FramingWall, Pipe,
     WireRun, Outlet, Switch, ElectricalPanel, LowVoltageRun,
-    NetworkDrop, Equipment, Cabinet, Window, Door, Area,
-    ICFBlockType, ICFCoreThickness, LayerState, ToolMode, ElementCategory
+    NetworkDrop, Equipment, EquipmentType, Cabinet, Window, Door, Area,
+    ICFBlockType, ICFCoreThickness, LayerType, LayerSettings, LayerState, ToolMode, ElementCategory,
+    FramingType, PipeType, PlumbingSystem, WireType, CircuitType, LowVoltageType, Vector3,
+    WindowType, DoorType, BuckMaterial, Annotation, MeasurementKind
 } from '../types/project';
+import { DEFAULT_CONCRETE_WASTE_FACTOR, DEFAULT_POUR_LIFT_HEIGHT } from '../utils/ConcreteCalculator';
+import { normalizeLayers, getElementLayer, getEquipmentLayer, PIPE_SYSTEM_LAYERS } from '../data/layerCatalog';
+import { OpeningKind, OpeningPlacement } from '../utils/OpeningCalculator';
+import { CURRENT_SCHEMA_VERSION, SchemaProblem, loadProject } from './ProjectSchema';
+import { ProjectHistory, ProjectChange, createChange, addPatchToChange } from './ProjectHistory';
+import {
+    ProjectElement, MirrorAxis, getElementArrays, findElements, pickElements, transformElement, translatePoint,
+    rotatePointAbout, mirrorElement, normalizeRotation, getSelectionCenter
+} from '../utils/SelectionUtils';
 
 // Generate unique IDs
 const generateId = (): string => `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
+// Plain data copy of a THREE vector for storing in the project
+const toVector = (v: THREE.Vector3): Vector3 => ({ x: v.x, y: v.y, z: v.z });
+
+// History step names for settings edits
+const SETTING_LABELS: Record<string, string> = {
+    gridUnit: 'Change units',
+    costMultiplier: 'Change cost multiplier',
+    concreteWasteFactor: 'Change concrete waste',
+    pourLiftHeight: 'Change pour lift',
+    rebarRules: 'Change rebar rules'
+};
+
 // Create empty project
 export const createEmptyProject = (): ICFProject => ({
-    version: '1.0',
+    version: CURRENT_SCHEMA_VERSION,
     name: 'Untitled Project',
     created: new Date().toISOString(),
     modified: new Date().toISOString(),
@@ -20,7 +43,9 @@ export const createEmptyProject = (): ICFProject => ({
         gridUnit: 'inches',
         costMultiplier: 1.0,
         showGrid: true,
-        gridSize: 8
+        gridSize: 8,
+        concreteWasteFactor: DEFAULT_CONCRETE_WASTE_FACTOR,
+        pourLiftHeight: DEFAULT_POUR_LIFT_HEIGHT
     },
     areas: [],
     elements: {
@@ -41,15 +66,17 @@ export const createEmptyProject = (): ICFProject => ({
         cabinets: [],
         windows: [],
         doors: []
-    }
+    },
+    layers: normalizeLayers(),
+    annotations: []
 });
 
 export class ProjectState {
     private project: ICFProject;
     private meshMap: Map<string, THREE.Object3D> = new Map();
-    private history: ICFProject[] = [];
-    private historyIndex: number = -1;
-    private maxHistory: number = 50;
+    private history: ProjectHistory;
+    private pendingChange: ProjectChange = createChange(); // sent with the next notification
+    private changePending = false; // a change was held back until the transaction ends
 
     // Current tool state
     public currentTool: ToolMode = 'place';
@@ -57,33 +84,44 @@ export class ProjectState {
     public currentBlockType: ICFBlockType = 'standard';
     public currentCoreThickness: ICFCoreThickness = 8;
     public currentRotation: number = 0;
-    public selectedElementId: string | null = null;
-
-    // Layer visibility
-    public layers: LayerState = {
-        icf: true,
-        framing: true,
-        'plumbing-cold': true,
-        'plumbing-hot': true,
-        'plumbing-drain': true,
-        hvac: true,
-        electrical: true,
-        lowVoltage: true,
-        equipment: true,
-        cabinets: true,
-        windows: true
-    };
+    public currentWallHeight: number = 96; // inches
+    public currentCourse: number = 0; // 0 = first course on the ground
+
+    // Path tool state (framing, plumbing, electrical, low voltage)
+    public currentFramingType: FramingType = '2x4';
+    public currentFramingHeight: number = 96; // inches
+    public currentPipeType: PipeType = 'pex-1/2';
+    public currentPlumbingSystem: PlumbingSystem = 'water-cold';
+    public currentWireType: WireType = '14-2';
+    public currentCircuit: CircuitType = 'general';
+    public currentLowVoltageType: LowVoltageType = 'cat6';
+    public currentRunElevation: number = 12; // inches above the floor
+    public currentOpeningKind: OpeningKind = 'window';
+    public currentWindowType: WindowType = '36x48';
+    public currentDoorType: DoorType = '36x80';
+    public currentBuckMaterial: BuckMaterial = 'vinyl';
+    public currentMeasureMode: MeasurementKind = 'distance';
+    public selection: Set<string> = new Set();
+
+    // Copied elements, detached from the project (not saved)
+    private clipboard: ProjectElements | null = null;
+
+    // Layer shown alone while isolating (view only, not saved)
+    public isolatedLayer: LayerType | null = null;
+
+    // Project library entry this project was opened from or last saved to
+    public libraryId: string | null = null;
 
     // Change callbacks
-    private onChangeCallbacks: (() => void)[] = [];
+    private onChangeCallbacks: ((change: ProjectChange) => void)[] = [];
 
     constructor() {
         this.project = createEmptyProject();
-        this.saveToHistory();
+        this.history = new ProjectHistory(this.project, 'New project');
     }
 
     // Subscribe to changes
-    onChange(callback: () => void): () => void {
+    onChange(callback: (change: ProjectChange) => void): () => void {
         this.onChangeCallbacks.push(callback);
         return () => {
             const index = this.onChangeCallbacks.indexOf(callback);
@@ -91,51 +129,79 @@ export class ProjectState {
         };
     }
 
-    private notifyChange(): void {
-        this.project.modified = new Date().toISOString();
-        this.onChangeCallbacks.forEach(cb => cb());
+    // `touched` is false when the project itself is unchanged (loaded, or only the selection changed)
+    private notifyChange(touched = true): void {
+        if (touched) this.project.modified = new Date().toISOString();
+        if (this.history.inTransaction()) {
+            this.changePending = true;
+            return;
+        }
+        this.emitChange();
     }
 
-    // History management
-    private saveToHistory(): void {
-        // Remove any future history if we're in the middle
-        if (this.historyIndex < this.history.length - 1) {
-            this.history = this.history.slice(0, this.historyIndex + 1);
-        }
+    private emitChange(): void {
+        const change = this.pendingChange;
+        this.pendingChange = createChange();
+        this.onChangeCallbacks.forEach(cb => cb(change));
+    }
 
-        // Add current state
-        this.history.push(JSON.parse(JSON.stringify(this.project)));
+    // Elements whose selection state flipped are redrawn like edited ones
+    private markSelectionChanged(ids: Iterable<string>): void {
+        for (const id of ids) this.pendingChange.updated.add(id);
+    }
 
-        // Limit history size
-        if (this.history.length > this.maxHistory) {
-            this.history.shift();
-        }
+    // History management - every recorded edit also says which elements the next notification touched
+    private saveToHistory(label: string): void {
+        addPatchToChange(this.pendingChange, this.history.record(this.project, label), true);
+    }
 
-        this.historyIndex = this.history.length - 1;
+    /**
+     * Run several edits as one undo step named `label`.
+     * Subscribers are notified once, when the outermost transaction ends.
+     */
+    transaction<T>(label: string, edit: () => T): T {
+        this.history.beginTransaction(label);
+        try {
+            return edit();
+        } finally {
+            addPatchToChange(this.pendingChange, this.history.endTransaction(this.project), true);
+            if (!this.history.inTransaction() && this.changePending) {
+                this.changePending = false;
+                this.emitChange();
+            }
+        }
     }
 
     undo(): boolean {
-        if (this.historyIndex > 0) {
-            this.historyIndex--;
-            this.project = JSON.parse(JSON.stringify(this.history[this.historyIndex]));
-            this.notifyChange();
-            return true;
-        }
-        return false;
+        if (!this.history.undo(this.project, this.pendingChange)) return false;
+        this.notifyChange();
+        return true;
     }
 
     redo(): boolean {
-        if (this.historyIndex < this.history.length - 1) {
-            this.historyIndex++;
-            this.project = JSON.parse(JSON.stringify(this.history[this.historyIndex]));
-            this.notifyChange();
-            return true;
-        }
-        return false;
+        if (!this.history.redo(this.project, this.pendingChange)) return false;
+        this.notifyChange();
+        return true;
+    }
+
+    // Jump to a step in the history panel (0 is the state the project was opened in)
+    jumpToHistory(position: number): boolean {
+        if (!this.history.jumpTo(this.project, position, this.pendingChange)) return false;
+        this.notifyChange();
+        return true;
+    }
+
+    getHistoryLabels(): string[] {
+        return this.history.getLabels();
     }
 
-    // ICF Block operations
-    addICFBlock(position: THREE.Vector3): ICFBlock {
+    getHistoryPosition(): number {
+        return this.history.getPosition();
+    }
+
+    // ICF Block operations - like every add below, nothing is added to a locked layer
+    addICFBlock(position: THREE.Vector3): ICFBlock | null {
+        if (this.isLayerLocked('icf')) return null;
         const block: ICFBlock = {
             id: generateId(),
             type: this.currentBlockType,
@@ -145,16 +211,29 @@ export class ProjectState {
         };
 
         this.project.elements.icfBlocks.push(block);
-        this.saveToHistory();
+        this.saveToHistory('Place block');
         this.notifyChange();
         return block;
     }
 
+    // Add many blocks as a single undoable step (e.g. a generated wall run)
+    addICFBlocks(blocks: Omit<ICFBlock, 'id'>[]): ICFBlock[] {
+        if (this.isLayerLocked('icf')) return [];
+        const added = blocks.map(b => ({ ...b, id: generateId() }));
+        if (added.length === 0) return added;
+
+        this.project.elements.icfBlocks.push(...added);
+        this.saveToHistory(`Place ${added.length} blocks`);
+        this.notifyChange();
+        return added;
+    }
+
     removeICFBlock(id: string): boolean {
+        if (this.isLayerLocked('icf')) return false;
         const index = this.project.elements.icfBlocks.findIndex(b => b.id === id);
         if (index > -1) {
             this.project.elements.icfBlocks.splice(index, 1);
-            this.saveToHistory();
+            this.saveToHistory('Delete block');
             this.notifyChange();
             return true;
         }
@@ -162,18 +241,88 @@ export class ProjectState {
     }
 
     updateICFBlock(id: string, updates: Partial<ICFBlock>): boolean {
+        if (this.isLayerLocked('icf')) return false;
         const block = this.project.elements.icfBlocks.find(b => b.id === id);
         if (block) {
             Object.assign(block, updates);
-            this.saveToHistory();
+            this.saveToHistory('Edit block');
             this.notifyChange();
             return true;
         }
         return false;
     }
 
+    // Framing operations - one wall per segment of the drawn path, as one undo step
+    addFramingWalls(points: THREE.Vector3[]): FramingWall[] {
+        if (this.isLayerLocked('framing')) return [];
+        const walls: FramingWall[] = [];
+        for (let i = 1; i < points.length; i++) {
+            walls.push({
+                id: generateId(),
+                type: this.currentFramingType,
+                start: toVector(points[i - 1]),
+                end: toVector(points[i]),
+                height: this.currentFramingHeight
+            });
+        }
+        if (walls.length === 0) return walls;
+
+        this.project.elements.framing.push(...walls);
+        this.saveToHistory('Draw framing');
+        this.notifyChange();
+        return walls;
+    }
+
+    // Plumbing operations
+    addPipe(path: THREE.Vector3[]): Pipe | null {
+        if (this.isLayerLocked(PIPE_SYSTEM_LAYERS[this.currentPlumbingSystem])) return null;
+        const pipe: Pipe = {
+            id: generateId(),
+            type: this.currentPipeType,
+            system: this.currentPlumbingSystem,
+            path: path.map(toVector)
+        };
+
+        this.project.elements.plumbing.push(pipe);
+        this.saveToHistory('Draw plumbing run');
+        this.notifyChange();
+        return pipe;
+    }
+
+    // Electrical operations
+    addWireRun(path: THREE.Vector3[]): WireRun | null {
+        if (this.isLayerLocked('electrical')) return null;
+        const wire: WireRun = {
+            id: generateId(),
+            type: this.currentWireType,
+            circuit: this.currentCircuit,
+            path: path.map(toVector)
+        };
+
+        this.project.elements.electrical.wires.push(wire);
+        this.saveToHistory('Draw wire run');
+        this.notifyChange();
+        return wire;
+    }
+
+    // Low voltage operations
+    addLowVoltageRun(path: THREE.Vector3[]): LowVoltageRun | null {
+        if (this.isLayerLocked('lowVoltage')) return null;
+        const run: LowVoltageRun = {
+            id: generateId(),
+            type: this.currentLowVoltageType,
+            path: path.map(toVector)
+        };
+
+        this.project.elements.lowVoltage.runs.push(run);
+        this.saveToHistory('Draw low-voltage run');
+        this.notifyChange();
+        return run;
+    }
+
     // Equipment operations
-    addEquipment(type: string, position: THREE.Vector3): Equipment {
+    addEquipment(type: string, position: THREE.Vector3): Equipment | null {
+        if (this.isLayerLocked(getEquipmentLayer(type as EquipmentType))) return null;
         const equipment: Equipment = {
             id: generateId(),
             type: type as any,
@@ -183,13 +332,14 @@ export class ProjectState {
         };
 
         this.project.elements.equipment.push(equipment);
-        this.saveToHistory();
+        this.saveToHistory('Place equipment');
         this.notifyChange();
         return equipment;
     }
 
     // Cabinet operations
-    addCabinet(type: string, position: THREE.Vector3): Cabinet {
+    addCabinet(type: string, position: THREE.Vector3): Cabinet | null {
+        if (this.isLayerLocked('cabinets')) return null;
         const cabinet: Cabinet = {
             id: generateId(),
             type: type as any,
@@ -198,13 +348,14 @@ export class ProjectState {
         };
 
         this.project.elements.cabinets.push(cabinet);
-        this.saveToHistory();
+        this.saveToHistory('Place cabinet');
         this.notifyChange();
         return cabinet;
     }
 
     // Window operations  
-    addWindow(type: string, position: THREE.Vector3): Window {
+    addWindow(type: string, position: THREE.Vector3): Window | null {
+        if (this.isLayerLocked('windows')) return null;
         const window: Window = {
             id: generateId(),
             type: type as any,
@@ -213,37 +364,70 @@ export class ProjectState {
         };
 
         this.project.elements.windows.push(window);
-        this.saveToHistory();
+        this.saveToHistory('Place window');
         this.notifyChange();
         return window;
     }
 
+    // Window or door set into an ICF wall, framed with the current buck material
+    addOpening(placement: OpeningPlacement): Window | Door | null {
+        if (this.isLayerLocked('windows')) return null;
+        const opening = {
+            id: generateId(),
+            position: toVector(placement.position),
+            rotation: placement.rotation,
+            wallId: placement.wallId,
+            buckMaterial: this.currentBuckMaterial
+        };
+
+        let added: Window | Door;
+        if (this.currentOpeningKind === 'window') {
+            added = { ...opening, type: this.currentWindowType };
+            this.project.elements.windows.push(added);
+        } else {
+            added = { ...opening, type: this.currentDoorType };
+            this.project.elements.doors.push(added);
+        }
+
+        this.saveToHistory(`Place ${this.currentOpeningKind}`);
+        this.notifyChange();
+        return added;
+    }
+
+    // Pinned measurements
+    addAnnotation(kind: MeasurementKind, points: THREE.Vector3[], label?: string): Annotation {
+        const annotation: Annotation = {
+            id: generateId(),
+            kind,
+            points: points.map(toVector),
+            ...(label ? { label } : {})
+        };
+
+        this.project.annotations.push(annotation);
+        this.saveToHistory('Pin measurement');
+        this.notifyChange();
+        return annotation;
+    }
+
+    deleteAnnotation(id: string): boolean {
+        const index = this.project.annotations.findIndex(a => a.id === id);
+        if (index === -1) return false;
+        this.project.annotations.splice(index, 1);
+        this.saveToHistory('Delete measurement');
+        this.notifyChange();
+        return true;
+    }
+
     // Generic delete
     deleteElement(id: string): boolean {
-        const elements = this.project.elements;
-
-        // Check all arrays
-        const arrays = [
-            elements.icfBlocks,
-            elements.framing,
-            elements.plumbing,
-            elements.electrical.wires,
-            elements.electrical.outlets,
-            elements.electrical.switches,
-            elements.electrical.panels,
-            elements.lowVoltage.runs,
-            elements.lowVoltage.drops,
-            elements.equipment,
-            elements.cabinets,
-            elements.windows,
-            elements.doors
-        ];
-
-        for (const arr of arrays) {
-            const index = arr.findIndex((el: any) => el.id === id);
+        if (this.isElementLocked(id)) return false;
+
+        for (const arr of getElementArrays(this.project.elements)) {
+            const index = arr.findIndex(el => el.id === id);
             if (index > -1) {
                 arr.splice(index, 1);
-                this.saveToHistory();
+                this.selection.delete(id);
+                this.saveToHistory('Delete element');
                 this.notifyChange();
                 return true;
             }
@@ -251,17 +435,297 @@ export class ProjectState {
         return false;
     }
 
-    // Rotation
-    rotateSelection(): void {
-        this.currentRotation = (this.currentRotation + 90) % 360;
+    // Rotation - turns the placement rotation, and the selection about its center
+    rotateSelection(degrees = 90): void {
+        this.currentRotation = normalizeRotation(this.currentRotation + degrees);
+
+        if (this.selection.size > 0) {
+            this.rotateSelectionAbout(degrees);
+        } else {
+            this.notifyChange();
+        }
+    }
+
+    // Selection
+    isSelected(id: string): boolean {
+        return this.selection.has(id);
+    }
+
+    getSelectedIds(): string[] {
+        return Array.from(this.selection);
+    }
 
-        if (this.selectedElementId) {
-            this.updateICFBlock(this.selectedElementId, { rotation: this.currentRotation });
+    setSelection(ids: string[], additive = false): void {
+        const next = new Set(additive ? [...this.selection, ...ids] : ids);
+        this.markSelectionChanged([...this.selection].filter(id => !next.has(id)));
+        this.markSelectionChanged(ids.filter(id => !this.selection.has(id)));
+        this.selection = next;
+        this.notifyChange(false);
+    }
+
+    toggleSelection(id: string): void {
+        if (this.selection.has(id)) {
+            this.selection.delete(id);
+        } else {
+            this.selection.add(id);
         }
+        this.markSelectionChanged([id]);
+        this.notifyChange(false);
+    }
+
+    clearSelection(): void {
+        if (this.selection.size === 0) return;
+        this.markSelectionChanged(this.selection);
+        this.selection.clear();
+        this.notifyChange(false);
+    }
 
+    // Selected elements that may be edited (not on a locked layer)
+    private getEditableSelection(): ProjectElement[] {
+        return findElements(this.project.elements, this.selection)
+            .filter(el => !this.isElementLocked(el.id));
+    }
+
+    /**
+     * Editable elements among `ids`, with the openings set in any of their
+     * blocks: an opening moves, turns and mirrors with its wall
+     */
+    private getTransformedElements(ids: Iterable<string>): ProjectElement[] {
+        const moving = new Set(ids);
+        const { windows, doors } = this.project.elements;
+        for (const opening of [...windows, ...doors]) {
+            if (opening.wallId && moving.has(opening.wallId)) moving.add(opening.id);
+        }
+        return findElements(this.project.elements, moving).filter(el => !this.isElementLocked(el.id));
+    }
+
+    moveSelection(delta: Vector3): number {
+        return this.moveElements(this.selection, delta, 'Move selection');
+    }
+
+    /**
+     * Move elements by `delta`, taking the openings set in any moved block with
+     * it. Elements on locked layers stay put. Returns how many were moved.
+     */
+    moveElements(ids: Iterable<string>, delta: Vector3, label?: string): number {
+        const elements = this.getTransformedElements(ids);
+        if (elements.length === 0) return 0;
+
+        const move = translatePoint(delta);
+        elements.forEach(el => transformElement(el, move));
+        this.saveToHistory(label ?? (elements.length === 1 ? 'Move block' : 'Move selection'));
+        this.notifyChange();
+        return elements.length;
+    }
+
+    // The pivot defaults to the center of the selection itself, not of the openings carried with it
+    rotateSelectionAbout(degrees: number, pivot?: Vector3): number {
+        const elements = this.getTransformedElements(this.selection);
+        if (elements.length === 0) return 0;
+
+        const rotate = rotatePointAbout(pivot || getSelectionCenter(this.getEditableSelection()), degrees);
+        elements.forEach(el => transformElement(el, rotate, degrees));
+        this.saveToHistory('Rotate selection');
+        this.notifyChange();
+        return elements.length;
+    }
+
+    // Mirror the selection across a vertical plane through its center (or `pivot`)
+    mirrorSelection(axis: MirrorAxis, pivot?: Vector3): number {
+        const elements = this.getTransformedElements(this.selection);
+        if (elements.length === 0) return 0;
+
+        const center = pivot || getSelectionCenter(this.getEditableSelection());
+        elements.forEach(el => mirrorElement(el, center, axis));
+        this.saveToHistory('Mirror selection');
+        this.notifyChange();
+        return elements.length;
+    }
+
+    /**
+     * Copy the selection, offset by `delta`, and select the copies.
+     * Openings copied with their wall stay attached to the copied blocks.
+     */
+    copySelection(delta: Vector3): number {
+        const ids = new Set(this.getEditableSelection().map(el => el.id));
+        if (ids.size === 0) return 0;
+
+        const copies = this.insertCopies(pickElements(this.project.elements, ids), [translatePoint(delta)]);
+        this.markSelectionChanged(this.selection);
+        this.selection = new Set(copies);
+        this.saveToHistory('Duplicate selection');
+        this.notifyChange();
+        return ids.size;
+    }
+
+    /**
+     * Linear or rectangular array of the selection: `columns` × `rows` instances
+     * (the original included), stepping by `columnStep` and `rowStep`
+     */
+    arraySelection(columns: number, columnStep: Vector3, rows = 1, rowStep: Vector3 = { x: 0, y: 0, z: 0 }): number {
+        const ids = new Set(this.getEditableSelection().map(el => el.id));
+        if (ids.size === 0 || columns * rows < 2) return 0;
+
+        const moves: ((v: Vector3) => Vector3)[] = [];
+        for (let row = 0; row < rows; row++) {
+            for (let col = 0; col < columns; col++) {
+                if (row === 0 && col === 0) continue;
+                moves.push(translatePoint({
+                    x: columnStep.x * col + rowStep.x * row,
+                    y: columnStep.y * col + rowStep.y * row,
+                    z: columnStep.z * col + rowStep.z * row
+                }));
+            }
+        }
+
+        const copies = this.insertCopies(pickElements(this.project.elements, ids), moves);
+        copies.forEach(id => this.selection.add(id));
+        this.saveToHistory('Array selection');
+        this.notifyChange();
+        return copies.length;
+    }
+
+    // Clipboard
+    copyToClipboard(): number {
+        this.clipboard = pickElements(this.project.elements, this.selection);
+        return this.getClipboardElements().length;
+    }
+
+    cutSelection(): number {
+        const ids = new Set(this.getEditableSelection().map(el => el.id));
+        if (ids.size === 0) return 0;
+        this.clipboard = pickElements(this.project.elements, ids);
+        return this.transaction('Cut', () => this.deleteSelection());
+    }
+
+    hasClipboard(): boolean {
+        return this.getClipboardElements().length > 0;
+    }
+
+    getClipboardElements(): ProjectElement[] {
+        return this.clipboard ? getElementArrays(this.clipboard).flat() : [];
+    }
+
+    // First copied block, which paste-at-cursor snaps against existing blocks
+    getClipboardAnchorBlock(): ICFBlock | null {
+        return this.clipboard?.icfBlocks[0] || null;
+    }
+
+    /**
+     * Paste the clipboard offset by `delta` from where it was copied, and select the pasted elements.
+     * Elements on locked layers are skipped.
+     */
+    pasteClipboard(delta: Vector3): number {
+        if (!this.clipboard) return 0;
+        const copies = this.insertCopies(this.clipboard, [translatePoint(delta)]);
+        if (copies.length === 0) return 0;
+
+        this.markSelectionChanged(this.selection);
+        this.selection = new Set(copies);
+        this.saveToHistory('Paste');
+        this.notifyChange();
+        return copies.length;
+    }
+
+    /**
+     * Add a copy of every source element for each transform, with new ids.
+     * Openings whose wall is copied too are attached to the matching copy; the
+     * rest are left on no wall rather than on the wall they were copied from.
+     * Returns the new ids.
+     */
+    private insertCopies(source: ProjectElements, transforms: ((v: Vector3) => Vector3)[]): string[] {
+        const sourceProject = { ...this.project, elements: source };
+        const sourceArrays = getElementArrays(source);
+        const targetArrays = getElementArrays(this.project.elements);
+        const newIds: string[] = [];
+
+        // Elements on locked layers are not copied
+        const copied = new Set(sourceArrays.flat()
+            .filter(el => {
+                const layer = getElementLayer(sourceProject, el.id);
+                return !layer || !this.isLayerLocked(layer);
+            })
+            .map(el => el.id));
+
+        for (const transform of transforms) {
+            const idMap = new Map<string, string>();
+            copied.forEach(id => idMap.set(id, generateId()));
+
+            sourceArrays.forEach((arr, index) => {
+                for (const el of arr) {
+                    if (!copied.has(el.id)) continue;
+
+                    const copy: ProjectElement = JSON.parse(JSON.stringify(el));
+                    copy.id = idMap.get(el.id)!;
+                    if ('wallId' in copy && copy.wallId) {
+                        if (idMap.has(copy.wallId)) copy.wallId = idMap.get(copy.wallId);
+                        else delete copy.wallId;
+                    }
+                    transformElement(copy, transform);
+                    targetArrays[index].push(copy);
+                    newIds.push(copy.id);
+                }
+            });
+        }
+        return newIds;
+    }
+
+    deleteSelection(): number {
+        const ids = new Set(this.getEditableSelection().map(el => el.id));
+        if (ids.size === 0) return 0;
+
+        for (const arr of getElementArrays(this.project.elements)) {
+            for (let i = arr.length - 1; i >= 0; i--) {
+                if (ids.has(arr[i].id)) arr.splice(i, 1);
+            }
+        }
+
+        ids.forEach(id => this.selection.delete(id));
+        this.saveToHistory('Delete selection');
+        this.notifyChange();
+        return ids.size;
+    }
+
+    /**
+     * Settings are saved with the project and undone like any other edit, each
+     * change as its own named step so the next edit doesn't pick it up
+     */
+    updateSettings(updates: Partial<ProjectSettings>): void {
+        const settings = this.project.settings as unknown as Record<string, unknown>;
+        const fields = Object.keys(updates);
+        const unchanged = fields.every(field =>
+            JSON.stringify(settings[field]) === JSON.stringify(updates[field as keyof ProjectSettings]));
+        if (unchanged) return;
+
+        Object.assign(this.project.settings, updates);
+        this.saveToHistory(fields.length === 1 ? SETTING_LABELS[fields[0]] ?? 'Change settings' : 'Change settings');
+        this.notifyChange();
+    }
+
+    // Layers
+    getLayers(): LayerState {
+        return this.project.layers;
+    }
+
+    updateLayer(type: LayerType, updates: Partial<LayerSettings>): void {
+        Object.assign(this.project.layers[type], updates);
         this.notifyChange();
     }
 
+    isolateLayer(type: LayerType | null): void {
+        this.isolatedLayer = type;
+        this.notifyChange();
+    }
+
+    isLayerLocked(type: LayerType): boolean {
+        return this.project.layers[type].locked;
+    }
+
+    isElementLocked(id: string): boolean {
+        const layer = getElementLayer(this.project, id);
+        return layer !== null && this.isLayerLocked(layer);
+    }
+
     // Mesh tracking
     registerMesh(id: string, mesh: THREE.Object3D): void {
         this.meshMap.set(id, mesh);
@@ -275,8 +739,13 @@ export class ProjectState {
         return this.meshMap.get(id);
     }
 
+    // Each object once - instanced blocks share their batch's object
     getAllMeshes(): THREE.Object3D[] {
-        return Array.from(this.meshMap.values());
+        return Array.from(new Set(this.meshMap.values()));
+    }
+
+    clearMeshes(): void {
+        this.meshMap.clear();
     }
 
     // Project getters
@@ -292,52 +761,107 @@ export class ProjectState {
         return this.project.areas;
     }
 
+    // Areas group blocks and framing walls (e.g. house and garage) for tinting and costs
+    addArea(name: string, color: string): Area {
+        const area: Area = { id: generateId(), name, color };
+        this.project.areas.push(area);
+        this.saveToHistory('Add area');
+        this.notifyChange();
+        return area;
+    }
+
+    updateArea(id: string, updates: Partial<Omit<Area, 'id'>>): boolean {
+        const area = this.project.areas.find(a => a.id === id);
+        if (!area) return false;
+        Object.assign(area, updates);
+        this.saveToHistory(updates.name !== undefined ? 'Rename area' : 'Change area colour');
+        this.notifyChange();
+        return true;
+    }
+
+    // Delete an area; its elements are left in no area
+    deleteArea(id: string): boolean {
+        const index = this.project.areas.findIndex(a => a.id === id);
+        if (index === -1) return false;
+        this.project.areas.splice(index, 1);
+        this.getAreaElements(id).forEach(el => delete el.areaId);
+        this.saveToHistory('Delete area');
+        this.notifyChange();
+        return true;
+    }
+
+    // Blocks and framing walls in an area
+    getAreaElements(id: string): (ICFBlock | FramingWall)[] {
+        const { icfBlocks, framing } = this.project.elements;
+        return [...icfBlocks, ...framing].filter(el => el.areaId === id);
+    }
+
+    /**
+     * Put the selected blocks and framing walls in an area (null: in no area).
+     * Other elements have no area of their own. Returns how many were changed.
+     */
+    assignSelectionToArea(areaId: string | null): number {
+        const { icfBlocks, framing } = this.project.elements;
+        const elements = [
+            ...(this.isLayerLocked('icf') ? [] : icfBlocks),
+            ...(this.isLayerLocked('framing') ? [] : framing)
+        ].filter(el => this.selection.has(el.id) && (el.areaId ?? null) !== areaId);
+        if (elements.length === 0) return 0;
+
+        elements.forEach(el => {
+            if (areaId) el.areaId = areaId;
+            else delete el.areaId;
+        });
+        this.saveToHistory(areaId ? 'Assign to area' : 'Remove from area');
+        this.notifyChange();
+        return elements.length;
+    }
+
     // JSON Import/Export
     exportJSON(): string {
         return JSON.stringify(this.project, null, 2);
     }
 
-    importJSON(json: string): void {
+    /**
+     * Replace the project with a saved file, migrated to the current schema.
+     * Returns every problem found; the project is only replaced when none are errors.
+     * The project is detached from the library - set `libraryId` after opening a library entry.
+     */
+    importJSON(json: string): SchemaProblem[] {
+        let parsed: unknown;
         try {
-            const parsed = JSON.parse(json) as ICFProject;
-            // Validate basic structure
-            if (!parsed.version || !parsed.elements) {
-                throw new Error('Invalid project format');
-            }
-            this.project = parsed;
-            this.saveToHistory();
-            this.notifyChange();
+            parsed = JSON.parse(json);
         } catch (e) {
-            throw new Error(`Failed to import project: ${e}`);
+            return [{ path: '', message: `Not valid JSON: ${e instanceof Error ? e.message : e}`, severity: 'error' }];
         }
-    }
 
-    // Save/Load from localStorage
-    saveToLocalStorage(): void {
-        localStorage.setItem('icf-project', this.exportJSON());
+        const result = loadProject(parsed, createEmptyProject());
+        if (!result.project) return result.problems;
+
+        this.project = result.project;
+        this.history.reset(this.project, 'Opened project');
+        this.pendingChange.reset = true;
+        this.selection.clear();
+        this.isolatedLayer = null;
+        this.libraryId = null;
+        this.notifyChange(false);
+        return result.problems;
     }
 
-    loadFromLocalStorage(): boolean {
-        const saved = localStorage.getItem('icf-project');
-        if (saved) {
-            try {
-                this.importJSON(saved);
-                return true;
-            } catch (e) {
-                console.error('Failed to load saved project:', e);
-            }
-        }
-        return false;
+    setProjectName(name: string): void {
+        this.project.name = name;
+        this.saveToHistory('Rename project');
+        this.notifyChange();
     }
 
     // New project  
     newProject(): void {
         this.project = createEmptyProject();
-        this.history = [];
-        this.historyIndex = -1;
-        this.saveToHistory();
-        this.meshMap.clear();
-        this.selectedElementId = null;
+        this.history.reset(this.project, 'New project');
+        this.pendingChange.reset = true;
+        this.selection.clear();
+        this.isolatedLayer = null;
+        this.libraryId = null;
         this.notifyChange();
     }
 }
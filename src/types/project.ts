@@ -22,11 +22,23 @@ export interface ICFBlock {
   type: ICFBlockType;
   coreThickness: ICFCoreThickness;
   position: Vector3;
-  rotation: number; // degrees, 0/90/180/270
+  rotation: number; // degrees about the vertical axis, any angle 0-360
+  mirrored?: boolean; // corner90 flipped over, short leg on the other side of the long leg
+  cutLength?: number; // inches, straight blocks cut shorter on site
   areaId?: string;
   color?: string;
 }
 
+// Rebar
+export type RebarBarSize = '#4' | '#5';
+
+export interface RebarSpacingRule {
+  barSize: RebarBarSize;
+  horizontalEveryCourses: number;  // 1 = a bar layer in every 16" course
+  horizontalBarsPerLayer: number;  // 1 centered, 2 near each face
+  verticalSpacing: number;         // inches on center
+}
+
 // Interior Framing
 export type FramingType = '2x4' | '2x6';
 
@@ -136,12 +148,16 @@ export interface Cabinet {
 export type WindowType = '24x24' | '24x36' | '36x36' | '36x48' | '48x48' | '60x48';
 export type DoorType = '30x80' | '32x80' | '36x80' | 'sliding-72' | 'sliding-96';
 
+export type BuckMaterial = 'vinyl' | 'lumber';
+
+// position.y is the bottom of the unit (window sill / door threshold)
 export interface Window {
   id: string;
   type: WindowType;
   position: Vector3;
   rotation: number;
-  wallId?: string;
+  wallId?: string;              // ICF block the opening was placed on
+  buckMaterial?: BuckMaterial;  // buck framing the rough opening in an ICF wall
 }
 
 export interface Door {
@@ -150,6 +166,7 @@ export interface Door {
   position: Vector3;
   rotation: number;
   wallId?: string;
+  buckMaterial?: BuckMaterial;
 }
 
 // Complete Project
@@ -178,6 +195,19 @@ export interface ProjectSettings {
   costMultiplier: number;
   showGrid: boolean;
   gridSize: number;
+  concreteWasteFactor?: number; // fraction, e.g. 0.05 = 5%
+  pourLiftHeight?: number;      // inches per concrete pour lift
+  rebarRules?: Partial<Record<ICFCoreThickness, Partial<RebarSpacingRule>>>;
+}
+
+// Measurements pinned to the project
+export type MeasurementKind = 'distance' | 'chain' | 'area';
+
+export interface Annotation {
+  id: string;
+  kind: MeasurementKind;
+  points: Vector3[];
+  label?: string;
 }
 
 export interface ICFProject {
@@ -188,17 +218,24 @@ export interface ICFProject {
   settings: ProjectSettings;
   areas: Area[];
   elements: ProjectElements;
+  layers: LayerState;
+  annotations: Annotation[];
 }
 
 // Layer visibility
 export type LayerType = 
-  | 'icf' | 'framing' | 'plumbing-cold' | 'plumbing-hot' | 'plumbing-drain'
+  | 'icf' | 'framing' | 'plumbing-cold' | 'plumbing-hot' | 'plumbing-drain' | 'plumbing-vent'
   | 'hvac' | 'electrical' | 'lowVoltage' | 'equipment' | 'cabinets' | 'windows';
 
-export interface LayerState {
-  [key: string]: boolean;
+export interface LayerSettings {
+  visible: boolean;
+  opacity: number;   // 0-1
+  ghosted: boolean;  // drawn faint and not pickable
+  locked: boolean;   // elements cannot be added, edited or deleted
 }
 
+export type LayerState = Record<LayerType, LayerSettings>;
+
 // Tool modes
-export type ToolMode = 'select' | 'place' | 'delete' | 'measure';
+export type ToolMode = 'select' | 'place' | 'wall' | 'delete' | 'measure';
 export type ElementCategory = 'icf' | 'framing' | 'plumbing' | 'electrical' | 'lowVoltage' | 'equipment' | 'cabinets' | 'openings';
@@ -0,0 +1,107 @@
+// Block Collision - Overlap checks between ICF blocks using their true plan footprints
+import { ICFBlock } from '../types/project';
+import { ICF_BLOCK_CATALOG } from '../data/icfCatalog';
+import { getBlockBounds, BlockBounds, PlanPoint } from './BlockSnapping';
+
+// Blocks may share a face or touch within this much (inches) without overlapping
+const OVERLAP_TOLERANCE = 0.05;
+
+export interface BlockOverlap {
+    a: ICFBlock;
+    b: ICFBlock;
+}
+
+interface BlockExtent {
+    block: ICFBlock;
+    bounds: BlockBounds;
+    bottom: number;
+    top: number;
+}
+
+const getExtent = (block: ICFBlock): BlockExtent => ({
+    block,
+    bounds: getBlockBounds(block),
+    bottom: block.position.y,
+    top: block.position.y + ICF_BLOCK_CATALOG[block.type].height
+});
+
+// Range of a convex polygon projected onto an axis
+function project(points: PlanPoint[], axis: PlanPoint): [number, number] {
+    let min = Infinity, max = -Infinity;
+    for (const p of points) {
+        const d = p.x * axis.x + p.z * axis.z;
+        min = Math.min(min, d);
+        max = Math.max(max, d);
+    }
+    return [min, max];
+}
+
+/**
+ * Separating axis test: two convex polygons overlap unless some edge normal
+ * separates them. Polygons that only touch along an edge do not overlap.
+ */
+function convexOverlap(a: PlanPoint[], b: PlanPoint[]): boolean {
+    for (const polygon of [a, b]) {
+        for (let i = 0; i < polygon.length; i++) {
+            const p = polygon[i], q = polygon[(i + 1) % polygon.length];
+            const length = Math.hypot(q.x - p.x, q.z - p.z);
+            if (length === 0) continue;
+            const axis = { x: -(q.z - p.z) / length, z: (q.x - p.x) / length };
+            const [minA, maxA] = project(a, axis);
+            const [minB, maxB] = project(b, axis);
+            if (Math.min(maxA, maxB) - Math.max(minA, minB) <= OVERLAP_TOLERANCE) return false;
+        }
+    }
+    return true;
+}
+
+function boundsOverlap(a: BlockBounds, b: BlockBounds): boolean {
+    if (Math.min(a.maxX, b.maxX) - Math.max(a.minX, b.minX) <= OVERLAP_TOLERANCE) return false;
+    if (Math.min(a.maxZ, b.maxZ) - Math.max(a.minZ, b.minZ) <= OVERLAP_TOLERANCE) return false;
+    return a.footprint.some(partA => b.footprint.some(partB => convexOverlap(partA, partB)));
+}
+
+function extentsOverlap(a: BlockExtent, b: BlockExtent): boolean {
+    if (Math.min(a.top, b.top) - Math.max(a.bottom, b.bottom) <= OVERLAP_TOLERANCE) return false;
+    return boundsOverlap(a.bounds, b.bounds);
+}
+
+/**
+ * Whether two blocks occupy some of the same space
+ */
+export function blocksOverlap(a: ICFBlock, b: ICFBlock): boolean {
+    return extentsOverlap(getExtent(a), getExtent(b));
+}
+
+/**
+ * Whether two blocks' plan footprints overlap, whatever their elevations
+ */
+export function footprintsOverlap(a: ICFBlock, b: ICFBlock): boolean {
+    return boundsOverlap(getBlockBounds(a), getBlockBounds(b));
+}
+
+/**
+ * Blocks that `block` would overlap (a block with the same id is the block itself)
+ */
+export function findOverlappingBlocks(block: ICFBlock, blocks: ICFBlock[]): ICFBlock[] {
+    const extent = getExtent(block);
+    return blocks.filter(other => other.id !== block.id && extentsOverlap(extent, getExtent(other)));
+}
+
+/**
+ * Every pair of overlapping blocks. Blocks are swept along X so only
+ * neighbours are compared.
+ */
+export function findAllOverlaps(blocks: ICFBlock[]): BlockOverlap[] {
+    const extents = blocks.map(getExtent).sort((a, b) => a.bounds.minX - b.bounds.minX);
+    const overlaps: BlockOverlap[] = [];
+    for (let i = 0; i < extents.length; i++) {
+        for (let j = i + 1; j < extents.length; j++) {
+            if (extents[j].bounds.minX >= extents[i].bounds.maxX - OVERLAP_TOLERANCE) break;
+            if (extentsOverlap(extents[i], extents[j])) {
+                overlaps.push({ a: extents[i].block, b: extents[j].block });
+            }
+        }
+    }
+    return overlaps;
+}
@@ -1,14 +1,17 @@
 // Block Snapping Utility - Edge-to-edge snapping for ICF blocks
 import * as THREE from 'three';
 import { ICFBlock, ICFBlockType, ICFCoreThickness } from '../types/project';
-import { ICF_BLOCK_CATALOG } from '../data/icfCatalog';
+import { ICF_BLOCK_CATALOG, getBlockLength } from '../data/icfCatalog';
+import { getCornerLegLengths } from './WallRunGenerator';
 
-interface BlockBounds {
+export interface BlockBounds {
     minX: number;
     maxX: number;
     minZ: number;
     maxZ: number;
     rotation: number;
+    // Plan footprint as convex pieces (one per corner leg) in world coordinates
+    footprint: PlanPoint[][];
 }
 
 interface SnapResult {
@@ -16,178 +19,201 @@ interface SnapResult {
     snappedToBlock: boolean;
     snappedBlockId?: string;
     snapEdge?: 'left' | 'right' | 'front' | 'back';
+    runningBond?: boolean;
 }
 
 const SNAP_THRESHOLD = 150; // Snap when within 150 inches of another block edge (increased for isometric camera)
 
+// Trim floating point noise from rotated coordinates
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+export interface PlanPoint {
+    x: number;
+    z: number;
+}
+
 /**
- * Gets the bounding box of a block in world coordinates
+ * Plan outline of a block in its own frame (before yaw), and which of its edges
+ * other blocks butt against. Edge i runs from points[i] to points[i + 1].
+ * `parts` splits the outline into convex pieces (indices into points) - corner
+ * blocks divide along the miter from the outside to the inside corner.
  */
-export function getBlockBounds(block: ICFBlock): BlockBounds {
-    const spec = ICF_BLOCK_CATALOG[block.type];
-    const width = spec.getWidth(block.coreThickness);
-    const pos = block.position;
-    const rotation = block.rotation;
-
-    // For standard rectangular blocks
-    if (block.type === 'standard' || block.type === 'taperTop' ||
-        block.type === 'brickLedge' || block.type === 'heightAdjuster') {
-        const halfLength = spec.length / 2;
-        const halfWidth = width / 2;
-
-        if (rotation === 0 || rotation === 180) {
-            // Block aligned along X axis
-            return {
-                minX: pos.x - halfLength,
-                maxX: pos.x + halfLength,
-                minZ: pos.z - halfWidth,
-                maxZ: pos.z + halfWidth,
-                rotation
-            };
-        } else {
-            // Block aligned along Z axis (rotated 90 or 270)
-            return {
-                minX: pos.x - halfWidth,
-                maxX: pos.x + halfWidth,
-                minZ: pos.z - halfLength,
-                maxZ: pos.z + halfLength,
-                rotation
-            };
-        }
-    }
+interface BlockOutline {
+    points: PlanPoint[];
+    snapEdges: number[];
+    parts: number[][];
+}
 
-    // For 90° corner blocks - geometry is centered, NOT at outside corner
-    // The geometry translate is: (-width/2, -height/2, -longLeg/2)
-    // So the block position is at the CENTER of the L-shape's bounding box
-    if (block.type === 'corner90') {
+/**
+ * Outline of a block type in local coordinates.
+ *
+ * corner90: long leg along local +Z, short leg along +X (-X when mirrored);
+ * the origin is centred on the long leg, as in BlockFactory.
+ * corner45: legs along local +Z and 135° clockwise from it, origin at the
+ * centerline vertex (see WallRunGenerator). Equal legs, so it is never mirrored.
+ */
+export function getBlockOutline(
+    type: ICFBlockType,
+    core: ICFCoreThickness,
+    length: number = ICF_BLOCK_CATALOG[type].length,
+    mirrored = false
+): BlockOutline {
+    const spec = ICF_BLOCK_CATALOG[type];
+    const width = spec.getWidth(core);
+    const halfWidth = width / 2;
+
+    if (type === 'corner90') {
         const longLeg = spec.longLeg || 38.5;
         const shortLeg = spec.shortLeg || 22.5;
-
-        // After rotation, the bounds change based on where the L-shape extends
-        // The geometry extends: 
-        // - In X from -width/2 to shortLeg - width/2 (i.e., shortLeg total in X)
-        // - In Z from -longLeg/2 to longLeg/2 (i.e., longLeg total in Z, centered)
-        // But wait, the shape is L-shaped, so it's not a simple rectangle
-
-        // For bounds purposes, use the bounding box of the L-shape
-        // The L-shape after translate extends:
-        // X: from -width/2 to (shortLeg - width/2) 
-        // Z: from -longLeg/2 to longLeg/2
-        // But the actual shape doesn't fill the whole rectangle
-
-        // For simple snapping, use the bounding rectangle of the L
-        const halfWidth = width / 2;
-
-        switch (rotation) {
-            case 0:
-                // L-shape: bottom-left corner at origin in local space
-                // After geometry.translate(-width/2, -, -longLeg/2), the shape is:
-                // X: -width/2 to shortLeg - width/2
-                // Z: -longLeg/2 to longLeg/2
-                return {
-                    minX: pos.x - halfWidth,
-                    maxX: pos.x + shortLeg - halfWidth,
-                    minZ: pos.z - longLeg / 2,
-                    maxZ: pos.z + longLeg / 2,
-                    rotation
-                };
-            case 90:
-                // Rotated 90° clockwise around Y
-                return {
-                    minX: pos.x - longLeg / 2,
-                    maxX: pos.x + longLeg / 2,
-                    minZ: pos.z - shortLeg + halfWidth,
-                    maxZ: pos.z + halfWidth,
-                    rotation
-                };
-            case 180:
-                // Rotated 180°
-                return {
-                    minX: pos.x - shortLeg + halfWidth,
-                    maxX: pos.x + halfWidth,
-                    minZ: pos.z - longLeg / 2,
-                    maxZ: pos.z + longLeg / 2,
-                    rotation
-                };
-            case 270:
-                // Rotated 270°
-                return {
-                    minX: pos.x - longLeg / 2,
-                    maxX: pos.x + longLeg / 2,
-                    minZ: pos.z - halfWidth,
-                    maxZ: pos.z + shortLeg - halfWidth,
-                    rotation
-                };
-            default:
-                return {
-                    minX: pos.x - halfWidth,
-                    maxX: pos.x + shortLeg - halfWidth,
-                    minZ: pos.z - longLeg / 2,
-                    maxZ: pos.z + longLeg / 2,
-                    rotation
-                };
-        }
+        const sign = mirrored ? -1 : 1;
+        const points = [
+            { x: -halfWidth, z: longLeg / 2 },                  // long leg end
+            { x: halfWidth, z: longLeg / 2 },
+            { x: halfWidth, z: -longLeg / 2 + width },          // inside corner
+            { x: shortLeg - halfWidth, z: -longLeg / 2 + width },
+            { x: shortLeg - halfWidth, z: -longLeg / 2 },       // short leg end
+            { x: -halfWidth, z: -longLeg / 2 }                  // outside corner
+        ].map(p => ({ x: p.x * sign, z: p.z }));
+        // Long leg end, short leg end, outside of the short leg, outside of the long leg
+        return { points, snapEdges: [0, 3, 4, 5], parts: [[5, 0, 1, 2], [5, 2, 3, 4]] };
     }
 
-    // For 45° corner blocks
-    if (block.type === 'corner45') {
-        const legLength = spec.longLeg || 32;
-
-        // Similar to 90° but with equal legs
-        switch (rotation) {
-            case 0:
-                return {
-                    minX: pos.x,
-                    maxX: pos.x + legLength,
-                    minZ: pos.z,
-                    maxZ: pos.z + legLength,
-                    rotation
-                };
-            case 90:
-                return {
-                    minX: pos.x,
-                    maxX: pos.x + legLength,
-                    minZ: pos.z - legLength,
-                    maxZ: pos.z,
-                    rotation
-                };
-            case 180:
-                return {
-                    minX: pos.x - legLength,
-                    maxX: pos.x,
-                    minZ: pos.z - legLength,
-                    maxZ: pos.z,
-                    rotation
-                };
-            case 270:
-                return {
-                    minX: pos.x - legLength,
-                    maxX: pos.x,
-                    minZ: pos.z,
-                    maxZ: pos.z + legLength,
-                    rotation
-                };
-            default:
-                return {
-                    minX: pos.x,
-                    maxX: pos.x + legLength,
-                    minZ: pos.z,
-                    maxZ: pos.z + legLength,
-                    rotation
-                };
-        }
+    if (type === 'corner45') {
+        const legs = getCornerLegLengths('corner45', core);
+        const s = Math.SQRT1_2;
+        // Leg B runs along (s, -s); its inward normal is (s, s)
+        const overhang = halfWidth * Math.tan(THREE.MathUtils.degToRad(22.5));
+        const endB = { x: legs.short * s, z: -legs.short * s };
+        return {
+            points: [
+                { x: -halfWidth, z: -overhang },                                    // outside vertex
+                { x: -halfWidth, z: legs.long },                                    // leg A end
+                { x: halfWidth, z: legs.long },
+                { x: halfWidth, z: overhang },                                      // inside vertex
+                { x: endB.x + halfWidth * s, z: endB.z + halfWidth * s },          // leg B end
+                { x: endB.x - halfWidth * s, z: endB.z - halfWidth * s }
+            ],
+            // Leg A end, leg B end, outside of leg B, outside of leg A
+            snapEdges: [1, 4, 5, 0],
+            parts: [[0, 1, 2, 3], [0, 3, 4, 5]]
+        };
     }
 
-    // Fallback
+    // Straight blocks run along local X
+    const halfLength = length / 2;
+    return {
+        points: [
+            { x: -halfLength, z: -halfWidth },
+            { x: halfLength, z: -halfWidth },
+            { x: halfLength, z: halfWidth },
+            { x: -halfLength, z: halfWidth }
+        ],
+        snapEdges: [0, 1, 2, 3],
+        parts: [[0, 1, 2, 3]]
+    };
+}
+
+/**
+ * Turn a local plan offset by a block's yaw (matches three.js rotation.y)
+ */
+function rotateOffset(point: PlanPoint, rotation: number): PlanPoint {
+    const rad = THREE.MathUtils.degToRad(rotation);
+    const cos = Math.cos(rad), sin = Math.sin(rad);
+    return {
+        x: point.x * cos + point.z * sin,
+        z: -point.x * sin + point.z * cos
+    };
+}
+
+const getOutlineFor = (block: ICFBlock): BlockOutline =>
+    getBlockOutline(block.type, block.coreThickness, getBlockLength(block), block.mirrored);
+
+const toWorld = (block: ICFBlock, points: PlanPoint[]): PlanPoint[] => points.map(p => {
+    const offset = rotateOffset(p, block.rotation);
+    return { x: round(block.position.x + offset.x), z: round(block.position.z + offset.z) };
+});
+
+/**
+ * Corners of a block's plan outline in world coordinates
+ */
+export function getBlockOutlinePoints(block: ICFBlock): PlanPoint[] {
+    return toWorld(block, getOutlineFor(block).points);
+}
+
+/**
+ * Gets the bounding box of a block in world coordinates, with its true footprint
+ */
+export function getBlockBounds(block: ICFBlock): BlockBounds {
+    const outline = getOutlineFor(block);
+    const points = toWorld(block, outline.points);
     return {
-        minX: pos.x - 24,
-        maxX: pos.x + 24,
-        minZ: pos.z - 7,
-        maxZ: pos.z + 7,
-        rotation
+        minX: Math.min(...points.map(p => p.x)),
+        maxX: Math.max(...points.map(p => p.x)),
+        minZ: Math.min(...points.map(p => p.z)),
+        maxZ: Math.max(...points.map(p => p.z)),
+        rotation: block.rotation,
+        footprint: outline.parts.map(part => part.map(i => points[i]))
     };
 }
 
+/**
+ * Whether a block is a straight (non-corner) block
+ */
+function isStraightBlock(type: ICFBlockType): boolean {
+    return type === 'standard' || type === 'taperTop' ||
+        type === 'brickLedge' || type === 'heightAdjuster';
+}
+
+/**
+ * Whether the top of a block sits at the given elevation (the course above it)
+ */
+function isBlockBelow(block: ICFBlock, y: number): boolean {
+    const top = block.position.y + ICF_BLOCK_CATALOG[block.type].height;
+    return Math.abs(top - y) < 0.5;
+}
+
+/**
+ * Running bond: a straight block on an upper course sits half a block along
+ * from the straight block beneath it so vertical joints never line up
+ */
+function snapRunningBond(
+    rawPosition: THREE.Vector3,
+    blockType: ICFBlockType,
+    rotation: number,
+    existingBlocks: ICFBlock[]
+): THREE.Vector3 | null {
+    if (!isStraightBlock(blockType) || rawPosition.y < 0.5) return null;
+
+    const halfLength = ICF_BLOCK_CATALOG[blockType].length / 2;
+    const direction = rotateOffset({ x: 1, z: 0 }, rotation);
+    let best: THREE.Vector3 | null = null;
+    let closestDistance = SNAP_THRESHOLD;
+
+    for (const below of existingBlocks) {
+        if (!isStraightBlock(below.type) || !isBlockBelow(below, rawPosition.y)) continue;
+
+        // Only blocks laid along the same line (either way round)
+        const belowDirection = rotateOffset({ x: 1, z: 0 }, below.rotation);
+        if (Math.abs(Math.abs(direction.x * belowDirection.x + direction.z * belowDirection.z) - 1) > 1e-4) continue;
+
+        for (const sign of [-1, 1]) {
+            const candidate = new THREE.Vector3(
+                round(below.position.x + sign * halfLength * direction.x),
+                rawPosition.y,
+                round(below.position.z + sign * halfLength * direction.z)
+            );
+
+            const dist = Math.hypot(rawPosition.x - candidate.x, rawPosition.z - candidate.z);
+            if (dist < closestDistance) {
+                closestDistance = dist;
+                best = candidate;
+            }
+        }
+    }
+
+    return best;
+}
+
 /**
  * Calculates the anchor offset for a block type (how much to offset from click point)
  */
@@ -213,16 +239,15 @@ export function getBlockAnchorOffset(
 /**
  * Defines a snap-able face on a block
  */
-interface BlockFace {
+export interface BlockFace {
     // Center position of the face in world coordinates
     centerX: number;
     centerZ: number;
-    // Position of the face plane (constant coordinate)
-    plane: number;
-    // Orientation of the face (normal direction)
-    orientation: 'minX' | 'maxX' | 'minZ' | 'maxZ';
-    // Dimensions for validation (optional)
-    width?: number;
+    // Outward unit normal of the face in plan
+    normalX: number;
+    normalZ: number;
+    // Length of the face along the wall
+    width: number;
 }
 
 /**
@@ -232,258 +257,73 @@ interface FaceOffset {
     // Offset of the face center from block center
     offsetX: number;
     offsetZ: number;
-    // Offset of the face plane from block center
-    planeOffset: number;
-    orientation: 'minX' | 'maxX' | 'minZ' | 'maxZ';
+    normalX: number;
+    normalZ: number;
+    // Which side the face is on (nearest world axis)
+    edge: 'left' | 'right' | 'front' | 'back';
 }
 
-/**
- * Get snap faces for an existing block in world coordinates
- */
-function getBlockFaces(block: ICFBlock): BlockFace[] {
-    const spec = ICF_BLOCK_CATALOG[block.type];
-    const width = spec.getWidth(block.coreThickness);
-    const halfWidth = width / 2;
-    const pos = block.position;
-    const faces: BlockFace[] = [];
-
-    // Standard Blocks
-    if (block.type === 'standard' || block.type === 'taperTop' ||
-        block.type === 'brickLedge' || block.type === 'heightAdjuster') {
-        const length = spec.length;
-        const halfLength = length / 2;
-
-        if (block.rotation === 0 || block.rotation === 180) {
-            // X-aligned
-            faces.push({ centerX: pos.x - halfLength, centerZ: pos.z, plane: pos.x - halfLength, orientation: 'minX' });
-            faces.push({ centerX: pos.x + halfLength, centerZ: pos.z, plane: pos.x + halfLength, orientation: 'maxX' });
-            faces.push({ centerX: pos.x, centerZ: pos.z - halfWidth, plane: pos.z - halfWidth, orientation: 'minZ' });
-            faces.push({ centerX: pos.x, centerZ: pos.z + halfWidth, plane: pos.z + halfWidth, orientation: 'maxZ' });
-        } else {
-            // Z-aligned
-            faces.push({ centerX: pos.x - halfWidth, centerZ: pos.z, plane: pos.x - halfWidth, orientation: 'minX' });
-            faces.push({ centerX: pos.x + halfWidth, centerZ: pos.z, plane: pos.x + halfWidth, orientation: 'maxX' });
-            faces.push({ centerX: pos.x, centerZ: pos.z - halfLength, plane: pos.z - halfLength, orientation: 'minZ' });
-            faces.push({ centerX: pos.x, centerZ: pos.z + halfLength, plane: pos.z + halfLength, orientation: 'maxZ' });
-        }
-        return faces;
-    }
-
-    // Corner Blocks
-    if (block.type === 'corner90') {
-        const longLeg = spec.longLeg || 38.5;
-        const shortLeg = spec.shortLeg || 22.5;
-        const halfLongLeg = longLeg / 2;
-
-        switch (block.rotation) {
-            case 0:
-                // Left Face (Long Leg Outer) - minX
-                faces.push({
-                    centerX: pos.x - halfWidth,
-                    centerZ: pos.z,
-                    plane: pos.x - halfWidth,
-                    orientation: 'minX'
-                });
-
-                // Right Face (Short Leg End) - maxX
-                faces.push({
-                    centerX: pos.x + shortLeg - halfWidth,
-                    centerZ: pos.z - halfLongLeg + halfWidth,
-                    plane: pos.x + shortLeg - halfWidth,
-                    orientation: 'maxX'
-                });
-
-                // Back Face (Short Leg Outer) - minZ
-                faces.push({
-                    centerX: pos.x - halfWidth + shortLeg / 2,
-                    centerZ: pos.z - halfLongLeg,
-                    plane: pos.z - halfLongLeg,
-                    orientation: 'minZ'
-                });
-
-                // Front Face (Long Leg End) - maxZ
-                faces.push({
-                    centerX: pos.x,
-                    centerZ: pos.z + halfLongLeg,
-                    plane: pos.z + halfLongLeg,
-                    orientation: 'maxZ'
-                });
-                break;
-
-            case 90:
-                faces.push({
-                    centerX: pos.x - halfLongLeg,
-                    centerZ: pos.z + halfWidth - shortLeg / 2,
-                    plane: pos.x - halfLongLeg,
-                    orientation: 'minX'
-                });
-
-                faces.push({
-                    centerX: pos.x + halfLongLeg,
-                    centerZ: pos.z,
-                    plane: pos.x + halfLongLeg,
-                    orientation: 'maxX'
-                });
-
-                faces.push({
-                    centerX: pos.x - halfLongLeg + halfWidth,
-                    centerZ: pos.z - shortLeg + halfWidth,
-                    plane: pos.z - shortLeg + halfWidth,
-                    orientation: 'minZ'
-                });
-
-                faces.push({
-                    centerX: pos.x,
-                    centerZ: pos.z + halfWidth,
-                    plane: pos.z + halfWidth,
-                    orientation: 'maxZ'
-                });
-                break;
-
-            case 180:
-                faces.push({
-                    centerX: pos.x - shortLeg + halfWidth,
-                    centerZ: pos.z + halfLongLeg - halfWidth,
-                    plane: pos.x - shortLeg + halfWidth,
-                    orientation: 'minX'
-                });
-
-                faces.push({
-                    centerX: pos.x + halfWidth,
-                    centerZ: pos.z,
-                    plane: pos.x + halfWidth,
-                    orientation: 'maxX'
-                });
-
-                faces.push({
-                    centerX: pos.x,
-                    centerZ: pos.z - halfLongLeg,
-                    plane: pos.z - halfLongLeg,
-                    orientation: 'minZ'
-                });
-
-                faces.push({
-                    centerX: pos.x + halfWidth - shortLeg / 2,
-                    centerZ: pos.z + halfLongLeg,
-                    plane: pos.z + halfLongLeg,
-                    orientation: 'maxZ'
-                });
-                break;
-
-            case 270:
-                faces.push({
-                    centerX: pos.x - halfLongLeg,
-                    centerZ: pos.z,
-                    plane: pos.x - halfLongLeg,
-                    orientation: 'minX'
-                });
-
-                faces.push({
-                    centerX: pos.x + halfLongLeg,
-                    centerZ: pos.z - halfWidth + shortLeg / 2,
-                    plane: pos.x + halfLongLeg,
-                    orientation: 'maxX'
-                });
-
-                faces.push({
-                    centerX: pos.x,
-                    centerZ: pos.z - halfWidth,
-                    plane: pos.z - halfWidth,
-                    orientation: 'minZ'
-                });
-
-                faces.push({
-                    centerX: pos.x + halfLongLeg - halfWidth,
-                    centerZ: pos.z + shortLeg - halfWidth,
-                    plane: pos.z + shortLeg - halfWidth,
-                    orientation: 'maxZ'
-                });
-                break;
-        }
-        return faces;
-    }
-
-    // Default Fallback
-    const bounds = getBlockBounds(block);
-    return [
-        { centerX: bounds.minX, centerZ: (bounds.minZ + bounds.maxZ) / 2, plane: bounds.minX, orientation: 'minX' },
-        { centerX: bounds.maxX, centerZ: (bounds.minZ + bounds.maxZ) / 2, plane: bounds.maxX, orientation: 'maxX' },
-        { centerX: (bounds.minX + bounds.maxX) / 2, centerZ: bounds.minZ, plane: bounds.minZ, orientation: 'minZ' },
-        { centerX: (bounds.minX + bounds.maxX) / 2, centerZ: bounds.maxZ, plane: bounds.maxZ, orientation: 'maxZ' }
-    ];
+// Side of the block an outward normal points to
+function getEdgeName(normal: PlanPoint): FaceOffset['edge'] {
+    if (Math.abs(normal.x) >= Math.abs(normal.z)) return normal.x < 0 ? 'left' : 'right';
+    return normal.z < 0 ? 'back' : 'front';
 }
 
 /**
- * Get the ACTUAL face positions for a corner block (the outer faces of the L-shape)
- * This is different from the bounding box because the L-shape has inner space
+ * Face offsets for a block type at a yaw, relative to the block center
  */
+function getBlockFaceOffsets(
+    type: ICFBlockType,
+    core: ICFCoreThickness,
+    rotation: number,
+    length?: number,
+    mirrored = false
+): FaceOffset[] {
+    const { points, snapEdges } = getBlockOutline(type, core, length, mirrored);
+
+    // Outward normals depend on which way round the outline is wound
+    let signedArea = 0;
+    points.forEach((p, i) => {
+        const q = points[(i + 1) % points.length];
+        signedArea += p.x * q.z - q.x * p.z;
+    });
+    const outward = signedArea > 0 ? 1 : -1;
+
+    return snapEdges.map(i => {
+        const a = points[i], b = points[(i + 1) % points.length];
+        const length = Math.hypot(b.x - a.x, b.z - a.z);
+        const localNormal = { x: outward * (b.z - a.z) / length, z: -outward * (b.x - a.x) / length };
+        const center = rotateOffset({ x: (a.x + b.x) / 2, z: (a.z + b.z) / 2 }, rotation);
+        const normal = rotateOffset(localNormal, rotation);
+        return {
+            offsetX: center.x,
+            offsetZ: center.z,
+            normalX: normal.x,
+            normalZ: normal.z,
+            edge: getEdgeName(normal)
+        };
+    });
+}
+
 /**
- * Get face offsets for a new block (relative to 0,0)
+ * Get snap faces for an existing block in world coordinates
  */
-function getBlockFaceOffsets(type: ICFBlockType, core: ICFCoreThickness, rotation: number): FaceOffset[] {
-    const spec = ICF_BLOCK_CATALOG[type];
-    const width = spec.getWidth(core);
-    const halfWidth = width / 2;
-    const offsets: FaceOffset[] = [];
-
-    if (type === 'standard' || type === 'taperTop' || type === 'brickLedge' || type === 'heightAdjuster') {
-        const halfLength = spec.length / 2;
-        if (rotation === 0 || rotation === 180) {
-            offsets.push({ offsetX: -halfLength, offsetZ: 0, planeOffset: -halfLength, orientation: 'minX' });
-            offsets.push({ offsetX: halfLength, offsetZ: 0, planeOffset: halfLength, orientation: 'maxX' });
-            offsets.push({ offsetX: 0, offsetZ: -halfWidth, planeOffset: -halfWidth, orientation: 'minZ' });
-            offsets.push({ offsetX: 0, offsetZ: halfWidth, planeOffset: halfWidth, orientation: 'maxZ' });
-        } else {
-            offsets.push({ offsetX: -halfWidth, offsetZ: 0, planeOffset: -halfWidth, orientation: 'minX' });
-            offsets.push({ offsetX: halfWidth, offsetZ: 0, planeOffset: halfWidth, orientation: 'maxX' });
-            offsets.push({ offsetX: 0, offsetZ: -halfLength, planeOffset: -halfLength, orientation: 'minZ' });
-            offsets.push({ offsetX: 0, offsetZ: halfLength, planeOffset: halfLength, orientation: 'maxZ' });
-        }
-        return offsets;
-    }
-
-    if (type === 'corner90') {
-        const longLeg = spec.longLeg || 38.5;
-        const shortLeg = spec.shortLeg || 22.5;
-        const halfLongLeg = longLeg / 2;
-
-        // Similar logic to getBlockFaces but centered at 0
-        switch (rotation) {
-            case 0:
-                offsets.push({ offsetX: -halfWidth, offsetZ: 0, planeOffset: -halfWidth, orientation: 'minX' });
-                offsets.push({ offsetX: shortLeg - halfWidth, offsetZ: -halfLongLeg + halfWidth, planeOffset: shortLeg - halfWidth, orientation: 'maxX' });
-                offsets.push({ offsetX: -halfWidth + shortLeg / 2, offsetZ: -halfLongLeg, planeOffset: -halfLongLeg, orientation: 'minZ' });
-                offsets.push({ offsetX: 0, offsetZ: halfLongLeg, planeOffset: halfLongLeg, orientation: 'maxZ' });
-                break;
-            case 90:
-                offsets.push({ offsetX: -halfLongLeg, offsetZ: halfWidth - shortLeg / 2, planeOffset: -halfLongLeg, orientation: 'minX' });
-                offsets.push({ offsetX: halfLongLeg, offsetZ: 0, planeOffset: halfLongLeg, orientation: 'maxX' });
-                offsets.push({ offsetX: -halfLongLeg + halfWidth, offsetZ: -shortLeg + halfWidth, planeOffset: -shortLeg + halfWidth, orientation: 'minZ' });
-                offsets.push({ offsetX: 0, offsetZ: halfWidth, planeOffset: halfWidth, orientation: 'maxZ' });
-                break;
-            case 180:
-                offsets.push({ offsetX: -shortLeg + halfWidth, offsetZ: halfLongLeg - halfWidth, planeOffset: -shortLeg + halfWidth, orientation: 'minX' });
-                offsets.push({ offsetX: halfWidth, offsetZ: 0, planeOffset: halfWidth, orientation: 'maxX' });
-                offsets.push({ offsetX: 0, offsetZ: -halfLongLeg, planeOffset: -halfLongLeg, orientation: 'minZ' });
-                offsets.push({ offsetX: halfWidth - shortLeg / 2, offsetZ: halfLongLeg, planeOffset: halfLongLeg, orientation: 'maxZ' });
-                break;
-            case 270:
-                offsets.push({ offsetX: -halfLongLeg, offsetZ: 0, planeOffset: -halfLongLeg, orientation: 'minX' });
-                offsets.push({ offsetX: halfLongLeg, offsetZ: -halfWidth + shortLeg / 2, planeOffset: halfLongLeg, orientation: 'maxX' });
-                offsets.push({ offsetX: 0, offsetZ: -halfWidth, planeOffset: -halfWidth, orientation: 'minZ' });
-                offsets.push({ offsetX: halfLongLeg - halfWidth, offsetZ: shortLeg - halfWidth, planeOffset: shortLeg - halfWidth, orientation: 'maxZ' });
-                break;
-        }
-        return offsets;
-    }
+export function getBlockFaces(block: ICFBlock): BlockFace[] {
+    const { points, snapEdges } = getOutlineFor(block);
+    const offsets = getBlockFaceOffsets(
+        block.type, block.coreThickness, block.rotation, getBlockLength(block), block.mirrored
+    );
 
-    // Fallback
-    return [
-        { offsetX: -24, offsetZ: 0, planeOffset: -24, orientation: 'minX' },
-        { offsetX: 24, offsetZ: 0, planeOffset: 24, orientation: 'maxX' },
-        { offsetX: 0, offsetZ: -7, planeOffset: -7, orientation: 'minZ' },
-        { offsetX: 0, offsetZ: 7, planeOffset: 7, orientation: 'maxZ' }
-    ];
+    return offsets.map((offset, i) => {
+        const a = points[snapEdges[i]], b = points[(snapEdges[i] + 1) % points.length];
+        return {
+            centerX: round(block.position.x + offset.offsetX),
+            centerZ: round(block.position.z + offset.offsetZ),
+            normalX: offset.normalX,
+            normalZ: offset.normalZ,
+            width: Math.hypot(b.x - a.x, b.z - a.z)
+        };
+    });
 }
 
 /**
@@ -495,9 +335,10 @@ export function snapBlockPosition(
     coreThickness: ICFCoreThickness,
     rotation: number,
     existingBlocks: ICFBlock[],
-    gridSize: number = 8
+    gridSize: number = 8,
+    mirrored = false
 ): SnapResult {
-    const newFaceOffsets = getBlockFaceOffsets(blockType, coreThickness, rotation);
+    const newFaceOffsets = getBlockFaceOffsets(blockType, coreThickness, rotation, undefined, mirrored);
 
     let bestSnapPosition = rawPosition.clone();
     let closestDistance = Infinity;
@@ -507,43 +348,22 @@ export function snapBlockPosition(
 
     const y = rawPosition.y;
 
-    for (const existingBlock of existingBlocks) {
+    // Only blocks in the same course can be snapped against side by side
+    const courseBlocks = existingBlocks.filter(b => Math.abs(b.position.y - y) < 0.5);
+
+    for (const existingBlock of courseBlocks) {
         const exFaces = getBlockFaces(existingBlock);
 
         for (const exFace of exFaces) {
             for (const newFace of newFaceOffsets) {
-                // Check if faces oppose each other (optional, but good for validity)
-                // e.g. minX touches maxX
-                let validPair = false;
-                if (exFace.orientation === 'maxX' && newFace.orientation === 'minX') validPair = true;
-                if (exFace.orientation === 'minX' && newFace.orientation === 'maxX') validPair = true;
-                if (exFace.orientation === 'maxZ' && newFace.orientation === 'minZ') validPair = true;
-                if (exFace.orientation === 'minZ' && newFace.orientation === 'maxZ') validPair = true;
-
-                if (!validPair) continue;
-
-                // Calculate where the new block center would be if these faces touched
-
-                let snapX = rawPosition.x;
-                let snapZ = rawPosition.z;
-
-                // Case 1: X-plane targets (minX / maxX faces)
-                if (exFace.orientation === 'minX' || exFace.orientation === 'maxX') {
-                    // Logic: The FACES touch.
-                    // C_new + D_new = P_ex => C_new = P_ex - D_new
-                    snapX = exFace.plane - newFace.planeOffset;
-
-                    // Z-alignment: Align the CENTERS of the touching faces.
-                    // C_new_Z + Z_off_new = Z_ex => C_new_Z = Z_ex - Z_off_new
-                    snapZ = exFace.centerZ - newFace.offsetZ;
+                // Only faces pointing straight at each other can touch
+                const facing = exFace.normalX * newFace.normalX + exFace.normalZ * newFace.normalZ;
+                if (facing > -0.999) continue;
 
-                } else {
-                    // Case 2: Z-plane targets (minZ / maxZ faces)
-                    snapZ = exFace.plane - newFace.planeOffset;
-
-                    // X-alignment
-                    snapX = exFace.centerX - newFace.offsetX;
-                }
+                // The faces touch with their centers aligned:
+                // C_new + offset_new = C_ex_face => C_new = C_ex_face - offset_new
+                const snapX = round(exFace.centerX - newFace.offsetX);
+                const snapZ = round(exFace.centerZ - newFace.offsetZ);
 
                 // Check distance from cursor
                 const dist = Math.sqrt(
@@ -556,31 +376,37 @@ export function snapBlockPosition(
                     bestSnapPosition = new THREE.Vector3(snapX, y, snapZ);
                     snappedToBlock = true;
                     snappedBlockId = existingBlock.id;
-
-                    // Map orientation to edge name
-                    if (newFace.orientation === 'minX') snapEdge = 'left';
-                    else if (newFace.orientation === 'maxX') snapEdge = 'right';
-                    else if (newFace.orientation === 'minZ') snapEdge = 'back';
-                    else if (newFace.orientation === 'maxZ') snapEdge = 'front';
+                    snapEdge = newFace.edge;
                 }
             }
         }
     }
 
-    // If we didn't snap to a block, snap to grid
+    // Nothing alongside to snap to - stagger over the course below
+    let runningBond = false;
     if (!snappedToBlock) {
+        const bondPosition = snapRunningBond(rawPosition, blockType, rotation, existingBlocks);
+        if (bondPosition) {
+            bestSnapPosition = bondPosition;
+            runningBond = true;
+        }
+    }
+
+    // If we didn't snap to a block, snap to grid (elevation is already set by the course)
+    if (!snappedToBlock && !runningBond) {
         bestSnapPosition = new THREE.Vector3(
             Math.round(rawPosition.x / gridSize) * gridSize,
-            Math.round(rawPosition.y / 16) * 16,
+            y,
             Math.round(rawPosition.z / gridSize) * gridSize
         );
     }
 
     return {
         position: bestSnapPosition,
-        snappedToBlock,
+        snappedToBlock: snappedToBlock || runningBond,
         snappedBlockId,
-        snapEdge
+        snapEdge,
+        runningBond
     };
 }
 
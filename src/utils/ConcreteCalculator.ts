@@ -0,0 +1,108 @@
+// Concrete Takeoff - Computes core fill volume from actual ICF block geometry
+import { ICFBlock, ICFProject } from '../types/project';
+import { ICF_BLOCK_CATALOG, getBlockLength } from '../data/icfCatalog';
+import { getCornerLegLengths } from './WallRunGenerator';
+import { getBlockCuts, getBlockCutVolume } from './OpeningCalculator';
+
+export const DEFAULT_CONCRETE_WASTE_FACTOR = 0.05; // 5% over-order for spillage and form bulge
+export const DEFAULT_POUR_LIFT_HEIGHT = 48;        // inches, typical 4' lifts
+
+const CUBIC_INCHES_PER_YARD = 36 * 36 * 36;
+
+export interface ConcreteLift {
+    index: number;
+    bottom: number;      // inches
+    top: number;         // inches
+    cubicYards: number;  // net of openings, including waste
+}
+
+export interface ConcreteTakeoff {
+    grossCubicYards: number;    // full core cavity of every block
+    openingCubicYards: number;  // removed by window/door bucks
+    netCubicYards: number;
+    wasteFactor: number;
+    totalCubicYards: number;    // net + waste, what to order
+    lifts: ConcreteLift[];
+}
+
+/**
+ * Plan area of a block's core cavity in square inches.
+ * Corner cores are an L-shaped strip whose area is core × (sum of centerline legs).
+ */
+export function getBlockCoreArea(block: ICFBlock): number {
+    const core = block.coreThickness;
+
+    if (block.type === 'corner90' || block.type === 'corner45') {
+        const legs = getCornerLegLengths(block.type, core);
+        return core * (legs.long + legs.short);
+    }
+
+    return getBlockLength(block) * core;
+}
+
+/**
+ * Core cavity volume of a single block in cubic inches
+ */
+export function getBlockCoreVolume(block: ICFBlock): number {
+    return getBlockCoreArea(block) * ICF_BLOCK_CATALOG[block.type].height;
+}
+
+const toYards = (cubicInches: number): number => cubicInches / CUBIC_INCHES_PER_YARD;
+
+/**
+ * Full concrete takeoff for a project, broken into pour lifts
+ */
+export function calculateConcreteTakeoff(project: ICFProject): ConcreteTakeoff {
+    const wasteFactor = project.settings.concreteWasteFactor ?? DEFAULT_CONCRETE_WASTE_FACTOR;
+    const liftHeight = project.settings.pourLiftHeight || DEFAULT_POUR_LIFT_HEIGHT;
+    const blocks = project.elements.icfBlocks;
+    const cuts = getBlockCuts(project);
+
+    // Gross and opening volume per lift (cubic inches)
+    const liftGross: number[] = [];
+    const liftOpenings: number[] = [];
+    const addTo = (arr: number[], index: number, value: number) => {
+        arr[index] = (arr[index] || 0) + value;
+    };
+
+    // Blocks pour with the lift their bottom sits in, less whatever openings cut from them
+    for (const block of blocks) {
+        const liftIndex = Math.max(0, Math.floor(block.position.y / liftHeight));
+        addTo(liftGross, liftIndex, getBlockCoreVolume(block));
+        addTo(liftOpenings, liftIndex, getBlockCutVolume(block, cuts.get(block.id)));
+    }
+
+    const lifts: ConcreteLift[] = [];
+    const liftCount = Math.max(liftGross.length, liftOpenings.length);
+    for (let i = 0; i < liftCount; i++) {
+        const gross = liftGross[i] || 0;
+        if (gross === 0) continue;
+        const net = Math.max(0, gross - (liftOpenings[i] || 0));
+        lifts.push({
+            index: i,
+            bottom: i * liftHeight,
+            top: (i + 1) * liftHeight,
+            cubicYards: toYards(net) * (1 + wasteFactor)
+        });
+    }
+
+    const grossCubicYards = toYards(liftGross.reduce((sum, v) => sum + (v || 0), 0));
+    const netCubicYards = lifts.reduce((sum, lift) => sum + lift.cubicYards, 0) / (1 + wasteFactor);
+    const openingCubicYards = Math.max(0, grossCubicYards - netCubicYards);
+
+    return {
+        grossCubicYards,
+        openingCubicYards,
+        netCubicYards,
+        wasteFactor,
+        totalCubicYards: netCubicYards * (1 + wasteFactor),
+        lifts
+    };
+}
+
+/**
+ * Number of ready-mix trucks needed to pour a given volume
+ */
+export function getTruckCount(cubicYards: number, truckCapacity: number): number {
+    return Math.ceil(cubicYards / truckCapacity - 1e-9);
+}
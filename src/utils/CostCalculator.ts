@@ -1,10 +1,13 @@
 // Cost Calculator for ICF Home Designer
 import { ICFProject } from '../types/project';
-import { ICF_BLOCK_CATALOG, ADDITIONAL_MATERIALS } from '../data/icfCatalog';
+import { ICF_BLOCK_CATALOG, ADDITIONAL_MATERIALS, REBAR_BAR_SIZES, BUCK_CATALOG } from '../data/icfCatalog';
 import {
     FRAMING_CATALOG, PLUMBING_CATALOG, ELECTRICAL_CATALOG, ELECTRICAL_DEVICES,
     LOW_VOLTAGE_CATALOG, CABINET_CATALOG, EQUIPMENT_CATALOG, WINDOW_CATALOG, DOOR_CATALOG
 } from '../data/materialsCatalog';
+import { calculateConcreteTakeoff } from './ConcreteCalculator';
+import { calculateRebarSchedule } from './RebarCalculator';
+import { getInstalledBlocks, getBuckLength } from './OpeningCalculator';
 
 export interface CostBreakdown {
     category: string;
@@ -20,21 +23,103 @@ export interface CostItem {
     total: number;
 }
 
+export interface AreaCosts {
+    areaId: string | null;   // null for elements in no area
+    name: string;
+    color: string | null;
+    breakdowns: CostBreakdown[];
+    total: number;           // with the price multiplier
+}
+
 export interface ProjectCosts {
     breakdowns: CostBreakdown[];
     grandTotal: number;
     multiplier: number;
+    areas: AreaCosts[];      // empty when the project has no areas
 }
 
+/**
+ * The project with only the elements in one area (null: in no area).
+ * Blocks and framing walls carry their area; windows and doors follow the
+ * wall they are in. Everything else is in no area.
+ */
+function getAreaProject(project: ICFProject, areaId: string | null): ICFProject {
+    const { elements } = project;
+    const inArea = (element: { areaId?: string }) => (element.areaId ?? null) === areaId;
+    const blocks = elements.icfBlocks.filter(inArea);
+    const blockIds = new Set(blocks.map(b => b.id));
+    const followsWall = (opening: { wallId?: string }) => opening.wallId
+        ? blockIds.has(opening.wallId)
+        : areaId === null;
+    const unassigned = <T>(list: T[]): T[] => (areaId === null ? list : []);
+
+    return {
+        ...project,
+        elements: {
+            icfBlocks: blocks,
+            framing: elements.framing.filter(inArea),
+            plumbing: unassigned(elements.plumbing),
+            electrical: {
+                wires: unassigned(elements.electrical.wires),
+                outlets: unassigned(elements.electrical.outlets),
+                switches: unassigned(elements.electrical.switches),
+                panels: unassigned(elements.electrical.panels)
+            },
+            lowVoltage: {
+                runs: unassigned(elements.lowVoltage.runs),
+                drops: unassigned(elements.lowVoltage.drops)
+            },
+            equipment: unassigned(elements.equipment),
+            cabinets: unassigned(elements.cabinets),
+            windows: elements.windows.filter(followsWall),
+            doors: elements.doors.filter(followsWall)
+        }
+    };
+}
+
+const sumSubtotals = (breakdowns: CostBreakdown[]): number =>
+    breakdowns.reduce((sum, cat) => sum + cat.subtotal, 0);
+
+/**
+ * Costs for the whole project and, when it has areas, for each area.
+ * Rebar is scheduled per area, so area totals may differ slightly from the
+ * project total where a wall run crosses areas.
+ */
 export function calculateProjectCosts(project: ICFProject): ProjectCosts {
-    const breakdowns: CostBreakdown[] = [];
     const multiplier = project.settings.costMultiplier;
+    const breakdowns = calculateBreakdowns(project);
+
+    const areas: AreaCosts[] = [];
+    if (project.areas.length > 0) {
+        const entries: Omit<AreaCosts, 'breakdowns' | 'total'>[] = [
+            ...project.areas.map(area => ({ areaId: area.id, name: area.name, color: area.color })),
+            { areaId: null, name: 'No area', color: null }
+        ];
+        for (const entry of entries) {
+            const areaBreakdowns = calculateBreakdowns(getAreaProject(project, entry.areaId));
+            // Areas with nothing in them are still listed; "No area" only when it costs something
+            if (entry.areaId === null && areaBreakdowns.length === 0) continue;
+            areas.push({ ...entry, breakdowns: areaBreakdowns, total: sumSubtotals(areaBreakdowns) * multiplier });
+        }
+    }
+
+    return {
+        breakdowns,
+        grandTotal: sumSubtotals(breakdowns) * multiplier,
+        multiplier,
+        areas
+    };
+}
+
+function calculateBreakdowns(project: ICFProject): CostBreakdown[] {
+    const breakdowns: CostBreakdown[] = [];
 
     // ICF Blocks
     const icfItems: CostItem[] = [];
     const icfByType: Map<string, { count: number; price: number }> = new Map();
 
-    for (const block of project.elements.icfBlocks) {
+    // Blocks lying entirely inside a window or door opening are never installed
+    for (const block of getInstalledBlocks(project)) {
         const key = `${block.type}-${block.coreThickness}`;
         const spec = ICF_BLOCK_CATALOG[block.type];
         const price = spec.pricePerBlock(block.coreThickness);
@@ -57,17 +142,16 @@ export function calculateProjectCosts(project: ICFProject): ProjectCosts {
         });
     });
 
-    // Add concrete estimate for ICF
-    const totalICFBlocks = project.elements.icfBlocks.length;
-    if (totalICFBlocks > 0) {
-        // Each block is ~5.3 sq ft of wall area, concrete is $10/sqft avg
-        const sqFtWall = totalICFBlocks * 5.3;
+    // Concrete fill from the actual core cavities, less openings, plus waste
+    if (project.elements.icfBlocks.length > 0) {
+        const concrete = calculateConcreteTakeoff(project);
+        const yards = Math.round(concrete.totalCubicYards * 100) / 100;
         icfItems.push({
-            name: 'Concrete Fill (estimated)',
-            quantity: Math.round(sqFtWall),
-            unit: 'sq ft',
-            unitPrice: ADDITIONAL_MATERIALS.concretePerSqFtWall,
-            total: sqFtWall * ADDITIONAL_MATERIALS.concretePerSqFtWall
+            name: `Concrete Fill (${Math.round(concrete.wasteFactor * 100)}% waste)`,
+            quantity: yards,
+            unit: 'cu yd',
+            unitPrice: ADDITIONAL_MATERIALS.concretePerCubicYard,
+            total: concrete.totalCubicYards * ADDITIONAL_MATERIALS.concretePerCubicYard
         });
     }
 
@@ -79,6 +163,29 @@ export function calculateProjectCosts(project: ICFProject): ProjectCosts {
         });
     }
 
+    // Rebar
+    const rebarItems: CostItem[] = [];
+    const rebar = calculateRebarSchedule(project);
+    for (const [size, inches] of Object.entries(rebar.totalLengthBySize)) {
+        const spec = REBAR_BAR_SIZES[size as keyof typeof REBAR_BAR_SIZES];
+        const feet = inches / 12;
+        rebarItems.push({
+            name: `${size} Rebar`,
+            quantity: Math.ceil(feet),
+            unit: 'linear ft',
+            unitPrice: spec.pricePerFoot,
+            total: feet * spec.pricePerFoot
+        });
+    }
+
+    if (rebarItems.length > 0) {
+        breakdowns.push({
+            category: 'Rebar',
+            items: rebarItems,
+            subtotal: rebarItems.reduce((sum, item) => sum + item.total, 0)
+        });
+    }
+
     // Framing
     const framingItems: CostItem[] = [];
     for (const wall of project.elements.framing) {
@@ -323,6 +430,30 @@ export function calculateProjectCosts(project: ICFProject): ProjectCosts {
         }
     }
 
+    // Bucks framing openings in ICF walls
+    const buckInches: Record<string, number> = {};
+    for (const win of project.elements.windows) {
+        if (win.buckMaterial) {
+            buckInches[win.buckMaterial] = (buckInches[win.buckMaterial] || 0) + getBuckLength('window', win.type, win.buckMaterial);
+        }
+    }
+    for (const door of project.elements.doors) {
+        if (door.buckMaterial) {
+            buckInches[door.buckMaterial] = (buckInches[door.buckMaterial] || 0) + getBuckLength('door', door.type, door.buckMaterial);
+        }
+    }
+    for (const [material, inches] of Object.entries(buckInches)) {
+        const spec = BUCK_CATALOG[material as keyof typeof BUCK_CATALOG];
+        const feet = inches / 12;
+        openingItems.push({
+            name: spec.name,
+            quantity: Math.ceil(feet),
+            unit: 'linear ft',
+            unitPrice: spec.pricePerFoot,
+            total: feet * spec.pricePerFoot
+        });
+    }
+
     if (openingItems.length > 0) {
         breakdowns.push({
             category: 'Windows & Doors',
@@ -331,23 +462,15 @@ export function calculateProjectCosts(project: ICFProject): ProjectCosts {
         });
     }
 
-    // Calculate grand total
-    const rawTotal = breakdowns.reduce((sum, cat) => sum + cat.subtotal, 0);
-    const grandTotal = rawTotal * multiplier;
-
-    return {
-        breakdowns,
-        grandTotal,
-        multiplier
-    };
+    return breakdowns;
 }
 
 // Format currency
-export function formatCurrency(amount: number): string {
+export function formatCurrency(amount: number, fractionDigits: number = 0): string {
     return new Intl.NumberFormat('en-US', {
         style: 'currency',
         currency: 'USD',
-        minimumFractionDigits: 0,
-        maximumFractionDigits: 0
+        minimumFractionDigits: fractionDigits,
+        maximumFractionDigits: fractionDigits
     }).format(amount);
 }
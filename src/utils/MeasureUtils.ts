@@ -0,0 +1,140 @@
+// Measure Tool - Snapping to block geometry and formatting of lengths and areas
+import * as THREE from 'three';
+import { ICFBlock, ProjectSettings, Vector3 } from '../types/project';
+import { ICF_BLOCK_CATALOG } from '../data/icfCatalog';
+import { getBlockBounds, getBlockFaces, getBlockOutlinePoints } from './BlockSnapping';
+
+export type MeasureUnit = ProjectSettings['gridUnit'];
+export type MeasureSnap = 'corner' | 'face' | null;
+
+export const MEASURE_SNAP_DISTANCE = 4; // inches
+
+const MM_PER_INCH = 25.4;
+
+/**
+ * Snap a picked point to the nearest block corner, else onto the nearest block face
+ */
+export function snapMeasurePoint(
+    point: THREE.Vector3,
+    blocks: ICFBlock[],
+    threshold: number = MEASURE_SNAP_DISTANCE
+): { point: THREE.Vector3; snap: MeasureSnap } {
+    let bestCorner: THREE.Vector3 | null = null;
+    let bestCornerDist = threshold;
+    let bestFace: THREE.Vector3 | null = null;
+    let bestFaceDist = threshold;
+
+    for (const block of blocks) {
+        const bounds = getBlockBounds(block);
+        const bottom = block.position.y;
+        const top = bottom + ICF_BLOCK_CATALOG[block.type].height;
+
+        // Skip blocks nowhere near the point
+        if (point.x < bounds.minX - threshold || point.x > bounds.maxX + threshold ||
+            point.z < bounds.minZ - threshold || point.z > bounds.maxZ + threshold ||
+            point.y < bottom - threshold || point.y > top + threshold) {
+            continue;
+        }
+
+        for (const { x, z } of getBlockOutlinePoints(block)) {
+            for (const y of [bottom, top]) {
+                const corner = new THREE.Vector3(x, y, z);
+                const dist = corner.distanceTo(point);
+                if (dist < bestCornerDist) {
+                    bestCornerDist = dist;
+                    bestCorner = corner;
+                }
+            }
+        }
+
+        // Faces are vertical planes; project the point onto the closest one
+        for (const face of getBlockFaces(block)) {
+            const dist = (point.x - face.centerX) * face.normalX + (point.z - face.centerZ) * face.normalZ;
+            if (Math.abs(dist) >= bestFaceDist) continue;
+            bestFaceDist = Math.abs(dist);
+            bestFace = point.clone();
+            bestFace.x -= dist * face.normalX;
+            bestFace.z -= dist * face.normalZ;
+        }
+    }
+
+    if (bestCorner) return { point: bestCorner, snap: 'corner' };
+    if (bestFace) return { point: bestFace, snap: 'face' };
+    return { point: point.clone(), snap: null };
+}
+
+// Inches to the nearest 1/8", e.g. 4 1/2
+function formatInches(value: number): string {
+    const eighths = Math.round(value * 8);
+    const whole = Math.floor(eighths / 8);
+    let num = eighths % 8;
+    if (num === 0) return `${whole}`;
+    let den = 8;
+    while (num % 2 === 0) {
+        num /= 2;
+        den /= 2;
+    }
+    return whole > 0 ? `${whole} ${num}/${den}` : `${num}/${den}`;
+}
+
+/**
+ * Format a length in inches for display in the project's unit
+ */
+export function formatLength(inches: number, unit: MeasureUnit): string {
+    switch (unit) {
+        case 'mm':
+            return `${Math.round(inches * MM_PER_INCH)} mm`;
+        case 'feet': {
+            const rounded = Math.round(inches * 8) / 8;
+            const feet = Math.floor(rounded / 12);
+            return `${feet}' ${formatInches(rounded - feet * 12)}"`;
+        }
+        default:
+            return `${formatInches(inches)}"`;
+    }
+}
+
+/**
+ * Format an area in square inches - square feet for imperial units, m² for metric
+ */
+export function formatArea(squareInches: number, unit: MeasureUnit): string {
+    if (unit === 'mm') {
+        return `${(squareInches * MM_PER_INCH * MM_PER_INCH / 1e6).toFixed(2)} m²`;
+    }
+    return `${(squareInches / 144).toFixed(1)} sq ft`;
+}
+
+/**
+ * Format a volume in cubic inches - cubic feet for imperial units, m³ for metric
+ */
+export function formatVolume(cubicInches: number, unit: MeasureUnit): string {
+    if (unit === 'mm') {
+        return `${(cubicInches * MM_PER_INCH ** 3 / 1e9).toFixed(2)} m³`;
+    }
+    return `${(cubicInches / 1728).toFixed(0)} cu ft`;
+}
+
+export function getPathLength(points: Vector3[]): number {
+    let total = 0;
+    for (let i = 1; i < points.length; i++) {
+        const a = points[i - 1], b = points[i];
+        total += Math.sqrt((b.x - a.x) ** 2 + (b.y - a.y) ** 2 + (b.z - a.z) ** 2);
+    }
+    return total;
+}
+
+/**
+ * Area of a closed polygon in any plane (Newell's method), in square inches
+ */
+export function getPolygonArea(points: Vector3[]): number {
+    if (points.length < 3) return 0;
+    let nx = 0, ny = 0, nz = 0;
+    for (let i = 0; i < points.length; i++) {
+        const a = points[i];
+        const b = points[(i + 1) % points.length];
+        nx += (a.y - b.y) * (a.z + b.z);
+        ny += (a.z - b.z) * (a.x + b.x);
+        nz += (a.x - b.x) * (a.y + b.y);
+    }
+    return Math.sqrt(nx * nx + ny * ny + nz * nz) / 2;
+}
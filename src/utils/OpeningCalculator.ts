@@ -0,0 +1,191 @@
+// Openings - Snaps windows/doors to ICF walls and works out where they cut the blocks
+import * as THREE from 'three';
+import {
+    ICFBlock, ICFProject, Window, Door, WindowType, DoorType, BuckMaterial
+} from '../types/project';
+import { ICF_BLOCK_CATALOG, BUCK_CATALOG, getBlockLength } from '../data/icfCatalog';
+import { WINDOW_CATALOG, DOOR_CATALOG } from '../data/materialsCatalog';
+
+export type OpeningKind = 'window' | 'door';
+
+export const DEFAULT_SILL_HEIGHT = 36; // inches above the bottom of the wall
+const ALONG_WALL_SNAP = 2;             // inches
+
+export interface OpeningSize {
+    width: number;
+    height: number;
+}
+
+// Part of a block removed by an opening, in block-local inches:
+// x runs along the block (-length/2 to +length/2), y up from the block bottom
+export interface BlockCut {
+    openingId: string;
+    from: number;
+    to: number;
+    bottom: number;
+    top: number;
+}
+
+export interface OpeningPlacement {
+    position: THREE.Vector3;
+    rotation: number;
+    wallId: string;
+}
+
+const isCornerBlock = (block: ICFBlock): boolean =>
+    block.type === 'corner90' || block.type === 'corner45';
+
+// Straight blocks run along their local X axis
+const getBlockDirection = (rotation: number): THREE.Vector3 => {
+    const rad = THREE.MathUtils.degToRad(rotation);
+    return new THREE.Vector3(Math.cos(rad), 0, -Math.sin(rad));
+};
+
+export function getOpeningSize(kind: OpeningKind, type: WindowType | DoorType): OpeningSize {
+    const spec = kind === 'window' ? WINDOW_CATALOG[type as WindowType] : DOOR_CATALOG[type as DoorType];
+    return { width: spec.width, height: spec.height };
+}
+
+const getBuckThickness = (buck?: BuckMaterial): number => (buck ? BUCK_CATALOG[buck].thickness : 0);
+
+/**
+ * Rough opening through the wall: the unit plus a buck on each side.
+ * Doors have no buck under the threshold.
+ */
+export function getRoughOpening(kind: OpeningKind, type: WindowType | DoorType, buck?: BuckMaterial): OpeningSize {
+    const size = getOpeningSize(kind, type);
+    const t = getBuckThickness(buck);
+    return {
+        width: size.width + t * 2,
+        height: size.height + (kind === 'window' ? t * 2 : t)
+    };
+}
+
+/**
+ * Linear inches of buck needed to frame an opening
+ */
+export function getBuckLength(kind: OpeningKind, type: WindowType | DoorType, buck: BuckMaterial): number {
+    const rough = getRoughOpening(kind, type, buck);
+    return kind === 'window'
+        ? (rough.width + rough.height) * 2
+        : rough.width + rough.height * 2;
+}
+
+// Same wall line: parallel (either way round) and centered on the same centerline
+function isOnWallLine(block: ICFBlock, point: { x: number; z: number }, direction: THREE.Vector3): boolean {
+    const blockDir = getBlockDirection(block.rotation);
+    if (Math.abs(Math.abs(blockDir.dot(direction)) - 1) > 1e-4) return false;
+    const dx = point.x - block.position.x;
+    const dz = point.z - block.position.z;
+    return Math.abs(-dx * direction.z + dz * direction.x) < 0.5;
+}
+
+/**
+ * Snap a window or door to the centerline of the wall under the cursor.
+ * Windows sit at the default sill height above the bottom of that wall, doors on it.
+ */
+export function snapOpeningToWall(
+    point: THREE.Vector3,
+    block: ICFBlock,
+    blocks: ICFBlock[],
+    kind: OpeningKind
+): OpeningPlacement | null {
+    if (isCornerBlock(block)) return null;
+
+    const direction = getBlockDirection(block.rotation);
+    const origin = new THREE.Vector3(block.position.x, 0, block.position.z);
+    const along = point.clone().sub(origin).dot(direction);
+    const snapped = Math.round(along / ALONG_WALL_SNAP) * ALONG_WALL_SNAP;
+    const center = origin.addScaledVector(direction, snapped);
+
+    const wallBottom = blocks
+        .filter(b => !isCornerBlock(b) && isOnWallLine(b, center, direction))
+        .reduce((min, b) => Math.min(min, b.position.y), block.position.y);
+
+    center.y = wallBottom + (kind === 'window' ? DEFAULT_SILL_HEIGHT : 0);
+    return { position: center, rotation: block.rotation, wallId: block.id };
+}
+
+interface AttachedOpening {
+    id: string;
+    kind: OpeningKind;
+    opening: Window | Door;
+}
+
+const getAttachedOpenings = (project: ICFProject): AttachedOpening[] => [
+    ...project.elements.windows.map(opening => ({ id: opening.id, kind: 'window' as const, opening })),
+    ...project.elements.doors.map(opening => ({ id: opening.id, kind: 'door' as const, opening }))
+].filter(o => o.opening.wallId);
+
+/**
+ * Every block cut by an attached opening, keyed by block id
+ */
+export function getBlockCuts(project: ICFProject): Map<string, BlockCut[]> {
+    const cuts = new Map<string, BlockCut[]>();
+    const blocks = project.elements.icfBlocks.filter(b => !isCornerBlock(b));
+
+    for (const { id, kind, opening } of getAttachedOpenings(project)) {
+        const rough = getRoughOpening(kind, opening.type, opening.buckMaterial);
+        const direction = getBlockDirection(opening.rotation);
+        const openingAlong = opening.position.x * direction.x + opening.position.z * direction.z;
+        const openingFrom = openingAlong - rough.width / 2;
+        const openingTo = openingAlong + rough.width / 2;
+        const openingBottom = opening.position.y - (kind === 'window' ? getBuckThickness(opening.buckMaterial) : 0);
+        const openingTop = openingBottom + rough.height;
+
+        for (const block of blocks) {
+            if (!isOnWallLine(block, opening.position, direction)) continue;
+
+            const length = getBlockLength(block);
+            const height = ICF_BLOCK_CATALOG[block.type].height;
+            const blockAlong = block.position.x * direction.x + block.position.z * direction.z;
+            const from = Math.max(openingFrom, blockAlong - length / 2);
+            const to = Math.min(openingTo, blockAlong + length / 2);
+            const bottom = Math.max(openingBottom, block.position.y);
+            const top = Math.min(openingTop, block.position.y + height);
+            if (to - from < 0.01 || top - bottom < 0.01) continue;
+
+            // Blocks laid the other way round have their local X reversed
+            const sign = getBlockDirection(block.rotation).dot(direction) > 0 ? 1 : -1;
+            const localA = sign * (from - blockAlong);
+            const localB = sign * (to - blockAlong);
+
+            if (!cuts.has(block.id)) cuts.set(block.id, []);
+            cuts.get(block.id)!.push({
+                openingId: id,
+                from: Math.min(localA, localB),
+                to: Math.max(localA, localB),
+                bottom: bottom - block.position.y,
+                top: top - block.position.y
+            });
+        }
+    }
+
+    return cuts;
+}
+
+/**
+ * True when an opening removes the whole block, so it is never installed
+ */
+export function isBlockFullyCut(block: ICFBlock, cuts: BlockCut[] = []): boolean {
+    const half = getBlockLength(block) / 2;
+    const height = ICF_BLOCK_CATALOG[block.type].height;
+    return cuts.some(cut =>
+        cut.from <= -half + 0.01 && cut.to >= half - 0.01 &&
+        cut.bottom <= 0.01 && cut.top >= height - 0.01
+    );
+}
+
+/**
+ * Blocks actually installed - those not entirely inside an opening
+ */
+export function getInstalledBlocks(project: ICFProject, cuts = getBlockCuts(project)): ICFBlock[] {
+    return project.elements.icfBlocks.filter(block => !isBlockFullyCut(block, cuts.get(block.id)));
+}
+
+/**
+ * Core cavity volume removed from a block by openings, in cubic inches
+ */
+export function getBlockCutVolume(block: ICFBlock, cuts: BlockCut[] = []): number {
+    return cuts.reduce((sum, cut) => sum + (cut.to - cut.from) * (cut.top - cut.bottom) * block.coreThickness, 0);
+}
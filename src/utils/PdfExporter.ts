@@ -0,0 +1,160 @@
+// PDF Export - Client/supplier estimate with viewport snapshot and material takeoff
+import { jsPDF } from 'jspdf';
+import { ICFProject } from '../types/project';
+import { calculateProjectCosts, formatCurrency } from './CostCalculator';
+
+const MARGIN = 48;         // points
+const LINE_HEIGHT = 16;
+const TABLE_COLUMNS = [
+    { title: 'Item', x: 0, align: 'left' as const },
+    { title: 'Qty', x: 250, align: 'right' as const },
+    { title: 'Unit', x: 260, align: 'left' as const },
+    { title: 'Unit Price', x: 400, align: 'right' as const },
+    { title: 'Total', x: 516, align: 'right' as const }
+];
+
+const formatDate = (iso: string): string => new Date(iso).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+});
+
+/**
+ * Build a multi-page estimate PDF for a project.
+ *
+ * @param project - Project to report on
+ * @param snapshot - PNG data URL of the 3D viewport (optional)
+ */
+export function createEstimatePdf(project: ICFProject, snapshot?: string): jsPDF {
+    const doc = new jsPDF({ unit: 'pt', format: 'letter' });
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const contentWidth = pageWidth - MARGIN * 2;
+    const costs = calculateProjectCosts(project);
+    let y = MARGIN;
+
+    // Start a new page when the next block of content will not fit
+    const ensureSpace = (height: number) => {
+        if (y + height > pageHeight - MARGIN) {
+            doc.addPage();
+            y = MARGIN;
+        }
+    };
+
+    // Title page header
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(22);
+    doc.text(project.name, MARGIN, y + 16);
+    y += 40;
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(11);
+    doc.setTextColor(90);
+    doc.text(`Created: ${formatDate(project.created)}`, MARGIN, y);
+    y += LINE_HEIGHT;
+    doc.text(`Last modified: ${formatDate(project.modified)}`, MARGIN, y);
+    y += LINE_HEIGHT;
+    doc.text(`Prepared: ${formatDate(new Date().toISOString())}`, MARGIN, y);
+    doc.setTextColor(0);
+    y += LINE_HEIGHT * 1.5;
+
+    // Viewport snapshot, scaled to the content width
+    if (snapshot) {
+        const image = doc.getImageProperties(snapshot);
+        const height = Math.min(contentWidth * (image.height / image.width), pageHeight / 2);
+        const width = height * (image.width / image.height);
+        doc.addImage(snapshot, 'PNG', MARGIN + (contentWidth - width) / 2, y, width, height);
+        y += height + LINE_HEIGHT * 1.5;
+    }
+
+    // Summary
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(14);
+    doc.text(`Estimated Total: ${formatCurrency(costs.grandTotal)}`, MARGIN, y);
+    y += LINE_HEIGHT * 2;
+
+    const drawRow = (cells: string[], bold = false) => {
+        doc.setFont('helvetica', bold ? 'bold' : 'normal');
+        TABLE_COLUMNS.forEach((column, i) => {
+            if (!cells[i]) return;
+            const text = column.align === 'left' && i === 0
+                ? doc.splitTextToSize(cells[i], 240)[0]
+                : cells[i];
+            doc.text(text, MARGIN + column.x, y, { align: column.align });
+        });
+        y += LINE_HEIGHT;
+    };
+
+    // One table per cost category
+    doc.setFontSize(10);
+    for (const breakdown of costs.breakdowns) {
+        ensureSpace(LINE_HEIGHT * 4);
+
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(12);
+        doc.text(breakdown.category, MARGIN, y);
+        y += LINE_HEIGHT;
+
+        doc.setFontSize(10);
+        doc.setTextColor(90);
+        drawRow(TABLE_COLUMNS.map(c => c.title), true);
+        doc.setTextColor(0);
+        doc.setDrawColor(180);
+        doc.line(MARGIN, y - LINE_HEIGHT + 4, MARGIN + contentWidth, y - LINE_HEIGHT + 4);
+
+        for (const item of breakdown.items) {
+            ensureSpace(LINE_HEIGHT);
+            drawRow([
+                item.name,
+                `${item.quantity}`,
+                item.unit,
+                formatCurrency(item.unitPrice, 2),
+                formatCurrency(item.total, 2)
+            ]);
+        }
+
+        ensureSpace(LINE_HEIGHT);
+        drawRow(['Subtotal', '', '', '', formatCurrency(breakdown.subtotal, 2)], true);
+        y += LINE_HEIGHT / 2;
+    }
+
+    // Totals
+    const rawTotal = costs.breakdowns.reduce((sum, cat) => sum + cat.subtotal, 0);
+    ensureSpace(LINE_HEIGHT * 5);
+    doc.setDrawColor(0);
+    doc.line(MARGIN, y, MARGIN + contentWidth, y);
+    y += LINE_HEIGHT;
+    drawRow(['Materials subtotal', '', '', '', formatCurrency(rawTotal, 2)]);
+    drawRow(['Price multiplier', '', '', '', `× ${costs.multiplier.toFixed(2)}`]);
+    doc.setFontSize(12);
+    drawRow(['Grand Total', '', '', '', formatCurrency(costs.grandTotal, 2)], true);
+
+    // Totals per area, for quoting parts of the build separately
+    if (costs.areas.length > 0) {
+        y += LINE_HEIGHT;
+        ensureSpace(LINE_HEIGHT * (costs.areas.length + 3));
+        doc.setFont('helvetica', 'bold');
+        doc.text('Cost by Area', MARGIN, y);
+        y += LINE_HEIGHT;
+        doc.setFontSize(10);
+        for (const area of costs.areas) {
+            drawRow([area.name, '', '', '', formatCurrency(area.total, 2)]);
+        }
+        doc.setFontSize(9);
+        doc.setTextColor(90);
+        doc.text('Area totals include the price multiplier. Windows and doors are counted with their wall.', MARGIN, y);
+        doc.setTextColor(0);
+    }
+
+    // Page numbers
+    const pageCount = doc.getNumberOfPages();
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    doc.setTextColor(120);
+    for (let i = 1; i <= pageCount; i++) {
+        doc.setPage(i);
+        doc.text(`${project.name} - Page ${i} of ${pageCount}`, pageWidth / 2, pageHeight - MARGIN / 2, { align: 'center' });
+    }
+
+    return doc;
+}
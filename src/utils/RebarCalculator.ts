@@ -0,0 +1,342 @@
+// Rebar Schedule - Detects wall runs from placed ICF blocks and builds a bar cut list
+import * as THREE from 'three';
+import { ICFBlock, ICFCoreThickness, ICFProject, RebarBarSize, RebarSpacingRule } from '../types/project';
+import { ICF_BLOCK_CATALOG, REBAR_BAR_SIZES, getBlockLength } from '../data/icfCatalog';
+import { getCornerLegLengths } from './WallRunGenerator';
+
+// Typical residential ICF schedule - thicker cores carry heavier bar at wider spacing
+export const DEFAULT_REBAR_RULES: Record<ICFCoreThickness, RebarSpacingRule> = {
+    4: { barSize: '#4', horizontalEveryCourses: 1, horizontalBarsPerLayer: 1, verticalSpacing: 16 },
+    6: { barSize: '#4', horizontalEveryCourses: 1, horizontalBarsPerLayer: 1, verticalSpacing: 24 },
+    8: { barSize: '#4', horizontalEveryCourses: 1, horizontalBarsPerLayer: 1, verticalSpacing: 24 },
+    10: { barSize: '#5', horizontalEveryCourses: 1, horizontalBarsPerLayer: 2, verticalSpacing: 24 },
+    12: { barSize: '#5', horizontalEveryCourses: 1, horizontalBarsPerLayer: 2, verticalSpacing: 32 }
+};
+
+export const REBAR_STOCK_LENGTH = 240;   // inches, 20' stock bars
+export const LAP_SPLICE_DIAMETERS = 40;  // lap splice length in bar diameters
+
+export type RebarUse = 'horizontal' | 'vertical' | 'corner';
+
+export interface RebarCut {
+    mark: string;
+    barSize: RebarBarSize;
+    use: RebarUse;
+    count: number;
+    length: number;       // inches per bar
+    totalLength: number;  // inches
+}
+
+export interface WallRun {
+    start: THREE.Vector3;
+    end: THREE.Vector3;
+    length: number;   // inches along the centerline
+    bottom: number;   // inches
+    top: number;      // inches
+    core: ICFCoreThickness;
+    courses: number;
+}
+
+export interface RebarSchedule {
+    runs: WallRun[];
+    cuts: RebarCut[];
+    totalLengthBySize: Partial<Record<RebarBarSize, number>>; // inches
+}
+
+/**
+ * Effective rule for a core thickness, with any project overrides applied
+ */
+export function getRebarRule(project: ICFProject, core: ICFCoreThickness): RebarSpacingRule {
+    return { ...DEFAULT_REBAR_RULES[core], ...project.settings.rebarRules?.[core] };
+}
+
+export function getLapLength(barSize: RebarBarSize): number {
+    return REBAR_BAR_SIZES[barSize].diameter * LAP_SPLICE_DIAMETERS;
+}
+
+// A straight piece of wall centerline contributed by one block (or one corner leg)
+export interface CenterlineSegment {
+    angle: number;    // direction in degrees, 0-180 (walls have no front/back)
+    offset: number;   // perpendicular distance of the centerline from the origin
+    from: number;     // position along the direction
+    to: number;
+    bottom: number;
+    height: number;
+    core: ICFCoreThickness;
+    blockId: string;
+}
+
+const round = (value: number, step: number): number => Math.round(value / step) * step;
+
+function makeSegment(
+    x: number, z: number,
+    dx: number, dz: number,
+    fromDist: number, toDist: number,
+    block: ICFBlock
+): CenterlineSegment {
+    // Fold opposite directions together so both ends of a straight line match
+    let angle = THREE.MathUtils.radToDeg(Math.atan2(dz, dx));
+    if (angle < -0.25 || angle >= 179.75) {
+        dx = -dx;
+        dz = -dz;
+        [fromDist, toDist] = [-toDist, -fromDist];
+        angle = THREE.MathUtils.radToDeg(Math.atan2(dz, dx));
+    }
+
+    const along = x * dx + z * dz;
+    return {
+        angle: round(angle, 0.5),
+        offset: round(-x * dz + z * dx, 0.5),
+        from: along + fromDist,
+        to: along + toDist,
+        bottom: block.position.y,
+        height: ICF_BLOCK_CATALOG[block.type].height,
+        core: block.coreThickness,
+        blockId: block.id
+    };
+}
+
+/**
+ * Where the centerlines of a corner block's two legs meet, in plan
+ */
+export function getCornerVertex(block: ICFBlock): { x: number; z: number } {
+    const { x, z } = block.position;
+    if (block.type !== 'corner90') return { x, z };
+
+    // corner90 blocks are centered on their long leg (leg A)
+    const spec = ICF_BLOCK_CATALOG[block.type];
+    const rad = THREE.MathUtils.degToRad(block.rotation);
+    const offset = spec.longLeg! / 2 - spec.getWidth(block.coreThickness) / 2;
+    return { x: x - Math.sin(rad) * offset, z: z - Math.cos(rad) * offset };
+}
+
+/**
+ * Break a block into the centerline segments it covers
+ */
+function getCenterlineSegments(block: ICFBlock): CenterlineSegment[] {
+    const rad = THREE.MathUtils.degToRad(block.rotation);
+    const { x, z } = block.position;
+
+    if (block.type === 'corner90' || block.type === 'corner45') {
+        // Leg A runs along bearing `rotation`, leg B along `rotation + 90/135` (see WallRunGenerator);
+        // a mirrored corner90 has its short leg on the other side
+        const legs = getCornerLegLengths(block.type, block.coreThickness);
+        const legAngle = block.type === 'corner90' ? (block.mirrored ? -90 : 90) : 135;
+        const aX = Math.sin(rad), aZ = Math.cos(rad);
+        const radB = rad + THREE.MathUtils.degToRad(legAngle);
+        const bX = Math.sin(radB), bZ = Math.cos(radB);
+        const { x: vx, z: vz } = getCornerVertex(block);
+
+        return [
+            makeSegment(vx, vz, aX, aZ, 0, legs.long, block),
+            makeSegment(vx, vz, bX, bZ, 0, legs.short, block)
+        ];
+    }
+
+    // Straight blocks run along their local X axis
+    const half = getBlockLength(block) / 2;
+    return [makeSegment(x, z, Math.cos(rad), -Math.sin(rad), -half, half, block)];
+}
+
+// Merge overlapping or touching intervals, returning total covered length
+function mergedLength(intervals: { from: number; to: number }[]): number {
+    const sorted = [...intervals].sort((a, b) => a.from - b.from);
+    let total = 0;
+    let current: { from: number; to: number } | null = null;
+    for (const iv of sorted) {
+        if (current && iv.from <= current.to + 1) {
+            current.to = Math.max(current.to, iv.to);
+        } else {
+            if (current) total += current.to - current.from;
+            current = { ...iv };
+        }
+    }
+    if (current) total += current.to - current.from;
+    return total;
+}
+
+export interface DetectedRun extends WallRun {
+    segments: CenterlineSegment[];
+}
+
+/**
+ * Group block centerlines into continuous straight wall runs
+ */
+export function detectRuns(blocks: ICFBlock[]): DetectedRun[] {
+    const lines = new Map<string, CenterlineSegment[]>();
+    for (const block of blocks) {
+        for (const segment of getCenterlineSegments(block)) {
+            const key = `${segment.angle}|${segment.offset}`;
+            if (!lines.has(key)) lines.set(key, []);
+            lines.get(key)!.push(segment);
+        }
+    }
+
+    const runs: DetectedRun[] = [];
+    lines.forEach(segments => {
+        segments.sort((a, b) => a.from - b.from);
+
+        let group: CenterlineSegment[] = [];
+        let groupEnd = -Infinity;
+        const flush = () => {
+            if (group.length === 0) return;
+            const { angle, offset } = group[0];
+            const rad = THREE.MathUtils.degToRad(angle);
+            const dx = Math.cos(rad), dz = Math.sin(rad);
+            const from = Math.min(...group.map(s => s.from));
+            const to = Math.max(...group.map(s => s.to));
+            const pointAt = (d: number) => new THREE.Vector3(d * dx - offset * dz, 0, d * dz + offset * dx);
+            runs.push({
+                start: pointAt(from),
+                end: pointAt(to),
+                length: to - from,
+                bottom: Math.min(...group.map(s => s.bottom)),
+                top: Math.max(...group.map(s => s.bottom + s.height)),
+                core: group.reduce((max, s) => (s.core > max ? s.core : max), group[0].core),
+                courses: new Set(group.map(s => s.bottom)).size,
+                segments: group
+            });
+            group = [];
+        };
+
+        for (const segment of segments) {
+            if (segment.from > groupEnd + 1) flush();
+            group.push(segment);
+            groupEnd = Math.max(groupEnd, segment.to);
+        }
+        flush();
+    });
+
+    return runs;
+}
+
+/**
+ * Ids of every block in the straight wall run(s) through a block, across all courses.
+ * A corner block belongs to the runs of both its legs.
+ */
+export function getWallRunBlockIds(blocks: ICFBlock[], blockId: string): string[] {
+    const ids = new Set<string>();
+    for (const run of detectRuns(blocks)) {
+        if (run.segments.some(s => s.blockId === blockId)) {
+            run.segments.forEach(s => ids.add(s.blockId));
+        }
+    }
+    return Array.from(ids);
+}
+
+/**
+ * Split a bar longer than stock into lapped pieces.
+ * Returns the lengths of each piece to cut.
+ */
+function spliceBar(length: number, lap: number): number[] {
+    if (length <= REBAR_STOCK_LENGTH) return [length];
+    const pieces = Math.ceil((length - lap) / (REBAR_STOCK_LENGTH - lap));
+    const totalWithLaps = length + (pieces - 1) * lap;
+    const lengths = new Array(pieces - 1).fill(REBAR_STOCK_LENGTH);
+    lengths.push(totalWithLaps - (pieces - 1) * REBAR_STOCK_LENGTH);
+    return lengths;
+}
+
+/**
+ * Build the rebar schedule for every ICF wall in a project
+ */
+export function calculateRebarSchedule(project: ICFProject): RebarSchedule {
+    const blocks = project.elements.icfBlocks;
+    const runs = detectRuns(blocks);
+    const courseHeight = ICF_BLOCK_CATALOG.standard.height;
+
+    // Tally bars by size, use and cut length (to the nearest inch)
+    const tally = new Map<string, { barSize: RebarBarSize; use: RebarUse; length: number; count: number }>();
+    const addBars = (barSize: RebarBarSize, use: RebarUse, length: number, count: number) => {
+        const rounded = Math.ceil(length - 0.01);
+        if (rounded <= 0 || count <= 0) return;
+        const key = `${use}|${barSize}|${rounded}`;
+        if (!tally.has(key)) tally.set(key, { barSize, use, length: rounded, count: 0 });
+        tally.get(key)!.count += count;
+    };
+
+    // Runs meeting at a corner or joint share the bar at their common end; the first run to reach it places it
+    const barEnds = new Set<string>();
+    const claimEnd = (point: THREE.Vector3): boolean => {
+        const key = `${Math.round(point.x)}|${Math.round(point.z)}`;
+        if (barEnds.has(key)) return false;
+        barEnds.add(key);
+        return true;
+    };
+
+    for (const run of runs) {
+        const rule = getRebarRule(project, run.core);
+        const lap = getLapLength(rule.barSize);
+
+        // Horizontal: one layer per qualifying full-height course, as long as that course's coverage
+        const byCourse = new Map<number, CenterlineSegment[]>();
+        for (const segment of run.segments) {
+            if (segment.height < courseHeight) continue; // Height adjusters are too shallow for a bar
+            if (!byCourse.has(segment.bottom)) byCourse.set(segment.bottom, []);
+            byCourse.get(segment.bottom)!.push(segment);
+        }
+        byCourse.forEach((segments, bottom) => {
+            const courseIndex = Math.round(bottom / courseHeight);
+            if (courseIndex % rule.horizontalEveryCourses !== 0) return;
+            const length = mergedLength(segments);
+            for (const piece of spliceBar(length, lap)) {
+                addBars(rule.barSize, 'horizontal', piece, rule.horizontalBarsPerLayer);
+            }
+        });
+
+        // Vertical: full wall height plus a lap onto the footing dowels
+        // Bars start at one end; the last lands on the other end only when the spacing divides the run
+        const spaces = Math.floor(run.length / rule.verticalSpacing);
+        let verticalCount = spaces + 1;
+        if (!claimEnd(run.start)) verticalCount--;
+        const endHasBar = run.length > 0 && run.length - spaces * rule.verticalSpacing < 0.5;
+        if (endHasBar && !claimEnd(run.end)) verticalCount--;
+        for (const piece of spliceBar(run.top - run.bottom + lap, lap)) {
+            addBars(rule.barSize, 'vertical', piece, verticalCount);
+        }
+    }
+
+    // Corner bars: an L with a lap-length leg each way for every horizontal bar at a corner
+    for (const block of blocks) {
+        if (block.type !== 'corner90' && block.type !== 'corner45') continue;
+        const rule = getRebarRule(project, block.coreThickness);
+        const courseIndex = Math.round(block.position.y / courseHeight);
+        if (courseIndex % rule.horizontalEveryCourses !== 0) continue;
+        addBars(rule.barSize, 'corner', getLapLength(rule.barSize) * 2, rule.horizontalBarsPerLayer);
+    }
+
+    // Number marks per use, longest bars first
+    const prefixes: Record<RebarUse, string> = { horizontal: 'H', vertical: 'V', corner: 'C' };
+    const useOrder: RebarUse[] = ['horizontal', 'vertical', 'corner'];
+    const counters: Record<RebarUse, number> = { horizontal: 0, vertical: 0, corner: 0 };
+    const totalLengthBySize: Partial<Record<RebarBarSize, number>> = {};
+    const cuts: RebarCut[] = Array.from(tally.values())
+        .sort((a, b) => useOrder.indexOf(a.use) - useOrder.indexOf(b.use) || b.length - a.length)
+        .map(entry => {
+            const totalLength = entry.length * entry.count;
+            totalLengthBySize[entry.barSize] = (totalLengthBySize[entry.barSize] || 0) + totalLength;
+            return {
+                mark: `${prefixes[entry.use]}${++counters[entry.use]}`,
+                barSize: entry.barSize,
+                use: entry.use,
+                count: entry.count,
+                length: entry.length,
+                totalLength
+            };
+        });
+
+    return {
+        runs: runs.map(({ segments, ...run }) => run),
+        cuts,
+        totalLengthBySize
+    };
+}
+
+/**
+ * Format inches as feet and inches for the cut list, e.g. 20' 4"
+ */
+export function formatBarLength(inches: number): string {
+    const feet = Math.floor(inches / 12);
+    const rest = Math.round(inches - feet * 12);
+    return feet > 0 ? `${feet}' ${rest}"` : `${rest}"`;
+}
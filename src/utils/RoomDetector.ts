@@ -0,0 +1,372 @@
+// Room Detection - Rooms as the closed loops of ICF and framing walls, with their floor areas
+import { ICFProject } from '../types/project';
+import { ICF_BLOCK_CATALOG } from '../data/icfCatalog';
+import { FRAMING_CATALOG } from '../data/materialsCatalog';
+import { detectRuns } from './RebarCalculator';
+import { PlanPoint } from './BlockSnapping';
+
+// Wall ends closer than this (inches) meet
+const NODE_TOLERANCE = 1;
+// Loops with less floor than this (sq in) are slivers between walls, not rooms
+const MIN_ROOM_AREA = 4 * 144;
+// Walls starting less than this (inches) above a floor stand on it (sills, stem walls)
+const MIN_STOREY_HEIGHT = 84;
+
+export interface Room {
+    id: string;
+    name: string;
+    outline: PlanPoint[];     // wall centerlines, counter-clockwise in (x, z)
+    interior: PlanPoint[];    // inside faces of the walls
+    exterior: PlanPoint[];    // outside faces of the walls
+    floor: number;            // elevation of the storey's floor, or its lowest wall bottom above it
+    height: number;           // floor to the lowest wall top
+    interiorArea: number;     // sq in
+    exteriorArea: number;     // sq in
+    perimeter: number;        // inches along the inside faces
+    volume: number;           // cu in
+}
+
+export interface RoomSummary {
+    rooms: Room[];
+    conditionedArea: number;  // sq in - interior floor area of every room
+    grossArea: number;        // sq in - each storey's footprints to the outside faces of the walls
+}
+
+// A wall reduced to its centerline in plan
+interface PlanWall {
+    a: PlanPoint;
+    b: PlanPoint;
+    thickness: number;
+    bottom: number;
+    top: number;
+}
+
+interface Edge {
+    from: number;
+    to: number;
+    wall: PlanWall;
+}
+
+const sub = (p: PlanPoint, q: PlanPoint): PlanPoint => ({ x: p.x - q.x, z: p.z - q.z });
+const cross = (p: PlanPoint, q: PlanPoint) => p.x * q.z - p.z * q.x;
+const dist = (p: PlanPoint, q: PlanPoint) => Math.hypot(p.x - q.x, p.z - q.z);
+
+// Shoelace area - positive when the points run counter-clockwise in (x, z)
+export function getSignedArea(points: PlanPoint[]): number {
+    let sum = 0;
+    for (let i = 0; i < points.length; i++) {
+        sum += cross(points[i], points[(i + 1) % points.length]);
+    }
+    return sum / 2;
+}
+
+// Centre of area of a simple polygon, for placing its label
+export function getPolygonCentroid(points: PlanPoint[]): PlanPoint {
+    const area = getSignedArea(points);
+    if (Math.abs(area) < 1e-9) {
+        return {
+            x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+            z: points.reduce((sum, p) => sum + p.z, 0) / points.length
+        };
+    }
+    let x = 0, z = 0;
+    for (let i = 0; i < points.length; i++) {
+        const p = points[i], q = points[(i + 1) % points.length];
+        const c = cross(p, q);
+        x += (p.x + q.x) * c;
+        z += (p.z + q.z) * c;
+    }
+    return { x: x / (6 * area), z: z / (6 * area) };
+}
+
+// Where the lines through a-b and c-d meet, as a parameter along a-b and along c-d
+function intersectLines(a: PlanPoint, b: PlanPoint, c: PlanPoint, d: PlanPoint): { t: number; u: number } | null {
+    const r = sub(b, a), s = sub(d, c);
+    const denom = cross(r, s);
+    if (Math.abs(denom) < 1e-9 * dist(a, b) * dist(c, d)) return null;
+    const ac = sub(c, a);
+    return { t: cross(ac, s) / denom, u: cross(ac, r) / denom };
+}
+
+/**
+ * Floor elevation of each storey, lowest first. A wall starting at least a
+ * storey above the last floor found starts a new one.
+ */
+function getLevels(project: ICFProject): number[] {
+    const bottoms = [
+        ...detectRuns(project.elements.icfBlocks).map(run => run.bottom),
+        ...project.elements.framing.map(wall => wall.start.y)
+    ].sort((p, q) => p - q);
+    const levels: number[] = [];
+    for (const bottom of bottoms) {
+        if (levels.length === 0 || bottom >= levels[levels.length - 1] + MIN_STOREY_HEIGHT) levels.push(bottom);
+    }
+    return levels;
+}
+
+// Walls standing anywhere between a storey's floor and the next one up
+function getPlanWalls(project: ICFProject, floor: number, ceiling: number): PlanWall[] {
+    const blocks = project.elements.icfBlocks.filter(block =>
+        block.position.y < ceiling && block.position.y + ICF_BLOCK_CATALOG[block.type].height > floor);
+    const walls: PlanWall[] = detectRuns(blocks).map(run => ({
+        a: { x: run.start.x, z: run.start.z },
+        b: { x: run.end.x, z: run.end.z },
+        thickness: ICF_BLOCK_CATALOG.standard.getWidth(run.core),
+        bottom: run.bottom,
+        top: run.top
+    }));
+    for (const wall of project.elements.framing) {
+        if (wall.start.y >= ceiling || wall.start.y + wall.height <= floor) continue;
+        walls.push({
+            a: { x: wall.start.x, z: wall.start.z },
+            b: { x: wall.end.x, z: wall.end.z },
+            thickness: FRAMING_CATALOG[wall.type].depth,
+            bottom: wall.start.y,
+            top: wall.start.y + wall.height
+        });
+    }
+    return walls.filter(wall => dist(wall.a, wall.b) > NODE_TOLERANCE);
+}
+
+/**
+ * Move wall ends onto the centerlines of the walls they run into. A wall that
+ * stops at another's face, or at the corner of a butt joint, ends half a wall
+ * thickness short of its centerline; it is extended (or trimmed) to meet it.
+ */
+function joinWallEnds(walls: PlanWall[]): void {
+    for (const wall of walls) {
+        for (const end of ['a', 'b'] as const) {
+            const point = wall[end];
+            let best: PlanPoint | null = null;
+            let bestDistance = Infinity;
+            for (const other of walls) {
+                if (other === wall) continue;
+                const hit = intersectLines(wall.a, wall.b, other.a, other.b);
+                if (!hit) continue;
+                const length = dist(other.a, other.b);
+                const reach = (wall.thickness / 2 + NODE_TOLERANCE) / length;
+                if (hit.u < -reach || hit.u > 1 + reach) continue;
+                const x = { x: wall.a.x + (wall.b.x - wall.a.x) * hit.t, z: wall.a.z + (wall.b.z - wall.a.z) * hit.t };
+                const d = dist(point, x);
+                if (d <= other.thickness / 2 + NODE_TOLERANCE && d < bestDistance) {
+                    best = x;
+                    bestDistance = d;
+                }
+            }
+            if (best) wall[end] = best;
+        }
+    }
+}
+
+/**
+ * Plan graph of the walls: nodes where walls end or cross, edges between them.
+ * Walls that only dead-end are pruned, leaving the loops.
+ */
+function buildGraph(walls: PlanWall[]): { nodes: PlanPoint[]; edges: Edge[] } {
+    const nodes: PlanPoint[] = [];
+    const nodeAt = (p: PlanPoint): number => {
+        const index = nodes.findIndex(n => dist(n, p) <= NODE_TOLERANCE);
+        if (index >= 0) return index;
+        nodes.push(p);
+        return nodes.length - 1;
+    };
+
+    // Every point along each wall where another wall meets or crosses it
+    const splits = walls.map(() => [0, 1]);
+    for (let i = 0; i < walls.length; i++) {
+        for (let j = i + 1; j < walls.length; j++) {
+            const a = walls[i], b = walls[j];
+            const hit = intersectLines(a.a, a.b, b.a, b.b);
+            if (!hit) continue;
+            const slackA = NODE_TOLERANCE / dist(a.a, a.b);
+            const slackB = NODE_TOLERANCE / dist(b.a, b.b);
+            if (hit.t < -slackA || hit.t > 1 + slackA || hit.u < -slackB || hit.u > 1 + slackB) continue;
+            splits[i].push(Math.min(1, Math.max(0, hit.t)));
+            splits[j].push(Math.min(1, Math.max(0, hit.u)));
+        }
+    }
+
+    const edges = new Map<string, Edge>();
+    walls.forEach((wall, i) => {
+        const ids = [...new Set(splits[i])]
+            .sort((s, t) => s - t)
+            .map(t => nodeAt({ x: wall.a.x + (wall.b.x - wall.a.x) * t, z: wall.a.z + (wall.b.z - wall.a.z) * t }));
+        for (let k = 1; k < ids.length; k++) {
+            const from = Math.min(ids[k - 1], ids[k]), to = Math.max(ids[k - 1], ids[k]);
+            if (from === to) continue;
+            // Overlapping walls share an edge; the thicker one bounds the room
+            const key = `${from}|${to}`;
+            const existing = edges.get(key);
+            if (!existing || existing.wall.thickness < wall.thickness) edges.set(key, { from, to, wall });
+        }
+    });
+
+    let remaining = [...edges.values()];
+    for (;;) {
+        const degree = new Map<number, number>();
+        for (const edge of remaining) {
+            degree.set(edge.from, (degree.get(edge.from) ?? 0) + 1);
+            degree.set(edge.to, (degree.get(edge.to) ?? 0) + 1);
+        }
+        const pruned = remaining.filter(edge => degree.get(edge.from)! > 1 && degree.get(edge.to)! > 1);
+        if (pruned.length === remaining.length) break;
+        remaining = pruned;
+    }
+    return { nodes, edges: remaining };
+}
+
+interface Face {
+    nodes: number[];
+    walls: PlanWall[];   // walls[i] runs from nodes[i] to nodes[i + 1]
+}
+
+/**
+ * Trace every face of the graph, keeping it on the left of each edge.
+ * Bounded faces come out counter-clockwise, the outside of each building clockwise.
+ */
+function traceFaces(nodes: PlanPoint[], edges: Edge[]): Face[] {
+    // Outgoing half-edges at each node, sorted counter-clockwise
+    const outgoing = new Map<number, { to: number; wall: PlanWall; angle: number }[]>();
+    const addHalf = (from: number, to: number, wall: PlanWall) => {
+        const angle = Math.atan2(nodes[to].z - nodes[from].z, nodes[to].x - nodes[from].x);
+        if (!outgoing.has(from)) outgoing.set(from, []);
+        outgoing.get(from)!.push({ to, wall, angle });
+    };
+    for (const edge of edges) {
+        addHalf(edge.from, edge.to, edge.wall);
+        addHalf(edge.to, edge.from, edge.wall);
+    }
+    outgoing.forEach(list => list.sort((p, q) => p.angle - q.angle));
+
+    const visited = new Set<string>();
+    const faces: Face[] = [];
+    for (const edge of edges) {
+        for (const [start, next] of [[edge.from, edge.to], [edge.to, edge.from]]) {
+            if (visited.has(`${start}|${next}`)) continue;
+            const face: Face = { nodes: [], walls: [] };
+            let from = start, to = next;
+            while (!visited.has(`${from}|${to}`)) {
+                visited.add(`${from}|${to}`);
+                face.nodes.push(from);
+                face.walls.push(outgoing.get(from)!.find(h => h.to === to)!.wall);
+                // Turn as far right as possible: the half-edge just clockwise of the way back
+                const list = outgoing.get(to)!;
+                const back = list.findIndex(h => h.to === from);
+                const turn = list[(back - 1 + list.length) % list.length];
+                from = to;
+                to = turn.to;
+            }
+            faces.push(face);
+        }
+    }
+    return faces;
+}
+
+/**
+ * Offset each edge of a polygon to its left by `side` times half its wall's
+ * thickness, meeting neighbouring edges where the offset lines cross
+ */
+function offsetPolygon(points: PlanPoint[], walls: PlanWall[], side: 1 | -1): PlanPoint[] {
+    const n = points.length;
+    const lines = points.map((p, i) => {
+        const q = points[(i + 1) % n];
+        const length = dist(p, q);
+        const shift = side * walls[i].thickness / 2 / length;
+        const normal = { x: -(q.z - p.z) * shift, z: (q.x - p.x) * shift };
+        return { a: { x: p.x + normal.x, z: p.z + normal.z }, b: { x: q.x + normal.x, z: q.z + normal.z } };
+    });
+    const result: PlanPoint[] = [];
+    for (let i = 0; i < n; i++) {
+        const prev = lines[(i - 1 + n) % n], line = lines[i];
+        const hit = intersectLines(prev.a, prev.b, line.a, line.b);
+        if (hit) {
+            result.push({ x: prev.a.x + (prev.b.x - prev.a.x) * hit.t, z: prev.a.z + (prev.b.z - prev.a.z) * hit.t });
+        } else {
+            // Straight through (a wall split where another meets it) - a step if the thickness changes
+            result.push(prev.b);
+            if (dist(prev.b, line.a) > 1e-6) result.push(line.a);
+        }
+    }
+    return result;
+}
+
+const perimeterOf = (points: PlanPoint[]) =>
+    points.reduce((sum, p, i) => sum + dist(p, points[(i + 1) % points.length]), 0);
+
+/**
+ * Rooms enclosed by the project's ICF and framing walls, found storey by
+ * storey. A wall through several storeys (e.g. an ICF wall two floors high)
+ * bounds rooms on each of them.
+ */
+export function detectRooms(project: ICFProject): RoomSummary {
+    const levels = getLevels(project);
+    const rooms: Room[] = [];
+    let grossArea = 0;
+    levels.forEach((level, i) => {
+        const summary = detectLevelRooms(getPlanWalls(project, level, levels[i + 1] ?? Infinity), level);
+        rooms.push(...summary.rooms);
+        grossArea += summary.grossArea;
+    });
+
+    // Number rooms storey by storey in plan order, so names stay put as other walls are edited
+    const corner = (room: Room) => ({
+        x: Math.min(...room.outline.map(p => p.x)),
+        z: Math.min(...room.outline.map(p => p.z))
+    });
+    const levelOf = (room: Room) => levels.filter(level => level <= room.floor).length;
+    rooms.sort((p, q) => levelOf(p) - levelOf(q) || corner(p).z - corner(q).z || corner(p).x - corner(q).x);
+    const counts = new Map<number, number>();
+    rooms.forEach((room, i) => {
+        const level = levelOf(room);
+        const number = (counts.get(level) ?? 0) + 1;
+        counts.set(level, number);
+        room.id = `room-${i + 1}`;
+        room.name = levels.length > 1 ? `Level ${level} Room ${number}` : `Room ${number}`;
+    });
+
+    return {
+        rooms,
+        conditionedArea: rooms.reduce((sum, room) => sum + room.interiorArea, 0),
+        grossArea
+    };
+}
+
+// Rooms of one storey, and the area of its footprints to the outside faces of the walls
+function detectLevelRooms(walls: PlanWall[], level: number): { rooms: Room[]; grossArea: number } {
+    joinWallEnds(walls);
+    const { nodes, edges } = buildGraph(walls);
+
+    const rooms: Room[] = [];
+    let grossArea = 0;
+    for (const face of traceFaces(nodes, edges)) {
+        const outline = face.nodes.map(i => nodes[i]);
+        const area = getSignedArea(outline);
+        if (area < 0) {
+            // The outside of a building - its left is the outside world
+            grossArea += Math.abs(getSignedArea(offsetPolygon(outline, face.walls, 1)));
+            continue;
+        }
+
+        const interior = offsetPolygon(outline, face.walls, 1);
+        const interiorArea = getSignedArea(interior);
+        if (interiorArea < MIN_ROOM_AREA) continue;
+        const exterior = offsetPolygon(outline, face.walls, -1);
+
+        const floor = Math.max(level, Math.min(...face.walls.map(w => w.bottom)));
+        const height = Math.min(...face.walls.map(w => w.top)) - floor;
+        rooms.push({
+            id: '',
+            name: '',
+            outline,
+            interior,
+            exterior,
+            floor,
+            height,
+            interiorArea,
+            exteriorArea: getSignedArea(exterior),
+            perimeter: perimeterOf(interior),
+            volume: interiorArea * Math.max(0, height)
+        });
+    }
+    return { rooms, grossArea };
+}
@@ -0,0 +1,188 @@
+// Selection Utilities - Lookup and rigid transforms across every element type
+import * as THREE from 'three';
+import {
+    ProjectElements, ICFBlock, FramingWall, Pipe, WireRun, Outlet, Switch, ElectricalPanel,
+    LowVoltageRun, NetworkDrop, Equipment, Cabinet, Window, Door, Vector3
+} from '../types/project';
+
+export type ProjectElement =
+    | ICFBlock | FramingWall | Pipe | WireRun | Outlet | Switch | ElectricalPanel
+    | LowVoltageRun | NetworkDrop | Equipment | Cabinet | Window | Door;
+
+/**
+ * Every element array in the project, for operations that apply to any element
+ */
+export function getElementArrays(elements: ProjectElements): ProjectElement[][] {
+    return [
+        elements.icfBlocks,
+        elements.framing,
+        elements.plumbing,
+        elements.electrical.wires,
+        elements.electrical.outlets,
+        elements.electrical.switches,
+        elements.electrical.panels,
+        elements.lowVoltage.runs,
+        elements.lowVoltage.drops,
+        elements.equipment,
+        elements.cabinets,
+        elements.windows,
+        elements.doors
+    ];
+}
+
+export function findElements(elements: ProjectElements, ids: Set<string>): ProjectElement[] {
+    return getElementArrays(elements).flatMap(arr => arr.filter(el => ids.has(el.id)));
+}
+
+/**
+ * Deep copy of the elements with the given ids, in the same structure as the project
+ */
+export function pickElements(elements: ProjectElements, ids: Set<string>): ProjectElements {
+    const pick = <T extends ProjectElement>(arr: T[]): T[] =>
+        arr.filter(el => ids.has(el.id)).map(el => JSON.parse(JSON.stringify(el)));
+    return {
+        icfBlocks: pick(elements.icfBlocks),
+        framing: pick(elements.framing),
+        plumbing: pick(elements.plumbing),
+        electrical: {
+            wires: pick(elements.electrical.wires),
+            outlets: pick(elements.electrical.outlets),
+            switches: pick(elements.electrical.switches),
+            panels: pick(elements.electrical.panels)
+        },
+        lowVoltage: {
+            runs: pick(elements.lowVoltage.runs),
+            drops: pick(elements.lowVoltage.drops)
+        },
+        equipment: pick(elements.equipment),
+        cabinets: pick(elements.cabinets),
+        windows: pick(elements.windows),
+        doors: pick(elements.doors)
+    };
+}
+
+// Points that locate an element: a position, the ends of a wall, or a run's path
+export function getElementPoints(element: ProjectElement): Vector3[] {
+    if ('position' in element) return [element.position];
+    if ('start' in element) return [element.start, element.end];
+    return element.path;
+}
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+export const normalizeRotation = (degrees: number): number => round(((degrees % 360) + 360) % 360);
+
+/**
+ * Move every point of an element through `transform` and turn it by `rotation` degrees
+ */
+export function transformElement(
+    element: ProjectElement,
+    transform: (v: Vector3) => Vector3,
+    rotation = 0
+): void {
+    if ('position' in element) {
+        element.position = transform(element.position);
+        element.rotation = normalizeRotation(element.rotation + rotation);
+    } else if ('start' in element) {
+        element.start = transform(element.start);
+        element.end = transform(element.end);
+    } else {
+        element.path = element.path.map(transform);
+    }
+}
+
+export const translatePoint = (delta: Vector3) => (v: Vector3): Vector3 => ({
+    x: round(v.x + delta.x),
+    y: round(v.y + delta.y),
+    z: round(v.z + delta.z)
+});
+
+/**
+ * Rotation about a vertical axis through `pivot`, matching three.js rotation.y
+ */
+export const rotatePointAbout = (pivot: Vector3, degrees: number) => {
+    const rad = THREE.MathUtils.degToRad(degrees);
+    const cos = Math.cos(rad), sin = Math.sin(rad);
+    return (v: Vector3): Vector3 => {
+        const dx = v.x - pivot.x, dz = v.z - pivot.z;
+        return {
+            x: round(pivot.x + dx * cos + dz * sin),
+            y: v.y,
+            z: round(pivot.z - dx * sin + dz * cos)
+        };
+    };
+};
+
+export type MirrorAxis = 'x' | 'z';
+
+/**
+ * Reflection across a vertical plane through `pivot` - 'x' flips X coordinates, 'z' flips Z
+ */
+export const mirrorPointAbout = (pivot: Vector3, axis: MirrorAxis) => (v: Vector3): Vector3 =>
+    axis === 'x'
+        ? { x: round(2 * pivot.x - v.x), y: v.y, z: v.z }
+        : { x: v.x, y: v.y, z: round(2 * pivot.z - v.z) };
+
+/**
+ * Mirror an element across a vertical plane through `pivot`.
+ * Yaw is reflected so fronts still face the mirrored way. A corner90 block becomes
+ * its flipped-over (opposite hand) version; a corner45 has equal legs, so it is
+ * re-posed with its legs swapped instead.
+ */
+export function mirrorElement(element: ProjectElement, pivot: Vector3, axis: MirrorAxis): void {
+    const reflect = mirrorPointAbout(pivot, axis);
+    if (!('position' in element)) {
+        transformElement(element, reflect);
+        return;
+    }
+
+    element.position = reflect(element.position);
+    let rotation = axis === 'x' ? -element.rotation : 180 - element.rotation;
+
+    if ('coreThickness' in element) {
+        if (element.type === 'corner90') {
+            if (element.mirrored) delete element.mirrored;
+            else element.mirrored = true;
+        } else if (element.type === 'corner45') {
+            rotation -= 135;
+        }
+    }
+    element.rotation = normalizeRotation(rotation);
+}
+
+/**
+ * Center of the plan bounding box of a set of elements
+ */
+export function getSelectionCenter(elements: ProjectElement[]): Vector3 {
+    const box = new THREE.Box3();
+    for (const element of elements) {
+        for (const p of getElementPoints(element)) {
+            box.expandByPoint(new THREE.Vector3(p.x, p.y, p.z));
+        }
+    }
+    if (box.isEmpty()) return { x: 0, y: 0, z: 0 };
+    const center = box.getCenter(new THREE.Vector3());
+    return { x: center.x, y: box.min.y, z: center.z };
+}
+
+/**
+ * Plan size of the bounding box of a set of elements
+ */
+export function getSelectionSize(elements: ProjectElement[]): Vector3 {
+    const box = new THREE.Box3();
+    for (const element of elements) {
+        for (const p of getElementPoints(element)) {
+            box.expandByPoint(new THREE.Vector3(p.x, p.y, p.z));
+        }
+    }
+    if (box.isEmpty()) return { x: 0, y: 0, z: 0 };
+    const size = box.getSize(new THREE.Vector3());
+    return { x: size.x, y: size.y, z: size.z };
+}
+
+/**
+ * Ids of every block in the same course (same bottom elevation)
+ */
+export function getCourseBlockIds(blocks: ICFBlock[], elevation: number): string[] {
+    return blocks.filter(b => Math.abs(b.position.y - elevation) < 0.01).map(b => b.id);
+}
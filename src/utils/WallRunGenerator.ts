@@ -0,0 +1,363 @@
+// Wall Run Generator - Lays out full ICF courses along a drawn centerline path
+import * as THREE from 'three';
+import { ICFBlock, ICFBlockType, ICFCoreThickness } from '../types/project';
+import { ICF_BLOCK_CATALOG } from '../data/icfCatalog';
+
+export type WallRunBlock = Omit<ICFBlock, 'id'>;
+
+const ANGLE_EPSILON = 0.5;   // degrees
+const LENGTH_EPSILON = 0.01; // inches
+const BOND_OFFSET = 8;       // inches - joints should clear the joints of the course below by this much
+
+// Trim floating point noise from generated coordinates
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+/**
+ * Converts a horizontal direction to a bearing in degrees.
+ * Bearing b corresponds to the direction (sin b, cos b) in XZ, which matches
+ * how a mesh rotated by b degrees around Y maps its local +Z axis.
+ */
+function toBearing(dx: number, dz: number): number {
+    return normalizeAngle(THREE.MathUtils.radToDeg(Math.atan2(dx, dz)));
+}
+
+function normalizeAngle(degrees: number): number {
+    const a = ((degrees % 360) + 360) % 360;
+    return Math.abs(a - 360) < ANGLE_EPSILON ? 0 : round(a);
+}
+
+/**
+ * Rotation for a straight block so its length (local +X) runs along the bearing
+ */
+function straightRotation(bearing: number): number {
+    return normalizeAngle(bearing - 90);
+}
+
+/**
+ * Length of each corner leg measured along the wall centerline from the vertex.
+ * Legs are specified on the outside face, which extends w/2 * tan(turn/2) past the vertex.
+ */
+export function getCornerLegLengths(
+    type: 'corner90' | 'corner45',
+    core: ICFCoreThickness
+): { long: number; short: number } {
+    const spec = ICF_BLOCK_CATALOG[type];
+    const width = spec.getWidth(core);
+    const turn = type === 'corner90' ? 90 : 45;
+    const outsideOverhang = (width / 2) * Math.tan(THREE.MathUtils.degToRad(turn / 2));
+    return {
+        long: spec.longLeg! - outsideOverhang,
+        short: spec.shortLeg! - outsideOverhang
+    };
+}
+
+/**
+ * Snap a raw ground point so the segment from the previous point runs on a
+ * 45° increment and lands on the grid
+ */
+export function constrainWallPoint(
+    previous: THREE.Vector3 | null,
+    raw: THREE.Vector3,
+    gridSize: number = 8
+): THREE.Vector3 {
+    if (!previous) {
+        return new THREE.Vector3(
+            Math.round(raw.x / gridSize) * gridSize,
+            0,
+            Math.round(raw.z / gridSize) * gridSize
+        );
+    }
+
+    const dx = raw.x - previous.x;
+    const dz = raw.z - previous.z;
+    const length = Math.round(Math.sqrt(dx * dx + dz * dz) / gridSize) * gridSize;
+    const bearing = THREE.MathUtils.degToRad(Math.round(toBearing(dx, dz) / 45) * 45);
+
+    return new THREE.Vector3(
+        previous.x + round(Math.sin(bearing) * length),
+        0,
+        previous.z + round(Math.cos(bearing) * length)
+    );
+}
+
+interface CornerPlacement {
+    type: 'corner90' | 'corner45';
+    position: { x: number; z: number };
+    rotation: number;
+    mirrored: boolean;
+    // Centerline distance consumed on the incoming and outgoing segment
+    inLeg: number;
+    outLeg: number;
+}
+
+/**
+ * Work out which corner block fits a vertex and how it is posed.
+ *
+ * corner90: long leg runs along bearing `rotation`, short leg along `rotation + 90`,
+ * and the block position is the centre of the L's bounding box (see BlockFactory).
+ * corner45: legs run along `rotation` and `rotation + 135`, positioned at the vertex.
+ * A flipped corner90 is mirrored to put its long leg on the other segment, so that
+ * alternate courses overlap at the corner; corner45 legs are equal and never flip.
+ */
+function placeCorner(
+    vertex: THREE.Vector3,
+    inBearing: number,
+    outBearing: number,
+    core: ICFCoreThickness,
+    flip = false
+): CornerPlacement | null {
+    // Legs point away from the vertex: back along the incoming segment, forward along the outgoing
+    const backBearing = normalizeAngle(inBearing + 180);
+    const turn = normalizeAngle(outBearing - inBearing);
+    const deflection = Math.min(turn, 360 - turn);
+
+    if (deflection < ANGLE_EPSILON) return null; // Collinear, no corner needed
+
+    let type: 'corner90' | 'corner45';
+    let legAngle: number;
+    if (Math.abs(deflection - 90) < ANGLE_EPSILON) {
+        type = 'corner90';
+        legAngle = 90;
+    } else if (Math.abs(deflection - 45) < ANGLE_EPSILON) {
+        type = 'corner45';
+        legAngle = 135;
+    } else {
+        throw new Error(`Unsupported wall angle: ${Math.round(deflection)}° turn`);
+    }
+
+    // Pick which leg is "A" so that leg B sits legAngle clockwise from it (anticlockwise when mirrored)
+    const mirrored = flip && type === 'corner90';
+    const clockwiseFromBack = Math.abs(normalizeAngle(outBearing - backBearing) - legAngle) < ANGLE_EPSILON;
+    const backIsA = clockwiseFromBack !== mirrored;
+    const bearingA = backIsA ? backBearing : outBearing;
+    const legs = getCornerLegLengths(type, core);
+
+    let position = { x: vertex.x, z: vertex.z };
+    if (type === 'corner90') {
+        const spec = ICF_BLOCK_CATALOG.corner90;
+        const offset = spec.longLeg! / 2 - spec.getWidth(core) / 2;
+        const rad = THREE.MathUtils.degToRad(bearingA);
+        position = {
+            x: round(vertex.x + Math.sin(rad) * offset),
+            z: round(vertex.z + Math.cos(rad) * offset)
+        };
+    }
+
+    return {
+        type,
+        position,
+        rotation: bearingA,
+        mirrored,
+        inLeg: backIsA ? legs.long : legs.short,
+        outLeg: backIsA ? legs.short : legs.long
+    };
+}
+
+/**
+ * Split a course height into full 16" courses and 4" height adjuster courses
+ */
+export function getWallCourses(height: number): { type: ICFBlockType; y: number }[] {
+    const fullHeight = ICF_BLOCK_CATALOG.standard.height;
+    const adjusterHeight = ICF_BLOCK_CATALOG.heightAdjuster.height;
+    const courses: { type: ICFBlockType; y: number }[] = [];
+
+    const fullCourses = Math.floor((height + LENGTH_EPSILON) / fullHeight);
+    for (let i = 0; i < fullCourses; i++) {
+        courses.push({ type: 'standard', y: i * fullHeight });
+    }
+
+    const remainder = height - fullCourses * fullHeight;
+    const adjusterCourses = Math.ceil(remainder / adjusterHeight - LENGTH_EPSILON);
+    for (let i = 0; i < adjusterCourses; i++) {
+        courses.push({ type: 'heightAdjuster', y: fullCourses * fullHeight + i * adjusterHeight });
+    }
+
+    return courses;
+}
+
+/**
+ * Where each block of a straight stretch starts. A staggered stretch starts with
+ * a block `stagger` long, moving every joint after it.
+ */
+function getBlockStarts(from: number, to: number, blockLength: number, stagger: number): number[] {
+    const starts = [from];
+    let next = from + (stagger > LENGTH_EPSILON && stagger < to - from - LENGTH_EPSILON ? stagger : blockLength);
+    while (next < to - LENGTH_EPSILON) {
+        starts.push(next);
+        next += blockLength;
+    }
+    return starts;
+}
+
+/**
+ * Stagger for a straight stretch that keeps its joints clear of the joints in the
+ * course below (running bond): none if that already works, else the best of a few cuts
+ */
+function chooseStagger(from: number, to: number, blockLength: number, below: number[]): number {
+    if (below.length === 0) return 0;
+    let best = { stagger: 0, clearance: -1 };
+    for (const stagger of [0, blockLength / 2, blockLength / 4, blockLength * 3 / 4]) {
+        const joints = getBlockStarts(from, to, blockLength, stagger).slice(1);
+        const clearance = Math.min(Infinity, ...joints.map(j => Math.min(...below.map(b => Math.abs(j - b)))));
+        if (clearance >= BOND_OFFSET) return stagger;
+        if (clearance > best.clearance) best = { stagger, clearance };
+    }
+    return best.stagger;
+}
+
+/**
+ * Fill a straight stretch of centerline with blocks of the given type.
+ * Runs that are not a multiple of the block length end with a block cut to fit
+ * (still a whole block for purchasing, but `cutLength` records the installed length),
+ * as does the first block of a staggered run.
+ */
+function fillStraightRun(
+    start: THREE.Vector3,
+    bearing: number,
+    from: number,
+    to: number,
+    type: ICFBlockType,
+    core: ICFCoreThickness,
+    y: number,
+    stagger = 0
+): WallRunBlock[] {
+    const runLength = to - from;
+    if (runLength <= LENGTH_EPSILON) return [];
+
+    const blockLength = ICF_BLOCK_CATALOG[type].length;
+    const rad = THREE.MathUtils.degToRad(bearing);
+    const rotation = straightRotation(bearing);
+    const blocks: WallRunBlock[] = [];
+
+    const starts = getBlockStarts(from, to, blockLength, stagger);
+    for (let i = 0; i < starts.length; i++) {
+        const length = (starts[i + 1] ?? to) - starts[i];
+        const center = starts[i] + length / 2;
+
+        const block: WallRunBlock = {
+            type,
+            coreThickness: core,
+            position: {
+                x: round(start.x + Math.sin(rad) * center),
+                y,
+                z: round(start.z + Math.cos(rad) * center)
+            },
+            rotation
+        };
+        if (length < blockLength - LENGTH_EPSILON) block.cutLength = round(length);
+        blocks.push(block);
+    }
+
+    return blocks;
+}
+
+/**
+ * Generate every block needed to build a wall along a centerline polyline.
+ * If the last point returns to the first, the run is treated as a closed loop.
+ *
+ * @param points - Wall centerline corner points on the ground plane
+ * @param height - Wall height in inches (rounded up to the nearest 4")
+ * @param core - Concrete core thickness for every block in the run
+ * @param baseElevation - Elevation of the bottom of the first course
+ */
+export function generateWallRun(
+    points: THREE.Vector3[],
+    height: number,
+    core: ICFCoreThickness,
+    baseElevation: number = 0
+): WallRunBlock[] {
+    // Drop duplicate consecutive points (e.g. from a double click)
+    const path = points.filter((p, i) => i === 0 || p.distanceTo(points[i - 1]) > LENGTH_EPSILON);
+    if (path.length < 2) return [];
+
+    const closed = path.length > 2 && path[0].distanceTo(path[path.length - 1]) < LENGTH_EPSILON;
+    if (closed) path.pop();
+
+    const segmentCount = closed ? path.length : path.length - 1;
+    const segments: { start: THREE.Vector3; length: number; bearing: number }[] = [];
+    for (let i = 0; i < segmentCount; i++) {
+        const a = path[i];
+        const b = path[(i + 1) % path.length];
+        segments.push({
+            start: a,
+            length: a.distanceTo(b),
+            bearing: toBearing(b.x - a.x, b.z - a.z)
+        });
+    }
+
+    // Corner at each vertex that joins two segments, in the pose for even and for odd courses
+    const placeCorners = (flip: boolean): (CornerPlacement | null)[] => path.map((vertex, i) => {
+        const hasIn = closed || i > 0;
+        const hasOut = closed || i < path.length - 1;
+        if (!hasIn || !hasOut) return null;
+        const inSeg = segments[(i - 1 + segmentCount) % segmentCount];
+        const outSeg = segments[i % segmentCount];
+        return placeCorner(vertex, inSeg.bearing, outSeg.bearing, core, flip);
+    });
+    const cornerPoses = [placeCorners(false), placeCorners(true)];
+
+    // Height adjusters have no corner pieces: one run is extended past the vertex to
+    // the outside corner and the other butts against it, swapping on alternate courses
+    const width = ICF_BLOCK_CATALOG.standard.getWidth(core);
+    const buttJoints = path.map((_, i) => {
+        const corner = cornerPoses[0][i];
+        if (!corner) return null;
+        const inSeg = segments[(i - 1 + segmentCount) % segmentCount];
+        const outSeg = segments[i % segmentCount];
+        const turn = normalizeAngle(outSeg.bearing - inSeg.bearing);
+        const half = THREE.MathUtils.degToRad(Math.min(turn, 360 - turn)) / 2;
+        return { extend: width / 2 * Math.tan(half), trim: width / 2 / Math.tan(half) };
+    });
+
+    const blocks: WallRunBlock[] = [];
+    // Joints along each segment in the course just laid, measured from its start
+    let belowJoints: number[][] = segments.map(() => []);
+
+    getWallCourses(height).forEach(({ type, y }, courseIndex) => {
+        const course = { type, y: baseElevation + y };
+        const odd = courseIndex % 2 === 1;
+        const corners = cornerPoses[odd ? 1 : 0];
+        const isFullCourse = course.type !== 'heightAdjuster';
+        const blockLength = ICF_BLOCK_CATALOG[course.type].length;
+
+        if (isFullCourse) {
+            corners.forEach(corner => {
+                if (!corner) return;
+                const block: WallRunBlock = {
+                    type: corner.type,
+                    coreThickness: core,
+                    position: { x: corner.position.x, y: course.y, z: corner.position.z },
+                    rotation: corner.rotation
+                };
+                if (corner.mirrored) block.mirrored = true;
+                blocks.push(block);
+            });
+        }
+
+        belowJoints = segments.map((segment, i) => {
+            let from = 0, to = segment.length;
+            const joints: number[] = [];
+            if (isFullCourse) {
+                // Straight blocks run between the corner legs, meeting them at a joint
+                const startCorner = corners[i];
+                const endCorner = corners[(i + 1) % path.length];
+                if (startCorner) joints.push(from = startCorner.outLeg);
+                if (endCorner) joints.push(to = segment.length - endCorner.inLeg);
+            } else {
+                // Even courses extend the incoming run at each corner, odd courses the outgoing one
+                const startJoint = buttJoints[i];
+                const endJoint = buttJoints[(i + 1) % path.length];
+                if (startJoint) from = odd ? -startJoint.extend : startJoint.trim;
+                if (endJoint) to = segment.length + (odd ? -endJoint.trim : endJoint.extend);
+            }
+
+            const stagger = chooseStagger(from, to, blockLength, belowJoints[i]);
+            blocks.push(...fillStraightRun(
+                segment.start, segment.bearing, from, to, course.type, core, course.y, stagger
+            ));
+            return [...joints, ...getBlockStarts(from, to, blockLength, stagger).slice(1)];
+        });
+    });
+
+    return blocks;
+}
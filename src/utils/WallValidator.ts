@@ -0,0 +1,287 @@
+// Wall Validator - Finds ICF block layouts that can't be built as drawn
+import * as THREE from 'three';
+import { ICFBlock, ICFProject, Vector3 } from '../types/project';
+import { ICF_BLOCK_CATALOG, getBlockLength } from '../data/icfCatalog';
+import { getBlockBounds } from './BlockSnapping';
+import { footprintsOverlap } from './BlockCollision';
+import { detectRuns, getCornerVertex, CenterlineSegment } from './RebarCalculator';
+import { getRoughOpening } from './OpeningCalculator';
+
+const JOINT_TOLERANCE = 0.5;          // inches - block ends this close form a joint
+const MAX_GAP = 48;                   // inches - wider gaps are taken as intentional
+const MIN_JOINT_OFFSET = 4;           // inches - joints in stacked courses must be further apart
+const MIN_CORNER_CLEARANCE = 12;      // inches from an opening's rough edge to the inside of a corner
+const CORNER_ANGLE_TOLERANCE = 10;    // degrees - straight blocks closer to parallel don't form a corner
+
+export type WallIssueKind =
+    | 'alignedJoints' | 'gap' | 'unsupported' | 'missingCorner' | 'mixedCore' | 'openingNearCorner';
+
+export const WALL_ISSUE_LABELS: Record<WallIssueKind, string> = {
+    alignedJoints: 'Aligned joints',
+    gap: 'Gap',
+    unsupported: 'No support',
+    missingCorner: 'Missing corner block',
+    mixedCore: 'Mixed core',
+    openingNearCorner: 'Opening near corner'
+};
+
+export interface WallIssue {
+    kind: WallIssueKind;
+    message: string;
+    elementIds: string[];  // blocks (and openings) to select
+    min: Vector3;          // box around them, to zoom to
+    max: Vector3;
+}
+
+interface Joint {
+    at: number;                    // position along the wall line
+    blockIds: [string, string];
+}
+
+const isCorner = (block: ICFBlock): boolean => block.type === 'corner90' || block.type === 'corner45';
+const getHeight = (block: ICFBlock): number => ICF_BLOCK_CATALOG[block.type].height;
+const getWidth = (block: ICFBlock): number => ICF_BLOCK_CATALOG[block.type].getWidth(block.coreThickness);
+const formatInches = (value: number): string => `${Math.round(value * 10) / 10}"`;
+
+function addTo<K, V>(map: Map<K, V[]>, key: K, value: V): void {
+    const list = map.get(key);
+    if (list) list.push(value);
+    else map.set(key, [value]);
+}
+
+/**
+ * Check every ICF wall in a project for layout problems
+ */
+export function validateWalls(project: ICFProject): WallIssue[] {
+    const blocks = project.elements.icfBlocks;
+    const byId = new Map(blocks.map(block => [block.id, block]));
+
+    const issues: WallIssue[] = [];
+    const add: AddIssue = (kind, message, ids, extra = new THREE.Box3()) => {
+        const unique = Array.from(new Set(ids));
+        issues.push({ kind, message, elementIds: unique, ...makeIssueBox(unique, byId, extra) });
+    };
+
+    checkWallLines(blocks, add);
+    checkSupport(blocks, add);
+    checkCorners(blocks, add);
+    checkOpenings(project, add);
+    return issues;
+}
+
+type AddIssue = (kind: WallIssueKind, message: string, ids: string[], extra?: THREE.Box3) => void;
+
+// Box around the given blocks plus `extra`
+function makeIssueBox(ids: string[], byId: Map<string, ICFBlock>, extra: THREE.Box3): { min: Vector3; max: Vector3 } {
+    const result = extra.clone();
+    for (const id of ids) {
+        const block = byId.get(id);
+        if (!block) continue;
+        const bounds = getBlockBounds(block);
+        result.expandByPoint(new THREE.Vector3(bounds.minX, block.position.y, bounds.minZ));
+        result.expandByPoint(new THREE.Vector3(bounds.maxX, block.position.y + getHeight(block), bounds.maxZ));
+    }
+    const { min, max } = result;
+    return { min: { x: min.x, y: min.y, z: min.z }, max: { x: max.x, y: max.y, z: max.z } };
+}
+
+/**
+ * Along each straight wall line: gaps between blocks in a course, joints that line
+ * up with the joints of the course below, and continuous walls with more than one core.
+ */
+function checkWallLines(blocks: ICFBlock[], add: AddIssue): void {
+    const runs = detectRuns(blocks);
+    const lines = new Map<string, CenterlineSegment[]>();
+
+    for (const run of runs) {
+        const cores = new Map<number, string[]>();
+        run.segments.forEach(s => addTo(cores, s.core, s.blockId));
+        if (cores.size > 1) {
+            // The blocks of the less common core(s) are the ones to change
+            const sorted = Array.from(cores.entries()).sort((a, b) => b[1].length - a[1].length);
+            add('mixedCore',
+                `Wall mixes ${sorted.map(([core]) => `${core}"`).join(' and ')} cores`,
+                sorted.slice(1).flatMap(([, ids]) => ids));
+        }
+
+        const key = `${run.segments[0].angle}|${run.segments[0].offset}`;
+        run.segments.forEach(s => addTo(lines, key, s));
+    }
+
+    lines.forEach(segments => {
+        const courses = new Map<number, CenterlineSegment[]>();
+        segments.forEach(s => {
+            const bottom = Math.round(s.bottom * 2) / 2;
+            addTo(courses, bottom, s);
+        });
+
+        const joints = new Map<number, Joint[]>();
+        courses.forEach((courseSegments, bottom) => {
+            joints.set(bottom, findJointsAndGaps(courseSegments, bottom, add));
+        });
+
+        // Joints in one course should fall between the joints of the course below
+        const bottoms = Array.from(courses.keys()).sort((a, b) => a - b);
+        const aligned: string[] = [];
+        let count = 0;
+        for (let i = 1; i < bottoms.length; i++) {
+            const below = courses.get(bottoms[i - 1])!;
+            const belowTop = Math.max(...below.map(s => s.bottom + s.height));
+            if (Math.abs(belowTop - bottoms[i]) > JOINT_TOLERANCE) continue;
+
+            for (const joint of joints.get(bottoms[i])!) {
+                const match = joints.get(bottoms[i - 1])!.find(j => Math.abs(j.at - joint.at) < MIN_JOINT_OFFSET);
+                if (match) {
+                    count++;
+                    aligned.push(...joint.blockIds, ...match.blockIds);
+                }
+            }
+        }
+        if (count > 0) {
+            add('alignedJoints', `${count} vertical joint(s) line up with the course below`, aligned);
+        }
+    });
+}
+
+// Joints between neighbouring blocks in one course of a wall line, reporting gaps as it goes
+function findJointsAndGaps(segments: CenterlineSegment[], bottom: number, add: AddIssue): Joint[] {
+    const sorted = [...segments].sort((a, b) => a.from - b.from);
+    const joints: Joint[] = [];
+    let last = sorted[0];
+    for (const segment of sorted.slice(1)) {
+        const gap = segment.from - last.to;
+        if (Math.abs(gap) <= JOINT_TOLERANCE) {
+            joints.push({ at: segment.from, blockIds: [last.blockId, segment.blockId] });
+        } else if (gap > JOINT_TOLERANCE && gap <= MAX_GAP) {
+            add('gap', `${formatInches(gap)} gap between blocks in the course at ${formatInches(bottom)}`,
+                [last.blockId, segment.blockId]);
+        }
+        if (segment.to > last.to) last = segment;
+    }
+    return joints;
+}
+
+/**
+ * Blocks above the lowest course need a block beneath them
+ */
+function checkSupport(blocks: ICFBlock[], add: AddIssue): void {
+    if (blocks.length === 0) return;
+    const base = Math.min(...blocks.map(b => b.position.y));
+
+    const byTop = new Map<number, ICFBlock[]>();
+    blocks.forEach(block => {
+        const top = Math.round((block.position.y + getHeight(block)) * 2) / 2;
+        addTo(byTop, top, block);
+    });
+
+    const unsupported = new Map<number, string[]>();
+    for (const block of blocks) {
+        if (block.position.y <= base + JOINT_TOLERANCE) continue;
+        const bottom = Math.round(block.position.y * 2) / 2;
+        const below = byTop.get(bottom) || [];
+        if (!below.some(other => footprintsOverlap(block, other))) {
+            addTo(unsupported, bottom, block.id);
+        }
+    }
+
+    unsupported.forEach((ids, bottom) => {
+        add('unsupported', `${ids.length} block(s) at ${formatInches(bottom)} have nothing beneath them`, ids);
+    });
+}
+
+// Ends of a straight block's centerline
+function getBlockEnds(block: ICFBlock): { x: number; z: number }[] {
+    const rad = THREE.MathUtils.degToRad(block.rotation);
+    const half = getBlockLength(block) / 2;
+    const dx = Math.cos(rad) * half, dz = -Math.sin(rad) * half;
+    const { x, z } = block.position;
+    return [{ x: x - dx, z: z - dz }, { x: x + dx, z: z + dz }];
+}
+
+/**
+ * Two straight blocks meeting end to end at an angle are a corner built
+ * without a corner block. Height adjusters have no corner piece, so their
+ * corners are always butted and are not reported.
+ */
+function checkCorners(blocks: ICFBlock[], add: AddIssue): void {
+    const straight = blocks.filter(block => !isCorner(block) && block.type !== 'heightAdjuster');
+    const minSin = Math.sin(THREE.MathUtils.degToRad(CORNER_ANGLE_TOLERANCE));
+
+    // Ends bucketed by course and a plan grid a block width across
+    const cell = 16;
+    const cellKey = (bottom: number, x: number, z: number) => `${bottom}|${Math.floor(x / cell)}|${Math.floor(z / cell)}`;
+    const ends = new Map<string, { block: ICFBlock; x: number; z: number }[]>();
+    for (const block of straight) {
+        const bottom = Math.round(block.position.y * 2) / 2;
+        for (const end of getBlockEnds(block)) {
+            const key = cellKey(bottom, end.x, end.z);
+            addTo(ends, key, { block, ...end });
+        }
+    }
+
+    const reported = new Set<string>();
+    for (const block of straight) {
+        const bottom = Math.round(block.position.y * 2) / 2;
+        for (const end of getBlockEnds(block)) {
+            const cx = Math.floor(end.x / cell), cz = Math.floor(end.z / cell);
+            for (let i = cx - 1; i <= cx + 1; i++) {
+                for (let j = cz - 1; j <= cz + 1; j++) {
+                    for (const other of ends.get(`${bottom}|${i}|${j}`) || []) {
+                        if (other.block.id <= block.id) continue;
+                        const pairKey = `${block.id}|${other.block.id}`;
+                        if (reported.has(pairKey)) continue;
+
+                        const reach = Math.max(getWidth(block), getWidth(other.block)) + JOINT_TOLERANCE;
+                        if (Math.hypot(end.x - other.x, end.z - other.z) > reach) continue;
+                        const angle = THREE.MathUtils.degToRad(block.rotation - other.block.rotation);
+                        if (Math.abs(Math.sin(angle)) < minSin) continue;
+
+                        reported.add(pairKey);
+                        add('missingCorner',
+                            `Straight blocks meet at a corner in the course at ${formatInches(bottom)} without a corner block`,
+                            [block.id, other.block.id]);
+                    }
+                }
+            }
+        }
+    }
+}
+
+/**
+ * Windows and doors need solid wall between their rough opening and a corner
+ */
+function checkOpenings(project: ICFProject, add: AddIssue): void {
+    const corners = project.elements.icfBlocks.filter(isCorner);
+    const openings = [
+        ...project.elements.windows.map(opening => ({ kind: 'window' as const, opening })),
+        ...project.elements.doors.map(opening => ({ kind: 'door' as const, opening }))
+    ];
+
+    for (const { kind, opening } of openings) {
+        const rough = getRoughOpening(kind, opening.type, opening.buckMaterial);
+        const rad = THREE.MathUtils.degToRad(opening.rotation);
+        const dx = Math.cos(rad), dz = -Math.sin(rad);
+        const { x, y, z } = opening.position;
+
+        const near = corners.filter(corner => {
+            if (corner.position.y >= y + rough.height || corner.position.y + getHeight(corner) <= y) return false;
+            const vertex = getCornerVertex(corner);
+            const along = (vertex.x - x) * dx + (vertex.z - z) * dz;
+            const across = -(vertex.x - x) * dz + (vertex.z - z) * dx;
+            if (Math.abs(across) > JOINT_TOLERANCE * 2) return false;
+            const clearance = Math.abs(along) - rough.width / 2 - getWidth(corner) / 2;
+            return clearance < MIN_CORNER_CLEARANCE;
+        });
+        if (near.length === 0) continue;
+
+        const half = rough.width / 2;
+        const extra = new THREE.Box3(
+            new THREE.Vector3(x - half, y, z - half),
+            new THREE.Vector3(x + half, y + rough.height, z + half)
+        );
+        add('openingNearCorner',
+            `${kind === 'window' ? 'Window' : 'Door'} is less than ${formatInches(MIN_CORNER_CLEARANCE)} from a corner`,
+            [opening.id, ...near.map(corner => corner.id)],
+            extra);
+    }
+}